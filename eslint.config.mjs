@@ -3,6 +3,9 @@ import tsParser from "@typescript-eslint/parser";
 
 export default [{
     files: ["**/*.ts"],
+}, {
+    // Instrumenter fixtures deliberately contain unusual formatting
+    ignores: ["src/test/fixtures/**"],
 }, {
     plugins: {
         "@typescript-eslint": typescriptEslint,
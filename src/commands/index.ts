@@ -1,15 +1,36 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { CodeExecutor } from '../services/codeExecutor';
 import { OutputPanel } from '../ui/outputPanel';
-import { MESSAGES } from '../constants';
+import type { EvaluationRequest, PackageInstallRequest, SnapshotAcceptRequest } from '../ui/outputPanel';
+import { InlineResults } from '../ui/inlineResults';
+import { ErrorDiagnostics } from '../ui/errorDiagnostics';
+import { CoverageDecorations } from '../ui/coverageDecorations';
+import { DocumentRunner } from '../ui/documentRunner';
+import { FragmentExtractor } from '../services/fragmentExtractor';
+import { PackageManager } from '../services/packageManager';
+import { PACKAGE_NAME } from '../services/packageDetector';
+import { RunHistory } from '../services/runHistory';
+import { SnapshotStore } from '../services/snapshotStore';
+import { ConfigService } from '../config/configService';
+import { AutoRunController } from '../watchers/autoRunController';
+import { ScriptTests } from '../ui/scriptTests';
+import { COMMANDS, MESSAGES } from '../constants';
+import { getExecutionOptions, getScriptLanguage } from '../utils';
+import type { RunScope } from '../types';
 
 /**
- * Handles the runCode command
+ * Handles the runCode command, and the commands that run part of the file
+ * (runSelection, runBlock, runToCursor) depending on its scope
  */
 export class RunCodeCommand {
+  private readonly fragments = new FragmentExtractor();
+
   constructor(
     private codeExecutor: CodeExecutor,
-    private outputPanel: OutputPanel
+    private documentRunner: DocumentRunner,
+    private configService: ConfigService,
+    private scope: RunScope = 'file'
   ) { }
 
   /**
@@ -23,67 +44,286 @@ export class RunCodeCommand {
       return;
     }
 
-    const code = editor.document.getText();
+    const code = this.getCode(editor);
+
+    if (code === undefined) {
+      vscode.window.showWarningMessage(MESSAGES.NO_BLOCK_AT_CURSOR);
+      return;
+    }
 
     if (!this.codeExecutor.validateCode(code)) {
       vscode.window.showErrorMessage('El código no es válido');
       return;
     }
 
-    // Get the working directory from the file's location
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
-    const workingDirectory = workspaceFolder ? workspaceFolder.uri.fsPath :
-      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ||
-      process.cwd();
-
-    // Get configuration
-    const config = vscode.workspace.getConfiguration('ockla');
-    const executionTimeout = config.get<number>('executionTimeout', 5000);
-    const asyncTimeout = config.get<number>('asyncTimeout', 500);
-
-    // Execute code
-    const result = await this.codeExecutor.execute(code, {
-      timeout: executionTimeout,
-      asyncTimeout: asyncTimeout,
-      workingDirectory: workingDirectory,
-    });
-
-    // Update panel with results and show it (manual execution)
-    this.outputPanel.update(result, true);
+    // Execute code, streaming its output to the panel (manual execution shows it)
+    const options = getExecutionOptions(editor.document, this.configService.get(editor.document.uri));
+    const result = await this.documentRunner.run(editor.document, code, options, true);
 
     // Show notification
     if (!result.success) {
       vscode.window.showErrorMessage(`${MESSAGES.EXECUTION_ERROR}: ${result.error}`);
     }
   }
+
+  /**
+   * Gets the code of the run scope. Parts of the file keep their place in it,
+   * so output is attributed to the lines of the file
+   * @returns The code, or undefined if there is no statement at the cursor
+   */
+  private getCode(editor: vscode.TextEditor): string | undefined {
+    const document = editor.document;
+    const text = document.getText();
+    const cursor = editor.selection.active;
+
+    switch (this.scope) {
+      case 'selection': {
+        const selections = editor.selections.filter(selection => !selection.isEmpty);
+        const ranges = selections.length > 0 ? selections : [document.lineAt(cursor.line).range];
+        return this.fragments.extract(text, ranges.map(range => ({
+          start: document.offsetAt(range.start),
+          end: document.offsetAt(range.end),
+        })));
+      }
+      case 'block': {
+        const block = this.fragments.findTopLevelStatement(text, document.offsetAt(cursor), getScriptLanguage(document));
+        return block && this.fragments.extract(text, [block]);
+      }
+      case 'toCursor':
+        return this.fragments.extract(text, [{ start: 0, end: document.offsetAt(document.lineAt(cursor.line).range.end) }]);
+      default:
+        return text;
+    }
+  }
+}
+
+/**
+ * Evaluates the expressions entered in the REPL input of the output panel,
+ * in the session of the document they belong to
+ */
+export class EvaluateExpressionCommand {
+  constructor(
+    private codeExecutor: CodeExecutor,
+    private outputPanel: OutputPanel,
+    private configService: ConfigService
+  ) { }
+
+  async execute(request: EvaluationRequest): Promise<void> {
+    const session = request.source.toString();
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === session);
+
+    // The session of a closed document is gone
+    if (!document) {
+      this.outputPanel.setSession(request.source, false);
+      return;
+    }
+
+    this.outputPanel.startEvaluation(request.source, request.expression);
+    const result = await this.codeExecutor.execute(request.expression, {
+      ...getExecutionOptions(document, this.configService.get(document.uri)),
+      session,
+      // The lines of an expression are not those of the document
+      coverage: false,
+      onOutput: entry => this.outputPanel.append(request.source, entry),
+    });
+    this.outputPanel.finishEvaluation(request.source, result);
+
+    // A run that had to be killed takes the session with it
+    if (!this.codeExecutor.hasSession(session)) {
+      this.outputPanel.setSession(request.source, false);
+    }
+  }
+}
+
+/**
+ * Installs the missing packages of a document, clicked in its output panel, then runs it again
+ */
+export class InstallPackagesCommand {
+  private readonly packageManager = new PackageManager();
+
+  /**
+   * @param configService - Configuration of the documents
+   * @param runHistory - Runs of the documents, with the packages they were missing
+   * @param scratchDirectory - Folder for the packages of scripts outside a project
+   */
+  constructor(
+    private configService: ConfigService,
+    private runHistory: RunHistory,
+    private scratchDirectory: string
+  ) { }
+
+  async execute(request: PackageInstallRequest): Promise<void> {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === request.source.toString());
+    if (!document) {
+      return;
+    }
+
+    // Only the packages the last run of the document was missing are installed, whatever the webview asks for
+    const missing = this.runHistory.getRuns(document.uri.toString())[0]?.missingPackages || [];
+    const packages = request.packages.filter(name => missing.includes(name) && PACKAGE_NAME.test(name));
+    if (packages.length === 0) {
+      return;
+    }
+
+    const config = this.configService.get(document.uri);
+    const { workingDirectory = process.cwd(), filePath } = getExecutionOptions(document, config);
+    const target = this.packageManager.getInstallTarget(
+      filePath ? path.dirname(filePath) : workingDirectory,
+      workingDirectory,
+      this.scratchDirectory,
+      config.packageInstallLocation === 'scratch'
+    );
+    const names = packages.join(', ');
+
+    try {
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `${MESSAGES.INSTALLING_PACKAGES} ${names} (${target.manager})…` },
+        () => this.packageManager.install(target, packages)
+      );
+    } catch (err) {
+      vscode.window.showErrorMessage(`${MESSAGES.INSTALL_FAILED} ${names}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    // Run the document again, which lists the packages still missing if the installation failed
+    const column = vscode.window.visibleTextEditors.find(editor => editor.document === document)?.viewColumn;
+    await vscode.window.showTextDocument(document, { viewColumn: column });
+    await vscode.commands.executeCommand(COMMANDS.RUN_CODE);
+  }
+}
+
+/**
+ * Stores the new value of a snapshot that changed, accepted in the output panel
+ */
+export class AcceptSnapshotCommand {
+  private readonly snapshotStore = new SnapshotStore();
+
+  execute(request: SnapshotAcceptRequest): void {
+    const { file, name, value } = request.snapshot;
+    if (!file) {
+      return;
+    }
+
+    try {
+      this.snapshotStore.write(file, name, value);
+      vscode.window.showInformationMessage(`${MESSAGES.SNAPSHOT_ACCEPTED} ${name}`);
+    } catch (err) {
+      vscode.window.showErrorMessage(`${MESSAGES.SNAPSHOT_NOT_SAVED} ${name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+/**
+ * Handles the reset session command, for the active document or the one of the active output panel
+ */
+export class ResetSessionCommand {
+  constructor(
+    private codeExecutor: CodeExecutor,
+    private outputPanel: OutputPanel
+  ) { }
+
+  execute(): void {
+    const source = vscode.window.activeTextEditor?.document.uri || this.outputPanel.getActiveSource();
+
+    if (!source) {
+      vscode.window.showWarningMessage(MESSAGES.NO_ACTIVE_EDITOR);
+      return;
+    }
+
+    this.codeExecutor.resetSession(source.toString());
+    this.outputPanel.setSession(source, false);
+    vscode.window.showInformationMessage(MESSAGES.SESSION_RESET);
+  }
+}
+
+/**
+ * Handles the show history command, for the active document or the one of the active output panel
+ */
+export class ShowHistoryCommand {
+  constructor(private outputPanel: OutputPanel) { }
+
+  execute(): void {
+    const source = vscode.window.activeTextEditor?.document.uri || this.outputPanel.getActiveSource();
+
+    if (!source) {
+      vscode.window.showWarningMessage(MESSAGES.NO_ACTIVE_EDITOR);
+      return;
+    }
+
+    this.outputPanel.showHistory(source);
+  }
 }
 
 /**
  * Handles the clear output command
  */
 export class ClearOutputCommand {
-  constructor(private outputPanel: OutputPanel) { }
+  constructor(
+    private outputPanel: OutputPanel,
+    private inlineResults: InlineResults,
+    private errorDiagnostics: ErrorDiagnostics,
+    private coverageDecorations: CoverageDecorations
+  ) { }
 
   execute(): void {
     this.outputPanel.clear();
+    this.inlineResults.clear();
+    this.errorDiagnostics.clear();
+    this.coverageDecorations.clear();
   }
 }
 
 /**
- * Handles the toggle auto-run command
+ * Handles the toggle auto-run command, for the workspace folder of the active document,
+ * or the workspace; the user settings only when no folder is open
  */
 export class ToggleAutoRunCommand {
   async execute(): Promise<void> {
-    const config = vscode.workspace.getConfiguration('ockla');
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    const folder = uri && vscode.workspace.getWorkspaceFolder(uri);
+    const target = folder
+      ? vscode.ConfigurationTarget.WorkspaceFolder
+      : vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+
+    const config = vscode.workspace.getConfiguration('ockla', folder?.uri);
     const currentValue = config.get<boolean>('autoRunOnSave', false);
 
-    await config.update('autoRunOnSave', !currentValue, vscode.ConfigurationTarget.Global);
+    await config.update('autoRunOnSave', !currentValue, target);
 
     const message = !currentValue ? MESSAGES.AUTO_RUN_ENABLED : MESSAGES.AUTO_RUN_DISABLED;
     vscode.window.showInformationMessage(message);
   }
 }
 
+/**
+ * Handles the toggle auto-run command of the active file, from the command palette or its status bar item
+ */
+export class ToggleFileAutoRunCommand {
+  constructor(private autoRunController: AutoRunController) { }
+
+  async execute(): Promise<void> {
+    await this.autoRunController.toggleActiveFile();
+  }
+}
+
+/**
+ * Handles the run test command: from the CodeLens of a test or describe block, or for all the
+ * tests of the active document from the command palette
+ */
+export class RunTestCommand {
+  constructor(private scriptTests: ScriptTests) { }
+
+  async execute(uri?: vscode.Uri, name?: string[], line?: number): Promise<void> {
+    const source = uri || vscode.window.activeTextEditor?.document.uri;
+
+    if (!source) {
+      vscode.window.showWarningMessage(MESSAGES.NO_ACTIVE_EDITOR);
+      return;
+    }
+
+    await this.scriptTests.runTest(source, name, line);
+  }
+}
+
 /**
  * Handles the stop execution command
  */
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectConfig, CONFIG_FILE_NAME, DEFAULT_CONFIGURATION } from '../services/projectConfig';
+import type { ConfigurationOverrides, ProjectConfigFile } from '../services/projectConfig';
+import { MESSAGES } from '../constants';
+import type { OcklaConfiguration } from '../types';
+
+/**
+ * Gives every module the configuration of the document it works on.
+ *
+ * The `ockla.*` settings are overridden by the .ocklarc.json files of the workspace:
+ * one per folder, from the workspace folder down to the folder of the document, with
+ * rules for the files matching their globs. Config files are read once and reloaded
+ * when they change; problems in them are reported and the invalid entries ignored.
+ */
+export class ConfigService {
+  private readonly projectConfig = new ProjectConfig();
+  // Parsed config files by path; undefined when a folder has none
+  private readonly files = new Map<string, ProjectConfigFile | undefined>();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * Fires when the settings or a config file change
+   */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${CONFIG_FILE_NAME}`);
+    const reload = (uri: vscode.Uri) => {
+      this.files.delete(path.dirname(uri.fsPath));
+      this.changeEmitter.fire();
+    };
+    watcher.onDidCreate(reload, null, this.disposables);
+    watcher.onDidChange(reload, null, this.disposables);
+    watcher.onDidDelete(reload, null, this.disposables);
+
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('ockla')) {
+        this.changeEmitter.fire();
+      }
+    }, null, this.disposables);
+
+    this.disposables.push(watcher, this.changeEmitter);
+  }
+
+  /**
+   * Gets the configuration of a document
+   * @param uri - The document URI
+   * @returns The settings with the config files and rules that apply to the document
+   */
+  get(uri: vscode.Uri): OcklaConfiguration {
+    const directories = this.getConfigDirectories(uri);
+    const files = directories
+      .map(directory => this.getFile(directory))
+      .filter((file): file is ProjectConfigFile => !!file);
+
+    // Untitled documents are matched by name, as if they were in the workspace folder
+    const filePath = uri.scheme === 'file' ? uri.fsPath : path.join(directories[0] || '', path.basename(uri.path));
+    return this.projectConfig.resolve(this.getSettings(uri), files, filePath);
+  }
+
+  /**
+   * Disposes of the watchers
+   */
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Reads the `ockla.*` settings that apply to a document, workspace folder settings included
+   */
+  private getSettings(uri: vscode.Uri): OcklaConfiguration {
+    const settings = vscode.workspace.getConfiguration('ockla', uri);
+    const overrides: Record<string, unknown> = {};
+    for (const key of Object.keys(DEFAULT_CONFIGURATION)) {
+      const value = settings.get(key);
+      if (value !== undefined) {
+        overrides[key] = value;
+      }
+    }
+    return this.projectConfig.merge(DEFAULT_CONFIGURATION, overrides as ConfigurationOverrides);
+  }
+
+  /**
+   * Lists the folders whose config files apply to a document, outermost first
+   */
+  private getConfigDirectories(uri: vscode.Uri): string[] {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (uri.scheme !== 'file') {
+      // Untitled documents run in the first workspace folder
+      const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+      return root?.scheme === 'file' ? [root.fsPath] : [];
+    }
+
+    let directory = path.dirname(uri.fsPath);
+    if (folder?.uri.scheme !== 'file') {
+      return [directory];
+    }
+
+    const directories: string[] = [];
+    while (true) {
+      directories.unshift(directory);
+      const parent = path.dirname(directory);
+      if (directory === folder.uri.fsPath || parent === directory) {
+        return directories;
+      }
+      directory = parent;
+    }
+  }
+
+  /**
+   * Gets the config file of a folder, reading it on first use
+   */
+  private getFile(directory: string): ProjectConfigFile | undefined {
+    if (this.files.has(directory)) {
+      return this.files.get(directory);
+    }
+
+    const filePath = path.join(directory, CONFIG_FILE_NAME);
+    let file: ProjectConfigFile | undefined;
+    try {
+      file = this.projectConfig.parse(fs.readFileSync(filePath, 'utf8'), directory);
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+        file = { directory, overrides: {}, rules: [], problems: [String(err)] };
+      }
+    }
+
+    if (file && file.problems.length > 0) {
+      const name = vscode.workspace.asRelativePath(filePath);
+      vscode.window.showWarningMessage(`${MESSAGES.INVALID_CONFIG} ${name}: ${file.problems.join('; ')}`);
+    }
+
+    this.files.set(directory, file);
+    return file;
+  }
+}
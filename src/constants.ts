@@ -6,23 +6,40 @@ export const EXTENSION_ID = 'ockla';
 
 export const COMMANDS = {
   RUN_CODE: 'ockla.runCode',
+  RUN_SELECTION: 'ockla.runSelection',
+  RUN_BLOCK: 'ockla.runBlock',
+  RUN_TO_CURSOR: 'ockla.runToCursor',
   TOGGLE_AUTO_RUN: 'ockla.toggleAutoRun',
+  TOGGLE_FILE_AUTO_RUN: 'ockla.toggleFileAutoRun',
   CLEAR_OUTPUT: 'ockla.clearOutput',
   STOP_EXECUTION: 'ockla.stopExecution',
+  RESET_SESSION: 'ockla.resetSession',
+  SHOW_HISTORY: 'ockla.showHistory',
+  RUN_TEST: 'ockla.runTest',
 } as const;
 
 export const WEBVIEW_ID = 'ocklaOutput';
 export const WEBVIEW_TITLE = 'Ockla Output';
 
 export const FILE_PATTERNS = {
-  JAVASCRIPT: '**/*.js',
-  TYPESCRIPT: '**/*.ts',
+  JAVASCRIPT: '**/*.{js,mjs,cjs}',
+  TYPESCRIPT: '**/*.{ts,mts,cts,tsx}',
+  SCRIPTS: '**/*.{js,mjs,cjs,ts,mts,cts,tsx}',
 } as const;
 
 export const MESSAGES = {
-  NO_ACTIVE_EDITOR: 'Abre un archivo JS para ejecutar con Ockla',
+  NO_ACTIVE_EDITOR: 'Abre un archivo JS o TS para ejecutar con Ockla',
+  NO_BLOCK_AT_CURSOR: 'No hay ninguna sentencia en la línea del cursor',
   AUTO_RUN_ENABLED: 'Ockla: Auto-run habilitado',
   AUTO_RUN_DISABLED: 'Ockla: Auto-run deshabilitado',
+  FILE_AUTO_RUN_ENABLED: 'Ockla: Auto-run habilitado para este archivo',
+  FILE_AUTO_RUN_DISABLED: 'Ockla: Auto-run deshabilitado para este archivo',
   EXECUTION_SUCCESS: 'Código ejecutado correctamente',
   EXECUTION_ERROR: 'Error al ejecutar el código',
+  SESSION_RESET: 'Ockla: Sesión reiniciada',
+  INVALID_CONFIG: 'Ockla: Configuración no válida en',
+  INSTALLING_PACKAGES: 'Ockla: Instalando',
+  INSTALL_FAILED: 'Ockla: No se pudieron instalar',
+  SNAPSHOT_ACCEPTED: 'Ockla: Snapshot actualizado:',
+  SNAPSHOT_NOT_SAVED: 'Ockla: No se pudo guardar el snapshot',
 } as const;
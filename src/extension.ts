@@ -1,8 +1,29 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { CodeExecutor } from './services/codeExecutor';
+import { RunHistory } from './services/runHistory';
 import { OutputPanel } from './ui/outputPanel';
-import { RunCodeCommand, ClearOutputCommand, ToggleAutoRunCommand, StopExecutionCommand } from './commands';
-import { FileWatcher } from './watchers/fileWatcher';
+import { InlineResults } from './ui/inlineResults';
+import { ErrorDiagnostics } from './ui/errorDiagnostics';
+import { CoverageDecorations } from './ui/coverageDecorations';
+import { RunStatusBar } from './ui/runStatusBar';
+import { DocumentRunner } from './ui/documentRunner';
+import { ScriptTests } from './ui/scriptTests';
+import {
+	RunCodeCommand,
+	ClearOutputCommand,
+	ToggleAutoRunCommand,
+	ToggleFileAutoRunCommand,
+	StopExecutionCommand,
+	EvaluateExpressionCommand,
+	ResetSessionCommand,
+	ShowHistoryCommand,
+	InstallPackagesCommand,
+	RunTestCommand,
+	AcceptSnapshotCommand,
+} from './commands';
+import { AutoRunController } from './watchers/autoRunController';
+import { ConfigService } from './config/configService';
 import { COMMANDS } from './constants';
 
 /**
@@ -11,21 +32,55 @@ import { COMMANDS } from './constants';
  */
 export function activate(context: vscode.ExtensionContext) {
 	// Initialize services
-	const codeExecutor = new CodeExecutor();
-	const outputPanel = new OutputPanel(context);
-	const fileWatcher = new FileWatcher(codeExecutor, outputPanel);
+	const configService = new ConfigService();
+	// Packages installed for scripts outside a project
+	const scratchDirectory = path.join(context.globalStorageUri.fsPath, 'packages');
+	const codeExecutor = new CodeExecutor(undefined, scratchDirectory);
+	const runHistory = new RunHistory(context.workspaceState);
+	const outputPanel = new OutputPanel(context, runHistory);
+	const inlineResults = new InlineResults(configService);
+	const errorDiagnostics = new ErrorDiagnostics();
+	const coverageDecorations = new CoverageDecorations();
+	const runStatus = new RunStatusBar();
+	const documentRunner = new DocumentRunner(codeExecutor, outputPanel, inlineResults, errorDiagnostics, coverageDecorations, runHistory, runStatus);
+	const autoRunController = new AutoRunController(
+		codeExecutor, outputPanel, documentRunner, runHistory, configService, context.workspaceState
+	);
+	const scriptTests = new ScriptTests(documentRunner, configService);
 
 	// Initialize commands
-	const runCodeCommand = new RunCodeCommand(codeExecutor, outputPanel);
-	const clearOutputCommand = new ClearOutputCommand(outputPanel);
+	const runCodeCommand = new RunCodeCommand(codeExecutor, documentRunner, configService);
+	const runSelectionCommand = new RunCodeCommand(codeExecutor, documentRunner, configService, 'selection');
+	const runBlockCommand = new RunCodeCommand(codeExecutor, documentRunner, configService, 'block');
+	const runToCursorCommand = new RunCodeCommand(codeExecutor, documentRunner, configService, 'toCursor');
+	const clearOutputCommand = new ClearOutputCommand(outputPanel, inlineResults, errorDiagnostics, coverageDecorations);
 	const toggleAutoRunCommand = new ToggleAutoRunCommand();
+	const toggleFileAutoRunCommand = new ToggleFileAutoRunCommand(autoRunController);
 	const stopExecutionCommand = new StopExecutionCommand(codeExecutor);
+	const evaluateExpressionCommand = new EvaluateExpressionCommand(codeExecutor, outputPanel, configService);
+	const resetSessionCommand = new ResetSessionCommand(codeExecutor, outputPanel);
+	const showHistoryCommand = new ShowHistoryCommand(outputPanel);
+	const installPackagesCommand = new InstallPackagesCommand(configService, runHistory, scratchDirectory);
+	const runTestCommand = new RunTestCommand(scriptTests);
+	const acceptSnapshotCommand = new AcceptSnapshotCommand();
 
 	// Register commands
 	context.subscriptions.push(
 		vscode.commands.registerCommand(COMMANDS.RUN_CODE, () => runCodeCommand.execute())
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand(COMMANDS.RUN_SELECTION, () => runSelectionCommand.execute())
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(COMMANDS.RUN_BLOCK, () => runBlockCommand.execute())
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(COMMANDS.RUN_TO_CURSOR, () => runToCursorCommand.execute())
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand(COMMANDS.CLEAR_OUTPUT, () => clearOutputCommand.execute())
 	);
@@ -34,16 +89,61 @@ export function activate(context: vscode.ExtensionContext) {
 		vscode.commands.registerCommand(COMMANDS.TOGGLE_AUTO_RUN, () => toggleAutoRunCommand.execute())
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand(COMMANDS.TOGGLE_FILE_AUTO_RUN, () => toggleFileAutoRunCommand.execute())
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand(COMMANDS.STOP_EXECUTION, () => stopExecutionCommand.execute())
 	);
 
-	// Start file watcher
-	fileWatcher.start();
+	context.subscriptions.push(
+		vscode.commands.registerCommand(COMMANDS.RESET_SESSION, () => resetSessionCommand.execute())
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(COMMANDS.SHOW_HISTORY, () => showHistoryCommand.execute())
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(COMMANDS.RUN_TEST, (uri?: vscode.Uri, name?: string[], line?: number) => runTestCommand.execute(uri, name, line))
+	);
+
+	// Expressions entered in the REPL input of the panel
+	context.subscriptions.push(
+		outputPanel.onDidRequestEvaluation(request => evaluateExpressionCommand.execute(request))
+	);
+
+	// Missing packages installed from the panel
+	context.subscriptions.push(
+		outputPanel.onDidRequestInstall(request => installPackagesCommand.execute(request))
+	);
+
+	// New values of snapshots accepted in the panel
+	context.subscriptions.push(
+		outputPanel.onDidAcceptSnapshot(request => acceptSnapshotCommand.execute(request))
+	);
+
+	// Sessions and output panels go away with their documents
+	context.subscriptions.push(
+		vscode.workspace.onDidCloseTextDocument(document => {
+			codeExecutor.resetSession(document.uri.toString());
+			outputPanel.close(document.uri);
+		})
+	);
+
+	// Start running documents by themselves
+	autoRunController.start();
 
 	// Register disposables
 	context.subscriptions.push(outputPanel);
-	context.subscriptions.push(fileWatcher);
+	context.subscriptions.push(inlineResults);
+	context.subscriptions.push(errorDiagnostics);
+	context.subscriptions.push(coverageDecorations);
+	context.subscriptions.push(runStatus);
+	context.subscriptions.push(autoRunController);
+	context.subscriptions.push(scriptTests);
+	context.subscriptions.push(configService);
 }
 
 /**
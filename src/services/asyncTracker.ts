@@ -0,0 +1,142 @@
+import { createHook } from 'async_hooks';
+import type { AsyncHook } from 'async_hooks';
+import type { SourcePosition } from '../types';
+
+/**
+ * An async operation started by the script that has not finished yet
+ */
+export interface TrackedOperation {
+  /** Kind of operation, e.g. "setInterval" or "socket" */
+  kind: string;
+  /** Where the script started it, in the instrumented code */
+  position?: SourcePosition;
+}
+
+interface TrackedResource {
+  kind: string;
+  resource: object;
+  position?: SourcePosition;
+}
+
+// Async resource types that keep the event loop alive, by the kind of operation they stand for
+const RESOURCE_KINDS: Record<string, string> = {
+  Immediate: 'setImmediate',
+  TCPSERVERWRAP: 'server',
+  PIPESERVERWRAP: 'server',
+  TCPWRAP: 'socket',
+  TCPCONNECTWRAP: 'socket connection',
+  TLSWRAP: 'TLS socket',
+  PIPEWRAP: 'pipe',
+  PIPECONNECTWRAP: 'pipe connection',
+  UDPWRAP: 'UDP socket',
+  HTTPCLIENTREQUEST: 'HTTP request',
+  HTTPINCOMINGMESSAGE: 'HTTP response',
+  GETADDRINFOREQWRAP: 'DNS lookup',
+  QUERYWRAP: 'DNS query',
+  FSREQCALLBACK: 'file system operation',
+  FSREQPROMISE: 'file system operation',
+  FILEHANDLE: 'open file',
+  FSEVENTWRAP: 'file watcher',
+  STATWATCHER: 'file watcher',
+  PROCESSWRAP: 'child process',
+  SIGNALWRAP: 'signal listener',
+  ZLIB: 'compression',
+  WORKER: 'worker',
+};
+
+/**
+ * Tracks the timers, sockets, file handles and promises created by a script with async_hooks,
+ * so the runner can report what was still pending when it stopped waiting.
+ */
+export class AsyncTracker {
+  private readonly resources = new Map<number, TrackedResource>();
+  private readonly pendingPromises = new Set<number>();
+  private hook: AsyncHook | undefined;
+
+  /**
+   * @param locate - Finds the script position in a stack trace
+   */
+  constructor(private readonly locate: (stack: string | undefined) => SourcePosition | undefined) { }
+
+  /**
+   * Starts tracking the async operations created from now on
+   */
+  start(): void {
+    this.hook = createHook({
+      init: (asyncId, type, _triggerAsyncId, resource) => {
+        if (type === 'PROMISE') {
+          // Promises are only counted, capturing a stack for each would slow every await down
+          this.pendingPromises.add(asyncId);
+          return;
+        }
+
+        const kind = type === 'Timeout' ? this.getTimerKind(resource) : RESOURCE_KINDS[type];
+        if (kind) {
+          this.resources.set(asyncId, { kind, resource, position: this.locate(new Error().stack) });
+        }
+      },
+      promiseResolve: asyncId => {
+        this.pendingPromises.delete(asyncId);
+      },
+      destroy: asyncId => {
+        this.resources.delete(asyncId);
+        this.pendingPromises.delete(asyncId);
+      },
+    });
+    this.hook.enable();
+  }
+
+  /**
+   * Creates resources that do not belong to the script, such as the timers of the runner itself
+   * @param create - Creates the resources
+   * @returns What create returned
+   */
+  untracked<T>(create: () => T): T {
+    this.hook?.disable();
+    try {
+      return create();
+    } finally {
+      this.hook?.enable();
+    }
+  }
+
+  /**
+   * Stops tracking
+   */
+  stop(): void {
+    this.hook?.disable();
+  }
+
+  /**
+   * Gets the operations that still keep the script alive
+   * @returns The pending operations, in the order they were started
+   */
+  getPendingOperations(): TrackedOperation[] {
+    const operations: TrackedOperation[] = [];
+
+    for (const { kind, resource, position } of this.resources.values()) {
+      // Unreferenced handles (timer.unref()) do not keep the event loop alive
+      const handle = resource as { hasRef?: () => boolean };
+      if (typeof handle.hasRef !== 'function' || handle.hasRef()) {
+        operations.push({ kind, position });
+      }
+    }
+
+    return operations;
+  }
+
+  /**
+   * Gets the number of promises created by the script that are not settled
+   */
+  getPendingPromiseCount(): number {
+    return this.pendingPromises.size;
+  }
+
+  /**
+   * Tells setTimeout and setInterval timers apart
+   */
+  private getTimerKind(resource: object): string {
+    const timer = resource as { _repeat?: number | null };
+    return timer._repeat ? 'setInterval' : 'setTimeout';
+  }
+}
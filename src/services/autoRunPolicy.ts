@@ -0,0 +1,37 @@
+import { ProjectConfig } from './projectConfig';
+import type { AutoRunMode, OcklaConfiguration } from '../types';
+
+/**
+ * Decides how a file runs by itself: as it is edited (live mode), when saved, or not at all.
+ *
+ * The configuration turns auto-run on for the files matching its include globs, all of them
+ * when there are none, unless they match an exclude glob. A file can also be turned on or off
+ * on its own, which wins over the configuration and its globs.
+ */
+export class AutoRunPolicy {
+  private readonly projectConfig = new ProjectConfig();
+
+  /**
+   * Gets the auto-run mode of a file
+   * @param config - The configuration of the file
+   * @param relativePath - Path of the file relative to its workspace folder, with forward slashes
+   * @param enabled - Whether the file was turned on or off on its own, if it was
+   */
+  getMode(config: OcklaConfiguration, relativePath: string, enabled?: boolean): AutoRunMode {
+    if (enabled === false || (enabled === undefined && !this.matches(config, relativePath))) {
+      return 'off';
+    }
+    if (config.liveMode) {
+      return 'live';
+    }
+    return config.autoRunOnSave || enabled ? 'save' : 'off';
+  }
+
+  /**
+   * Checks if a file matches the include globs of the configuration and none of its exclude globs
+   */
+  private matches(config: OcklaConfiguration, relativePath: string): boolean {
+    const matchesAny = (globs: string[]) => globs.some(glob => this.projectConfig.matchesGlob(glob, relativePath));
+    return (config.autoRunInclude.length === 0 || matchesAny(config.autoRunInclude)) && !matchesAny(config.autoRunExclude);
+  }
+}
@@ -1,192 +1,329 @@
-import { Script, createContext } from 'vm';
-import type { ExecutionResult, CodeExecutionOptions } from '../types';
-import * as module from 'module';
+import { Worker } from 'worker_threads';
+import type {
+  ExecutionResult,
+  CodeExecutionOptions,
+  CoverageReport,
+  ErrorDetails,
+  OutputEntry,
+  OutputPayload,
+  PendingOperation,
+  SourcePosition,
+  StackFrame,
+  TestResult,
+} from '../types';
+import * as fs from 'fs';
+import { createRequire } from 'module';
 import * as path from 'path';
+import { Instrumenter } from './instrumenter';
+import { ModuleTransformer, IMPORT_FUNCTION, IMPORT_META } from './moduleTransformer';
+import { SessionTransformer } from './sessionTransformer';
+import { SandboxPermissions } from './sandboxPermissions';
+import { EnvLoader } from './envLoader';
+import type { LoadedEnv } from './envLoader';
+import { SecretMasker } from './secretMasker';
+import { ModuleLoader } from './moduleLoader';
+import { PackageDetector } from './packageDetector';
+import { SnapshotStore } from './snapshotStore';
+import { TypeScriptCompiler, CompilationError } from './typeScriptCompiler';
+import { chainRewrites } from './sourceRewriter';
+import type { RewrittenSource } from './sourceRewriter';
+import type { CapturedCoverage, CapturedOutput, PreloadEntry, WorkerInput, WorkerMessage } from './workerProtocol';
 
 /**
- * Service responsible for executing JavaScript code in a sandboxed environment
+ * Reason a run ended before completing
+ */
+interface RunFailure {
+  message: string;
+  /** Position in the instrumented code */
+  position?: SourcePosition;
+  /** The error that stopped the script; stack positions are in the instrumented code */
+  error?: ErrorDetails;
+}
+
+/**
+ * How a new worker is started
+ */
+interface WorkerSettings {
+  /** Heap size limit in MB */
+  memory?: number;
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * How a worker run ended
+ */
+interface RunOutcome {
+  failure?: RunFailure;
+  /** What the worker still had pending when the async timeout was up */
+  pending?: Extract<WorkerMessage, { type: 'pending' }>;
+  /** Project files the script loaded */
+  dependencies?: string[];
+  /** How many times the code ran, when the run collected coverage */
+  coverage?: CapturedCoverage;
+}
+
+/**
+ * Service responsible for executing JavaScript code in a sandboxed environment.
+ *
+ * Code is compiled and instrumented here, then run by a worker thread that is terminated
+ * when the run ends, is stopped, or exceeds its time or memory limits.
+ * Runs of a session share one worker, and with it the VM context and its variables;
+ * they run one after the other, and the worker only goes away when the session is reset
+ * or a run has to be killed.
+ * Workers only see the environment variables the permissions policy of the run allows,
+ * those of the project's env files and those configured for it; a session keeps those of
+ * its first run until it is reset. Values of secret variables are hidden in the output.
+ * The configured globals and preload scripts are set up in a new context before the code
+ * runs: on every run, or when a session starts.
+ * A run can be cancelled with the abort signal of its options, which kills its worker.
+ * Scripts importing packages that are not installed do not run; their result lists the
+ * missing packages instead. The tests a script declares are listed in its result too.
+ * Values pinned with `snapshot()` are compared with those stored by earlier runs of the file,
+ * and stored on their first run. Runs asked for coverage return how many times each line and
+ * branch of the code ran, counted by V8 in the worker.
  */
 export class CodeExecutor {
   private readonly defaultTimeout = 5000; // 5 seconds
-  private abortController: AbortController | null = null;
+  private readonly defaultAsyncTimeout = 2000;
+  // Time a worker gets to report its pending operations before it is killed anyway
+  private readonly pendingReportGrace = 500;
+  private readonly scriptFilename = 'ockla-script.js';
+  private readonly cancelledMessage = 'Execution cancelled';
+  // Lines added before the user code by the async wrapper
+  private readonly wrapperLineOffset = 1;
+  private readonly instrumenter = new Instrumenter();
+  private readonly moduleTransformer = new ModuleTransformer();
+  private readonly compiler = new TypeScriptCompiler();
+  private readonly sessionTransformer = new SessionTransformer();
+  private readonly envLoader = new EnvLoader();
+  private readonly packageDetector = new PackageDetector();
+  private readonly snapshotStore = new SnapshotStore();
+  // Workers of the runs in progress, with the function that stops each one
+  private readonly runningWorkers = new Map<Worker, (reason: string) => void>();
+  // Workers of the sessions, and the last run queued in each session
+  private readonly sessionWorkers = new Map<string, Worker>();
+  private readonly sessionQueues = new Map<string, Promise<ExecutionResult>>();
+  private sessionRuns = 0;
 
   /**
-   * Stops any currently running execution
+   * @param workerPath - Path of the compiled execution worker script
+   * @param packagesDirectory - Folder of the packages Ockla installs for scripts outside a project
+   */
+  constructor(
+    private readonly workerPath = path.join(__dirname, 'executionWorker.js'),
+    private readonly packagesDirectory?: string
+  ) { }
+
+  /**
+   * Stops any currently running execution, killing its worker
    */
   stopExecution(): void {
-    if (this.abortController) {
-      this.abortController.abort();
-      this.abortController = null;
+    for (const stop of this.runningWorkers.values()) {
+      stop('Execution stopped');
     }
   }
 
   /**
-   * Executes JavaScript code and returns the result
-   * @param code - The JavaScript code to execute
+   * Discards the context of a session; its next run starts from scratch
+   * @param session - The session key
+   */
+  resetSession(session: string): void {
+    const worker = this.sessionWorkers.get(session);
+    this.sessionWorkers.delete(session);
+    void worker?.terminate();
+  }
+
+  /**
+   * Checks if a session has a context, kept from an earlier run
+   * @param session - The session key
+   */
+  hasSession(session: string): boolean {
+    return this.sessionWorkers.has(session);
+  }
+
+  /**
+   * Executes JavaScript or TypeScript code and returns the result
+   * @param code - The code to execute
    * @param options - Execution options (timeout, memory limits, etc.)
    * @returns ExecutionResult with success status and output
    */
-  async execute(code: string, options: CodeExecutionOptions = {}): Promise<ExecutionResult> {
+  execute(code: string, options: CodeExecutionOptions = {}): Promise<ExecutionResult> {
+    const session = options.session;
+    if (!session) {
+      return this.run(code, options);
+    }
+
+    // Runs of a session wait for the previous one, as they share the context
+    const result = (this.sessionQueues.get(session) || Promise.resolve()).then(() => this.run(code, options));
+    this.sessionQueues.set(session, result);
+    void result.then(() => {
+      if (this.sessionQueues.get(session) === result) {
+        this.sessionQueues.delete(session);
+      }
+    });
+    return result;
+  }
+
+  private async run(code: string, options: CodeExecutionOptions): Promise<ExecutionResult> {
     const startTime = Date.now();
     const outputs: string[] = [];
+    const entries: OutputEntry[] = [];
+    const tests: TestResult[] = [];
+    let instrumented: RewrittenSource | undefined;
+    // Code handed to the instrumenter, mapped back to the original source
+    let prepared: RewrittenSource | undefined;
+    let envFiles: LoadedEnv | undefined;
+    let dependencies: string[] | undefined;
+    let masker = new SecretMasker({});
+
+    // Records a value captured by the worker, tagged with the source position it came from,
+    // and streams it to the caller as soon as it arrives
+    const record = (captured: CapturedOutput) => {
+      const output = this.checkSnapshot(masker.maskData(captured), options.filePath);
+      const position = this.toOriginalPosition(output, prepared, instrumented);
+      const text = output.thrown ? this.formatError(output.text, position, options) : output.text;
+      const prefix = output.level === 'warn' || output.level === 'error' ? `[${output.level.toUpperCase()}] ` : '';
+      const entry: OutputEntry = {
+        level: output.level,
+        text,
+        preview: output.thrown ? text : output.preview,
+        line: position?.line,
+        column: output.thrown ? position?.column : undefined,
+        timestamp: output.timestamp,
+        depth: output.depth,
+        payload: output.payload && this.mapPayload(output.payload, instrumented),
+        values: output.values,
+        error: output.error && this.mapError(output.error, instrumented),
+      };
 
-    // Create a new abort controller for this execution
-    this.abortController = new AbortController();
+      // Group contents are indented, as in a terminal
+      if (output.payload?.type !== 'groupEnd') {
+        const indent = '  '.repeat(output.depth || 0);
+        outputs.push((prefix + text).replace(/^/gm, indent));
+      }
+      entries.push(entry);
+      if (output.payload?.type === 'test') {
+        tests.push({ ...output.payload.result, line: position?.line });
+      }
+      options.onOutput?.(entry);
+    };
 
-    try {
-      // Convert ES6 imports to require statements
-      const processedCode = this.convertImportsToRequire(code);
+    // Builds the result of a run that did not complete
+    const fail = (message: string, position: SourcePosition | undefined, error?: ErrorDetails): ExecutionResult => {
+      const errorMessage = masker.mask(this.formatError(message, position, options));
+
+      if (position) {
+        entries.push({
+          level: 'error',
+          text: errorMessage,
+          preview: errorMessage,
+          line: position.line,
+          column: position.column,
+          timestamp: Date.now(),
+          error: masker.maskData(error || { name: '', message, frames: [] }),
+        });
+      }
 
+      return {
+        success: false,
+        output: outputs.length > 0 ? outputs.join('\n') : '',
+        entries,
+        error: errorMessage,
+        executionTime: Date.now() - startTime,
+        envFiles: envFiles?.files,
+        preload: options.preload,
+        globals: options.globals,
+        dependencies,
+        tests: tests.length > 0 ? tests : undefined,
+      };
+    };
+
+    try {
       // Use the working directory from options, or fall back to process.cwd()
       const workingDir = options.workingDirectory || process.cwd();
 
-      // Create a custom require function from the working directory
-      // This ensures we look for node_modules in the project directory, not globally
-      const Module = require('module');
-      const customRequire = Module.createRequire(path.join(workingDir, 'package.json'));
-
-      // Prepare fetch and related Web APIs for the VM context
-      let fetchFn: any = (globalThis as any).fetch;
-      let HeadersCtor: any = (globalThis as any).Headers;
-      let RequestCtor: any = (globalThis as any).Request;
-      let ResponseCtor: any = (globalThis as any).Response;
-      let AbortControllerCtor: any = (globalThis as any).AbortController;
-      let FormDataCtor: any = (globalThis as any).FormData;
-      let URLCtor: any = (globalThis as any).URL;
-      let URLSearchParamsCtor: any = (globalThis as any).URLSearchParams;
-
-      if (!fetchFn) {
-        try {
-          // Prefer undici if available locally in the project
-          const undici = customRequire('undici');
-          fetchFn = undici.fetch;
-          HeadersCtor = undici.Headers;
-          RequestCtor = undici.Request;
-          ResponseCtor = undici.Response;
-          AbortControllerCtor = undici.AbortController;
-          // FormData, URL, URLSearchParams may also be provided by undici in recent versions
-          FormDataCtor = (undici as any).FormData || FormDataCtor;
-          URLCtor = (undici as any).URL || URLCtor;
-          URLSearchParamsCtor = (undici as any).URLSearchParams || URLSearchParamsCtor;
-        } catch (_) {
-          // If undici is not installed, keep fetch undefined and we will expose a helpful error function
-        }
+      envFiles = options.envFiles && this.envLoader.load(options.envFiles.directory, options.envFiles.mode);
+      const env = this.getWorkerEnv(options, workingDir, envFiles?.variables);
+      if (options.maskSecrets) {
+        masker = new SecretMasker(env);
       }
 
-      // Prepare crypto (Web Crypto API / Node crypto)
-      let cryptoGlobal: any = (globalThis as any).crypto;
-      if (!cryptoGlobal) {
-        try {
-          // Try Node's crypto
-          const nodeCrypto = customRequire('crypto');
-          // Prefer webcrypto if available (Node >= 15)
-          cryptoGlobal = (nodeCrypto as any).webcrypto || nodeCrypto;
-        } catch (_) {
-          // leave undefined; we will provide a helpful message on access
-        }
+      // Strip TypeScript syntax first; later stages only deal with JavaScript
+      const compiled = this.isTypeScript(options)
+        ? this.compiler.compile(code, options.filePath || path.join(workingDir, 'script.ts'), options.language)
+        : undefined;
+
+      // Packages that are not installed would only fail once the script imports them
+      const missingPackages = this.findMissingPackages(compiled ? compiled.code : code, options, workingDir);
+      if (missingPackages.length > 0) {
+        const noun = missingPackages.length === 1 ? 'package' : 'packages';
+        return { ...fail(`Cannot find ${noun} ${missingPackages.join(', ')}`, undefined), missingPackages };
       }
 
-      // Create isolated context for code execution with output capturing
-      const vmContext = createContext({
-        console: {
-          log: (...args: any[]) => {
-            const output = args.map(arg => this.stringify(arg)).join(' ');
-            outputs.push(output);
-          },
-          error: (...args: any[]) => {
-            const output = args.map(arg => this.stringify(arg)).join(' ');
-            outputs.push(`[ERROR] ${output}`);
-          },
-          warn: (...args: any[]) => {
-            const output = args.map(arg => this.stringify(arg)).join(' ');
-            outputs.push(`[WARN] ${output}`);
-          },
-        },
-        require: customRequire,
-        module: { exports: {} },
-        exports: {},
-        __dirname: workingDir,
-        __filename: path.join(workingDir, 'script.js'),
-        // Add common Node.js globals
-        Buffer,
-        global,
-        setTimeout,
-        setInterval,
-        setImmediate,
-        clearTimeout,
-        clearInterval,
-        clearImmediate,
-        Promise,
-        // Web-like APIs
-        fetch: fetchFn || ((..._args: any[]) => { throw new Error("fetch is not available. Use Node >= 18 or install 'undici' locally (pnpm add undici)."); }),
-        Headers: HeadersCtor,
-        Request: RequestCtor,
-        Response: ResponseCtor,
-        AbortController: AbortControllerCtor,
-        FormData: FormDataCtor,
-        URL: URLCtor,
-        URLSearchParams: URLSearchParamsCtor,
-        // Crypto API
-        crypto: cryptoGlobal || new Proxy({}, {
-          get() {
-            throw new Error("crypto is not available. Use Node >= 16 (webcrypto) or install Node's 'crypto' module (built-in). If this persists, ensure your runtime provides globalThis.crypto.");
-          }
-        }),
-        // Polyfills / Web-like APIs
-        atob: (str: string) => Buffer.from(str, 'base64').toString('binary'),
-        btoa: (str: string) => Buffer.from(str, 'binary').toString('base64'),
-        TextEncoder: (globalThis as any).TextEncoder || (require('util').TextEncoder),
-        TextDecoder: (globalThis as any).TextDecoder || (require('util').TextDecoder),
-        performance: (globalThis as any).performance || (function () { try { return require('perf_hooks').performance; } catch { return undefined; } })(),
-        structuredClone: (globalThis as any).structuredClone || (function () { try { const { serialize, deserialize } = require('v8'); return (v: any) => deserialize(serialize(v)); } catch { return (v: any) => JSON.parse(JSON.stringify(v)); } })(),
-        queueMicrotask: (globalThis as any).queueMicrotask || ((cb: Function) => Promise.resolve().then(() => cb())),
-        Blob: (globalThis as any).Blob || (function () { try { return require('buffer').Blob; } catch { return undefined; } })(),
-        navigator: {
-          userAgent: `Ockla/${process.versions.node} Node/${process.version}`,
-          platform: process.platform,
-        },
-        process: {
-          env: process.env,
-          cwd: () => process.cwd(),
-          version: process.version,
-          versions: process.versions,
-          platform: process.platform,
-          arch: process.arch,
-          nextTick: process.nextTick,
-        },
-      });
-
-      // Ensure window/self aliases exist in the VM global
-      try {
-        const sandboxGlobal = new Script('globalThis').runInContext(vmContext);
-        (sandboxGlobal as any).window = sandboxGlobal;
-        (sandboxGlobal as any).self = sandboxGlobal;
-      } catch { /* ignore */ }
+      // Turn ES module syntax into calls to the sandbox module loader
+      const transformed = this.moduleTransformer.transform(compiled ? compiled.code : code);
+
+      // Instrument code to capture all expression results
+      prepared = compiled ? chainRewrites(compiled, transformed) : transformed;
+      instrumented = chainRewrites(prepared, this.instrumenter.instrument(transformed.code));
+
+      // Top-level declarations of a session are kept as globals of its context
+      let globals = '';
+      if (options.session) {
+        const session = this.sessionTransformer.transform(instrumented.code);
+        instrumented = chainRewrites(instrumented, session.source);
+        globals = session.globals.length > 0 ? `var ${session.globals.join(', ')};` : '';
+      }
 
-      // Wrap code to capture all expression results and wait for async operations
-      const wrappedCode = this.wrapCodeForAsync(processedCode);
       // Wrap in an immediately invoked async function to handle promises
-      const finalCode = `(async function() {\n${wrappedCode}\n})()`;
-      const script = new Script(finalCode);
+      const finalCode = `${globals}(async function() {\n${instrumented.code}\n})()`;
+
+      // A run cancelled while it was being prepared or waiting for its session never starts
+      if (options.signal?.aborted) {
+        return fail(this.cancelledMessage, undefined);
+      }
 
-      const result = script.runInContext(vmContext, {
+      const asyncTimeout = options.asyncTimeout || this.defaultAsyncTimeout;
+      const outcome = await this.runInWorker({
+        code: finalCode,
+        // Functions of earlier runs stay in the context; a name per run keeps their frames apart
+        scriptFilename: options.session ? `ockla-session-${++this.sessionRuns}.js` : this.scriptFilename,
+        wrapperLineOffset: this.wrapperLineOffset,
         timeout: options.timeout || this.defaultTimeout,
-      });
-
-      // Wait for the async function to complete (if it returns a promise)
-      if (result && result.then && typeof result.then === 'function') {
-        try {
-          await result;
-        } catch (err) {
-          // Promise rejection handled here
-          const errorMessage = err instanceof Error ? err.message : String(err);
-          outputs.push(`[ERROR] ${errorMessage}`);
-        }
+        asyncTimeout,
+        workingDirectory: workingDir,
+        filePath: options.filePath,
+        packagesDirectory: this.packagesDirectory,
+        language: compiled ? options.language || 'typescript' : 'javascript',
+        session: !!options.session,
+        permissions: options.permissions,
+        globals: options.globals,
+        preload: options.preload && this.preparePreload(options.preload, workingDir),
+        testFilter: options.testFilter,
+        coverage: options.coverage,
+      }, { memory: options.memory, env }, record, options.session, options.signal);
+      const { failure, pending } = outcome;
+      dependencies = outcome.dependencies;
+
+      if (failure) {
+        const position = failure.position && instrumented.originalPosition(failure.position.line, failure.position.column);
+        return fail(failure.message, position, failure.error && this.mapError(failure.error, instrumented));
       }
 
-      // Additional wait for any remaining async operations
-      const asyncTimeout = options.asyncTimeout || 2000;
-      await this.waitForAsyncOperations(asyncTimeout);
+      // Report what the script was still doing when the run stopped waiting for it
+      let pendingOperations: PendingOperation[] | undefined;
+      if (pending) {
+        const source = instrumented;
+        pendingOperations = pending.operations.map(operation => ({
+          kind: operation.kind,
+          line: operation.position && source.originalPosition(operation.position.line, operation.position.column).line,
+        }));
+
+        if (pendingOperations.length > 0 || pending.promises > 0) {
+          const report = this.describePending(pendingOperations, pending.promises, asyncTimeout);
+          record({ level: 'warn', text: report, preview: report, timestamp: Date.now() });
+        }
+      }
 
       const executionTime = Date.now() - startTime;
       const output = outputs.length > 0 ? outputs.join('\n') : '(sin salida)';
@@ -194,355 +331,422 @@ export class CodeExecutor {
       return {
         success: true,
         output,
+        entries,
+        pending: pendingOperations,
         executionTime,
+        envFiles: envFiles?.files,
+        preload: options.preload,
+        globals: options.globals,
+        dependencies,
+        tests: tests.length > 0 ? tests : undefined,
+        coverage: outcome.coverage && this.mapCoverage(outcome.coverage, instrumented),
       };
     } catch (err) {
-      const executionTime = Date.now() - startTime;
-      const errorMessage = err instanceof Error ? err.message : String(err);
-
-      return {
-        success: false,
-        output: outputs.length > 0 ? outputs.join('\n') : '',
-        error: errorMessage,
-        executionTime,
-      };
+      // TypeScript syntax errors already point at the original code
+      const position = err instanceof CompilationError ? err.position : undefined;
+      const error = err instanceof CompilationError ? { name: 'SyntaxError', message: err.message, frames: [] } : undefined;
+      return fail(err instanceof Error ? err.message : String(err), position, error);
     }
   }
 
   /**
-   * Converts ES6 import statements to CommonJS require
-   * @param code - The code with ES6 imports
-   * @returns Code with require statements
+   * Lists the packages the code imports, or the project files it imports, that are not installed
+   * @param code - The code, as JavaScript
+   * @param options - Execution options of the run
+   * @param workingDirectory - Directory of the run, where untitled documents run
    */
-  private convertImportsToRequire(code: string): string {
-    // Convert: import axios from 'axios' -> const axios = require('axios')
-    code = code.replace(
-      /import\s+(\w+)\s+from\s+['"]([^'"]+)['"]/g,
-      'const $1 = require(\'$2\')'
-    );
-
-    // Convert: import { a, b } from 'module' -> const { a, b } = require('module')
-    code = code.replace(
-      /import\s+\{([^}]+)\}\s+from\s+['"]([^'"]+)['"]/g,
-      'const {$1} = require(\'$2\')'
-    );
-
-    // Convert: import * as name from 'module' -> const name = require('module')
-    code = code.replace(
-      /import\s+\*\s+as\s+(\w+)\s+from\s+['"]([^'"]+)['"]/g,
-      'const $1 = require(\'$2\')'
-    );
-
-    return code;
+  private findMissingPackages(code: string, options: CodeExecutionOptions, workingDirectory: string): string[] {
+    // Imports are resolved as the worker does, from the script file
+    const scriptPath = options.filePath || path.join(workingDirectory, 'script.js');
+    const loader = new ModuleLoader(createRequire(scriptPath), scriptPath, this.compiler, undefined, this.packagesDirectory);
+    return this.packageDetector.findMissingPackages(code, loader, this.compiler);
   }
 
   /**
-   * Wraps code to capture all expression results
-   * @param code - The original code
-   * @returns Wrapped code that logs all expressions
+   * Runs code in a new worker thread, or in the worker of a session.
+   *
+   * The run is over when the worker exits because its event loop is idle, when it is stopped,
+   * or when pending work outlives the async timeout after the top-level code has finished;
+   * the worker then reports what was pending. A session worker reports instead when the run
+   * has nothing pending anymore, and is only terminated when the run is stopped or killed;
+   * so does a single-run worker collecting coverage, which sends it first.
+   * @param input - The code and its execution options
+   * @param settings - How to start a new worker
+   * @param onOutput - Receives the values captured by the script
+   * @param session - Key of the session to run in
+   * @param signal - Stops the run when aborted
+   * @returns The reason the run did not complete, or what was still pending
    */
-  private wrapCodeToCapture(code: string): string {
-    // Split code into statements more intelligently
-    const lines = code.split('\n');
-    const wrappedLines: string[] = [];
-
-    // Track context: are we inside a multi-line structure?
-    let insideMultiLine = false;
-    let bracketDepth = 0;
-    let insideChainedCall = false;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmedLine = line.trim();
-
-      // Skip empty lines and comments
-      if (!trimmedLine || trimmedLine.startsWith('//') || trimmedLine.startsWith('/*') || trimmedLine.startsWith('*')) {
-        wrappedLines.push(line);
-        continue;
-      }
-
-      // Skip console statements (they already log)
-      if (trimmedLine.includes('console.')) {
-        wrappedLines.push(line);
-        continue;
-      }
+  private runInWorker(
+    input: WorkerInput,
+    settings: WorkerSettings,
+    onOutput: (output: CapturedOutput) => void,
+    session?: string,
+    signal?: AbortSignal
+  ): Promise<RunOutcome> {
+    return new Promise(resolve => {
+      const worker = session
+        ? this.getSessionWorker(session, settings)
+        : new Worker(this.workerPath, {
+          workerData: input,
+          env: settings.env,
+          resourceLimits: settings.memory ? { maxOldGenerationSizeMb: settings.memory } : undefined,
+        });
+      let failure: RunFailure | undefined;
+      let pending: RunOutcome['pending'];
+      let dependencies: string[] | undefined;
+      let coverage: CapturedCoverage | undefined;
+      let deadline: NodeJS.Timeout | undefined;
+
+      // Ends the run, leaving the worker as it is
+      const end = () => {
+        clearTimeout(deadline);
+        this.runningWorkers.delete(worker);
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+        signal?.removeEventListener('abort', onAbort);
+        resolve({ failure, pending: failure ? undefined : pending, dependencies, coverage: failure ? undefined : coverage });
+      };
 
-      // Check for variable declarations - just keep them as is (no auto-log)
-      const varMatch = trimmedLine.match(/^(const|let|var)\s+(\w+)\s*=/);
-      if (varMatch) {
-        wrappedLines.push(line);
-        // Check if this starts a multi-line structure
-        if (trimmedLine.includes('[') || trimmedLine.includes('{')) {
-          insideMultiLine = true;
-          bracketDepth = (trimmedLine.match(/[\[{]/g) || []).length - (trimmedLine.match(/[\]}]/g) || []).length;
-          if (bracketDepth === 0) {
-            insideMultiLine = false;
-          }
+      // Ends the run by killing the worker; the first failure reported wins
+      const stop = (reason?: RunFailure) => {
+        if (session && reason && !failure) {
+          reason = { ...reason, message: `${reason.message}; the session was reset` };
         }
-        continue;
-      }
-
-      // If inside a multi-line structure, just add the line without processing
-      if (insideMultiLine) {
-        wrappedLines.push(line);
-        // Update bracket depth
-        const openCount = (trimmedLine.match(/[\[{]/g) || []).length;
-        const closeCount = (trimmedLine.match(/[\]}]/g) || []).length;
-        bracketDepth += openCount - closeCount;
-
-        // Check if we're done with the multi-line structure
-        if (bracketDepth <= 0) {
-          insideMultiLine = false;
-          bracketDepth = 0;
+        failure = failure || reason;
+        void worker.terminate();
+      };
+      this.runningWorkers.set(worker, message => stop({ message }));
+
+      const onMessage = (message: WorkerMessage) => {
+        switch (message.type) {
+          case 'started':
+            // The VM timeout only covers synchronous code; this also catches scripts stuck after an await
+            deadline = setTimeout(() => stop({ message: `Script execution timed out after ${input.timeout}ms` }), input.timeout);
+            break;
+          case 'settled':
+            dependencies = message.dependencies;
+            // Timers and callbacks still pending get the async timeout to finish. The worker reports
+            // them when it is up; a worker too busy to do so is killed shortly after
+            clearTimeout(deadline);
+            deadline = setTimeout(() => stop({
+              message: `Script stopped responding while running async callbacks (waited ${input.asyncTimeout}ms)`,
+            }), input.asyncTimeout + this.pendingReportGrace);
+            break;
+          case 'pending':
+            // Operations left in a session keep running in its context
+            pending = message;
+            if (session) {
+              end();
+            } else {
+              stop();
+            }
+            break;
+          case 'finished':
+            // A single-run worker only reports it when collecting coverage, which keeps it alive
+            if (session) {
+              end();
+            } else {
+              stop();
+            }
+            break;
+          case 'coverage':
+            coverage = message.coverage;
+            break;
+          case 'output':
+            onOutput(message.output);
+            break;
+          case 'failed':
+            dependencies = message.dependencies;
+            // A session context survives errors of its runs
+            if (session) {
+              failure = { message: message.message, position: message.position, error: message.error };
+              end();
+            } else {
+              stop({ message: message.message, position: message.position, error: message.error });
+            }
+            break;
         }
-        continue;
-      }
+      };
 
-      // Check if we're starting a chained call (like fetch().then()...)
-      if (trimmedLine.match(/^[\w.]+\([^)]*\)$/) && !trimmedLine.endsWith(');')) {
-        // Look ahead to see if next line starts with a dot (method chaining)
-        if (i + 1 < lines.length && lines[i + 1].trim().startsWith('.')) {
-          insideChainedCall = true;
-          wrappedLines.push(line);
-          continue;
-        }
-      }
+      const onError = (err: NodeJS.ErrnoException) => {
+        stop({
+          message: err.code === 'ERR_WORKER_OUT_OF_MEMORY' ? `Memory limit of ${settings.memory} MB exceeded` : err.message,
+        });
+      };
 
-      // If we're inside a chained call, keep adding lines until we're done
-      if (insideChainedCall) {
-        wrappedLines.push(line);
-        // Check if this is the last line in the chain
-        if (!trimmedLine.startsWith('.') || trimmedLine.endsWith(')') && !lines[i + 1]?.trim().startsWith('.')) {
-          insideChainedCall = false;
-        }
-        continue;
-      }
+      const onExit = () => end();
 
-      // Skip control flow keywords
-      if (this.isControlFlowStatement(trimmedLine)) {
-        wrappedLines.push(line);
-        continue;
-      }
+      const onAbort = () => stop({ message: this.cancelledMessage });
 
-      // Skip structural characters
-      if (this.isStructuralLine(trimmedLine)) {
-        wrappedLines.push(line);
-        continue;
+      signal?.addEventListener('abort', onAbort);
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      if (session) {
+        worker.postMessage(input);
       }
+    });
+  }
 
-      // Check if it's an expression that should be auto-logged
-      if (this.shouldAutoLog(trimmedLine)) {
-        const indent = line.match(/^\s*/)?.[0] || '';
-        wrappedLines.push(`${indent}console.log(${trimmedLine})`);
-      } else {
-        wrappedLines.push(line);
-      }
+  /**
+   * Gets the worker of a session, starting it on the first run
+   * @param session - The session key
+   * @param settings - How to start a new worker
+   */
+  private getSessionWorker(session: string, settings: WorkerSettings): Worker {
+    let worker = this.sessionWorkers.get(session);
+    if (worker) {
+      return worker;
     }
 
-    return wrappedLines.join('\n');
+    worker = new Worker(this.workerPath, {
+      env: settings.env,
+      resourceLimits: settings.memory ? { maxOldGenerationSizeMb: settings.memory } : undefined,
+    });
+    const sessionWorker = worker;
+    // Between runs nobody else listens for errors of the worker, which would otherwise be thrown
+    sessionWorker.on('error', () => undefined);
+    sessionWorker.on('exit', () => {
+      if (this.sessionWorkers.get(session) === sessionWorker) {
+        this.sessionWorkers.delete(session);
+      }
+    });
+    // An idle session does not keep the process alive
+    sessionWorker.unref();
+
+    this.sessionWorkers.set(session, sessionWorker);
+    return sessionWorker;
   }
 
   /**
-   * Checks if a line is a control flow statement
-   * @param line - The trimmed line to check
-   * @returns true if it's a control flow statement
+   * Prepares the preload entries of a run. Paths are project files, compiled and transformed
+   * like the script, with their top-level declarations kept as globals of the context;
+   * package names and builtins are left to the worker to import
+   * @param preload - Paths, relative to the working directory, and module specifiers
+   * @param workingDirectory - Directory of the run
+   * @throws Error naming the file when it cannot be read or has syntax errors
    */
-  private isControlFlowStatement(line: string): boolean {
-    const controlKeywords = [
-      'function', 'class', 'import', 'export',
-      'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default',
-      'try', 'catch', 'finally', 'throw', 'return', 'break', 'continue'
-    ];
-
-    return controlKeywords.some(keyword =>
-      line.startsWith(keyword + ' ') ||
-      line.startsWith(keyword + '(') ||
-      line.startsWith(keyword + '{')
-    );
+  private preparePreload(preload: string[], workingDirectory: string): PreloadEntry[] {
+    return preload.map(entry => {
+      if (!entry.startsWith('.') && !path.isAbsolute(entry)) {
+        return { type: 'module', specifier: entry };
+      }
+
+      const filePath = path.resolve(workingDirectory, entry);
+      try {
+        const source = fs.readFileSync(filePath, 'utf8');
+        const compiled = this.compiler.isTypeScriptFile(filePath) ? this.compiler.compile(source, filePath).code : source;
+        const session = this.sessionTransformer.transform(this.moduleTransformer.transform(compiled).code);
+        const globals = session.globals.length > 0 ? `var ${session.globals.join(', ')};` : '';
+        // The worker calls the function with module loading relative to the file. It is
+        // declared on the first line, so stack traces point at the lines of the file
+        const parameters = [IMPORT_FUNCTION, IMPORT_META, 'require', '__filename', '__dirname'].join(', ');
+        return { type: 'script', path: filePath, code: `${globals}(async function(${parameters}) {${session.source.code}\n})` };
+      } catch (err) {
+        const location = err instanceof CompilationError ? `:${err.position.line}:${err.position.column}` : '';
+        const message = err instanceof Error ? err.message : String(err);
+        throw new Error(`Preload script ${entry}${location} could not be loaded: ${message}`);
+      }
+    });
   }
 
   /**
-   * Checks if a line is structural (braces, etc)
-   * @param line - The trimmed line to check
-   * @returns true if it's structural
+   * Gets the environment variables the worker of a run is started with: those of the
+   * extension and of the env files the permissions let through, overridden by those
+   * configured for the run, which the permissions do not filter as they are set for it
+   * @param options - The execution options
+   * @param workingDirectory - Directory of the run
+   * @param fileVariables - Variables read from the env files
    */
-  private isStructuralLine(line: string): boolean {
-    return (
-      line === '{' ||
-      line === '}' ||
-      line === '};' ||
-      line.endsWith('{') ||
-      line === '})' ||
-      line === ');' ||
-      line === ']' ||
-      line === '],'
-    );
+  private getWorkerEnv(
+    options: CodeExecutionOptions,
+    workingDirectory: string,
+    fileVariables: Record<string, string> = {}
+  ): NodeJS.ProcessEnv {
+    const inherited = { ...process.env, ...fileVariables };
+    const allowed = options.permissions
+      ? new SandboxPermissions(options.permissions, workingDirectory).filterEnv(inherited)
+      : inherited;
+    return { ...allowed, ...options.env };
   }
 
   /**
-   * Checks if a line should be auto-logged
-   * @param line - The trimmed line to check
-   * @returns true if it should be auto-logged
+   * Describes the operations a run stopped waiting for
+   * @param operations - The pending operations
+   * @param promises - Number of unsettled promises
+   * @param asyncTimeout - Time waited for them, in ms
    */
-  private shouldAutoLog(line: string): boolean {
-    // Don't auto-log if the line appears to continue (ends with operators, dots, etc.)
-    if (/[.+\-*\/,]$/.test(line)) {
-      return false;
-    }
-
-    // Don't auto-log promise chain methods
-    if (/^\.(then|catch|finally)\(/.test(line)) {
-      return false;
+  private describePending(operations: PendingOperation[], promises: number, asyncTimeout: number): string {
+    const descriptions = operations.map(operation =>
+      operation.line ? `${operation.kind} (line ${operation.line})` : operation.kind
+    );
+    if (promises > 0) {
+      descriptions.push(promises === 1 ? '1 promise' : `${promises} promises`);
     }
 
-    // Don't log if line ends with semicolon in some cases
-    const lineWithoutSemicolon = line.replace(/;$/, '');
-
-    // Patterns that should be auto-logged:
-    // 1. Function/method calls: crypto.randomUUID(), Number.isSafeInteger(10)
-    // 2. Property access: obj.prop, array[0]
-    // 3. Math expressions: 2 + 2, a * b
-    // 4. Variable references: myVar
-    const autoLogPatterns = [
-      /^[\w.]+\([^)]*\)$/,              // Function calls: func(), obj.method(), crypto.randomUUID()
-      /^[\w.]+\[[^\]]+\]$/,             // Array/object access: arr[0], obj['key']
-      /^[\w.]+$/,                       // Simple identifiers: myVar, obj.prop
-      /^\d+\s*[\+\-\*\/\%]\s*.+$/,      // Math expressions: 2 + 2
-      /^.+\s*[\+\-\*\/\%]\s*.+$/,       // Variable math: a + b
-      /^new\s+\w+\([^)]*\)$/,           // Constructor calls: new Date()
-      /^\[.*\]$/,                        // Array literals when alone: [1, 2, 3]
-      /^\{.*\}$/,                        // Object literals when alone (but not blocks)
-    ];
-
-    return autoLogPatterns.some(pattern => pattern.test(lineWithoutSemicolon));
+    return `Stopped waiting for async operations after ${asyncTimeout}ms. Still pending: ${descriptions.join(', ')}`;
   }
 
   /**
-   * Converts any value to a string representation
-   * @param value - The value to stringify
-   * @returns String representation of the value
+   * Compares a value pinned with snapshot() with the one stored for the file, storing it if
+   * there is none yet. Snapshots are only kept for files saved on disk
+   * @param output - A captured value; only snapshots are checked
+   * @param filePath - Path of the executed file
+   * @returns The captured value, telling how the snapshot compares
    */
-  private stringify(value: any): string {
-    if (value === undefined) {
-      return 'undefined';
-    }
-    if (value === null) {
-      return 'null';
-    }
-    if (typeof value === 'string') {
-      return value;
-    }
-    if (typeof value === 'function') {
-      return value.toString();
+  private checkSnapshot(output: CapturedOutput, filePath: string | undefined): CapturedOutput {
+    if (output.payload?.type !== 'snapshot') {
+      return output;
     }
 
-    // Check if it's an array of objects (suitable for table display)
-    if (Array.isArray(value) && value.length > 0 && this.isArrayOfObjects(value)) {
-      return this.formatAsTable(value);
+    const snapshot = output.payload.snapshot;
+    const label = `Snapshot "${snapshot.name}"`;
+    const checked = (level: CapturedOutput['level'], text: string, result: Partial<typeof snapshot>): CapturedOutput =>
+      ({ ...output, level, text, preview: text, payload: { type: 'snapshot', snapshot: { ...snapshot, ...result } } });
+
+    if (!filePath) {
+      return checked('warn', `${label} was not kept, as the file is not saved`, { status: 'unsaved' });
     }
 
+    const file = this.snapshotStore.getPath(filePath);
     try {
-      return JSON.stringify(value, null, 2);
-    } catch {
-      return String(value);
+      const stored = this.snapshotStore.read(file)[snapshot.name];
+      if (stored === undefined) {
+        this.snapshotStore.write(file, snapshot.name, snapshot.value);
+        return checked('info', `${label} written`, { status: 'written', file });
+      }
+      return stored === snapshot.value
+        ? checked('log', `${label} matches`, { status: 'matched', file })
+        : checked('warn', `${label} changed`, { status: 'changed', file, stored });
+    } catch (err) {
+      return checked('warn', `${label} was not kept: ${err instanceof Error ? err.message : String(err)}`, { status: 'unsaved', file });
     }
   }
 
   /**
-   * Checks if an array contains objects (not primitives)
+   * Maps the coverage of a run back to the original code. A line of the original code may span
+   * several lines of the instrumented code; it counts as often as the one that ran the most
    */
-  private isArrayOfObjects(arr: any[]): boolean {
-    if (arr.length === 0) return false;
+  private mapCoverage(coverage: CapturedCoverage, instrumented: RewrittenSource): CoverageReport {
+    const lines = new Map<number, number>();
+    for (const { position, count } of coverage.lines) {
+      const { line } = instrumented.originalPosition(position.line, position.column);
+      lines.set(line, Math.max(count, lines.get(line) ?? 0));
+    }
 
-    // Check if at least the first item is a plain object
-    const first = arr[0];
-    return first !== null && typeof first === 'object' && !Array.isArray(first) && !(first instanceof Date);
+    return {
+      lines: [...lines].sort(([a], [b]) => a - b).map(([line, count]) => ({ line, count })),
+      branches: coverage.branches.map(({ position, count }) => ({
+        ...instrumented.originalPosition(position.line, position.column),
+        count,
+      })),
+    };
   }
 
   /**
-   * Formats an array of objects as an HTML table
+   * Maps the stack positions of a console payload back to the original code
    */
-  private formatAsTable(arr: any[]): string {
-    if (arr.length === 0) return '[]';
-
-    // Extract all unique keys from all objects
-    const keys = new Set<string>();
-    arr.forEach(obj => {
-      if (obj && typeof obj === 'object') {
-        Object.keys(obj).forEach(key => keys.add(key));
-      }
-    });
+  private mapPayload(payload: OutputPayload, instrumented: RewrittenSource | undefined): OutputPayload {
+    if (payload.type !== 'trace' || !instrumented) {
+      return payload;
+    }
 
-    const headers = Array.from(keys);
+    return { type: 'trace', frames: this.mapFrames(payload.frames, instrumented) };
+  }
 
-    // Build HTML table
-    let table = '<table class="data-table">\n';
+  /**
+   * Maps the stack positions of an error and its causes back to the original code
+   */
+  private mapError(error: ErrorDetails, instrumented: RewrittenSource | undefined): ErrorDetails {
+    if (!instrumented) {
+      return error;
+    }
 
-    // Header row
-    table += '  <thead>\n    <tr>\n';
-    headers.forEach(header => {
-      table += `      <th>${this.escapeHtml(header)}</th>\n`;
-    });
-    table += '    </tr>\n  </thead>\n';
-
-    // Body rows
-    table += '  <tbody>\n';
-    arr.forEach(obj => {
-      table += '    <tr>\n';
-      headers.forEach(header => {
-        const value = obj[header];
-        const displayValue = value === undefined ? '' :
-          value === null ? 'null' :
-            typeof value === 'object' ? JSON.stringify(value) :
-              String(value);
-        table += `      <td>${this.escapeHtml(displayValue)}</td>\n`;
-      });
-      table += '    </tr>\n';
-    });
-    table += '  </tbody>\n';
-    table += '</table>';
+    return {
+      ...error,
+      frames: this.mapFrames(error.frames, instrumented),
+      cause: error.cause && this.mapError(error.cause, instrumented),
+    };
+  }
 
-    return table;
+  private mapFrames(frames: StackFrame[], instrumented: RewrittenSource): StackFrame[] {
+    return frames.map(frame => frame.position
+      ? { ...frame, position: instrumented.originalPosition(frame.position.line, frame.position.column) }
+      : frame);
   }
 
   /**
-   * Escapes HTML special characters
+   * Maps the position of a captured value back to the original code
+   * @param output - The captured value
+   * @param prepared - The code given to the instrumenter
+   * @param instrumented - The instrumented code
+   * @returns 1-based position in the original code, if known
    */
-  private escapeHtml(text: string): string {
-    const map: Record<string, string> = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#039;',
-    };
-    return String(text).replace(/[&<>"']/g, char => map[char]);
+  private toOriginalPosition(
+    output: CapturedOutput,
+    prepared: RewrittenSource | undefined,
+    instrumented: RewrittenSource | undefined
+  ): SourcePosition | undefined {
+    if (output.autoLogLine !== undefined) {
+      // The instrumenter numbers lines of the compiled code, which differ from TypeScript sources
+      return prepared ? prepared.originalPosition(output.autoLogLine, 1) : { line: output.autoLogLine, column: 1 };
+    }
+    if (output.position) {
+      return instrumented ? instrumented.originalPosition(output.position.line, output.position.column) : output.position;
+    }
+    return undefined;
   }
 
   /**
-   * Wraps code for async execution
-   * @param code - The original code
-   * @returns Wrapped code
+   * Checks if the code has to be transpiled from TypeScript
    */
-  private wrapCodeForAsync(code: string): string {
-    // Use the existing wrap method
-    return this.wrapCodeToCapture(code);
+  private isTypeScript(options: CodeExecutionOptions): boolean {
+    if (options.language) {
+      return options.language !== 'javascript';
+    }
+    return !!options.filePath && this.compiler.isTypeScriptFile(options.filePath);
   }
 
   /**
-   * Waits for async operations to complete
-   * @param timeout - Maximum time to wait in milliseconds
+   * Builds the error message, followed by the location in the user code when known
+   * @param message - The error message
+   * @param position - The location of the error in the original code
+   * @param options - The execution options, used to name the file
    */
-  private async waitForAsyncOperations(timeout: number): Promise<void> {
-    return new Promise((resolve) => {
-      setTimeout(resolve, timeout);
-    });
+  private formatError(message: string, position: SourcePosition | undefined, options: CodeExecutionOptions): string {
+    if (!position) {
+      return message;
+    }
+
+    const fileName = options.filePath ? path.basename(options.filePath) : this.scriptFilename;
+    return `${message} (${fileName}:${position.line}:${position.column})`;
+  }
+
+  /**
+   * Checks if code parses, without running it; TypeScript code is compiled first
+   * @param code - The code to check
+   * @param options - The execution options the code would run with, for its language
+   * @returns true if the code has no syntax errors
+   */
+  hasValidSyntax(code: string, options: CodeExecutionOptions = {}): boolean {
+    try {
+      const compiled = this.isTypeScript(options)
+        ? this.compiler.compile(code, options.filePath || path.join(options.workingDirectory || process.cwd(), 'script.ts'), options.language).code
+        : code;
+      this.instrumenter.parse(this.moduleTransformer.transform(compiled).code);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   /**
-   * Validates if the code is safe to execute
+   * Checks that there is code to execute. What the code may do is limited by the
+   * permissions policy of the run, not here
    * @param code - The code to validate
-   * @returns true if code appears safe
+   * @returns true if there is code to run
    */
   validateCode(code: string): boolean {
     // Basic validation - can be extended
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Environment variables read from the env files of a folder
+ */
+export interface LoadedEnv {
+  variables: Record<string, string>;
+  /** Paths of the files found, in the order they were applied */
+  files: string[];
+}
+
+/**
+ * Reads the env files of a project, the way dotenv-based tools do.
+ *
+ * `.env`, `.env.local`, `.env.[mode]` and `.env.[mode].local` are applied in that order,
+ * each overriding the variables of the previous ones; missing files are skipped.
+ * Values may be quoted, and double-quoted values may span lines and use `\n` escapes.
+ */
+export class EnvLoader {
+  /**
+   * Loads the env files of a folder
+   * @param directory - The folder holding the env files
+   * @param mode - Mode of the mode-specific files, e.g. "development"
+   */
+  load(directory: string, mode?: string): LoadedEnv {
+    const names = ['.env', '.env.local', ...(mode ? [`.env.${mode}`, `.env.${mode}.local`] : [])];
+    const loaded: LoadedEnv = { variables: {}, files: [] };
+
+    for (const name of names) {
+      const filePath = path.join(directory, name);
+      let text: string;
+      try {
+        text = fs.readFileSync(filePath, 'utf8');
+      } catch {
+        continue;
+      }
+      Object.assign(loaded.variables, this.parse(text));
+      loaded.files.push(filePath);
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Parses the content of an env file
+   * @param text - The file content
+   * @returns The variables it defines
+   */
+  parse(text: string): Record<string, string> {
+    const variables: Record<string, string> = {};
+    // NAME=value, optionally after "export", with a quoted value or one running to the end of the line
+    const pattern = /^[ \t]*(?:export[ \t]+)?([\w.-]+)[ \t]*=[ \t]*("(?:\\.|[^"\\])*"|'[^']*'|`[^`]*`|[^\r\n]*)/gm;
+
+    for (const [, name, raw] of text.matchAll(pattern)) {
+      const quote = raw[0];
+      if (quote === '"') {
+        variables[name] = raw.slice(1, -1).replace(/\\(.)/g, (_, char: string) =>
+          char === 'n' ? '\n' : char === 'r' ? '\r' : char === 't' ? '\t' : char
+        );
+      } else if (quote === '\'' || quote === '`') {
+        variables[name] = raw.slice(1, -1);
+      } else {
+        // Unquoted values end at a comment
+        variables[name] = raw.replace(/[ \t]+#.*$|^#.*$/, '').trim();
+      }
+    }
+
+    return variables;
+  }
+}
@@ -0,0 +1,19 @@
+import { parentPort, workerData } from 'worker_threads';
+import { ScriptRunner } from './scriptRunner';
+import type { WorkerInput, WorkerMessage } from './workerProtocol';
+
+/**
+ * Entry point of the worker thread that runs user code.
+ *
+ * A worker started with its input runs it once; the CodeExecutor terminates the thread once
+ * the run is over. A session worker is started without input and runs every input it is sent
+ * in the same context, until the executor terminates it.
+ */
+const runner = new ScriptRunner();
+const post = (message: WorkerMessage) => parentPort?.postMessage(message);
+
+if (workerData) {
+  runner.run(workerData as WorkerInput, post);
+} else {
+  parentPort?.on('message', (input: WorkerInput) => runner.run(input, post));
+}
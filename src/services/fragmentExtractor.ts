@@ -0,0 +1,72 @@
+import { loadTypeScript } from './typeScriptCompiler';
+import type { ScriptLanguage } from '../types';
+
+/**
+ * A range of code, as offsets from the start of the document
+ */
+export interface CodeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Extracts parts of a document to run them on their own: selections, the statement under
+ * the cursor, or everything up to the cursor.
+ *
+ * The extracted code keeps the layout of the document, with everything left out blanked,
+ * so positions reported by the run are positions in the document.
+ */
+export class FragmentExtractor {
+  /**
+   * Keeps only the given ranges of the code
+   * @param code - The document text
+   * @param ranges - The ranges to keep
+   * @returns The code with everything outside the ranges replaced by spaces, line breaks kept
+   */
+  extract(code: string, ranges: CodeRange[]): string {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    let result = '';
+    let offset = 0;
+
+    for (const { start, end } of sorted) {
+      if (end <= offset) {
+        continue;
+      }
+      result += this.blank(code.slice(offset, Math.max(start, offset))) + code.slice(Math.max(start, offset), end);
+      offset = end;
+    }
+
+    return result;
+  }
+
+  /**
+   * Finds the top-level statement on the line of an offset, such as a whole function or loop
+   * @param code - The document text
+   * @param offset - Offset of the cursor
+   * @param language - Language of the document
+   * @returns The range of the statement, or undefined if the line has none
+   */
+  findTopLevelStatement(code: string, offset: number, language: ScriptLanguage): CodeRange | undefined {
+    const typescript = loadTypeScript();
+    const scriptKind = language === 'typescriptreact' ? typescript.ScriptKind.TSX
+      : language === 'typescript' ? typescript.ScriptKind.TS
+        : typescript.ScriptKind.JS;
+    const sourceFile = typescript.createSourceFile('fragment', code, typescript.ScriptTarget.Latest, true, scriptKind);
+
+    // The cursor may sit in the indentation or after the end of the statement
+    const lineStart = code.lastIndexOf('\n', offset - 1) + 1;
+    const lineEnd = code.indexOf('\n', offset) === -1 ? code.length : code.indexOf('\n', offset);
+
+    const statement = sourceFile.statements.find(candidate =>
+      candidate.getStart(sourceFile) <= lineEnd && candidate.getEnd() >= lineStart
+    );
+    return statement && { start: statement.getStart(sourceFile), end: statement.getEnd() };
+  }
+
+  /**
+   * Replaces code with spaces, keeping its line breaks
+   */
+  private blank(code: string): string {
+    return code.replace(/[^\r\n]/g, ' ');
+  }
+}
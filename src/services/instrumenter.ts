@@ -0,0 +1,159 @@
+import * as acorn from 'acorn';
+import * as walk from 'acorn-walk';
+import { SourceRewriter } from './sourceRewriter';
+import type { RewrittenSource } from './sourceRewriter';
+
+/**
+ * Name of the sandbox function that receives auto-logged expression values
+ */
+export const AUTO_LOG_FUNCTION = '__ocklaAutoLog';
+
+// Prefix shared by the functions Ockla injects into the sandbox
+const RUNTIME_HELPER_PREFIX = '__ockla';
+
+// Functions called for their side effects, whose results (timer handles) are only noise
+const SILENT_FUNCTIONS = new Set(['setTimeout', 'setInterval', 'setImmediate']);
+
+// Helpers the TypeScript compiler emits (decorators, async functions, spreads...); neither their
+// code nor their calls are part of the user's script
+const TYPESCRIPT_HELPERS = new Set([
+  '__addDisposableResource', '__assign', '__asyncDelegator', '__asyncGenerator', '__asyncValues',
+  '__await', '__awaiter', '__classPrivateFieldGet', '__classPrivateFieldIn', '__classPrivateFieldSet',
+  '__createBinding', '__decorate', '__disposeResources', '__esDecorate', '__exportStar', '__extends',
+  '__generator', '__importDefault', '__importStar', '__makeTemplateObject', '__metadata', '__param',
+  '__propKey', '__read', '__rest', '__rewriteRelativeImportExtension', '__runInitializers',
+  '__setFunctionName', '__setModuleDefault', '__spreadArray', '__values',
+]);
+
+/**
+ * Rewrites expression statements so their values are reported with the line they come from.
+ *
+ * The code is parsed into an AST, so only genuine expression statements are wrapped:
+ * declarations, control flow, assignments, console calls and timer calls are left untouched.
+ * Edits never add or remove lines, and the returned mapping leads back to the original positions.
+ */
+export class Instrumenter {
+  /**
+   * Instruments code for auto-logging
+   * @param code - The JavaScript code to instrument
+   * @returns The instrumented code and its mapping to the original source
+   */
+  instrument(code: string): RewrittenSource {
+    const rewriter = new SourceRewriter(code);
+
+    let program: acorn.Program;
+    try {
+      program = this.parse(code);
+    } catch {
+      // Leave unparseable code as is, so the runtime reports the syntax error itself
+      return rewriter.apply();
+    }
+
+    walk.fullAncestor(program, (node, _state, ancestors) => {
+      if (node.type !== 'ExpressionStatement' || ancestors.some(ancestor => this.isHelperDeclaration(ancestor))) {
+        return;
+      }
+
+      const statement = node as acorn.ExpressionStatement;
+      if (!this.shouldAutoLog(statement)) {
+        return;
+      }
+
+      const expression = statement.expression;
+      // Sequence expressions would otherwise be read as extra arguments
+      const needsParens = expression.type === 'SequenceExpression';
+
+      rewriter.insert(expression.start, `${AUTO_LOG_FUNCTION}(${expression.loc!.start.line}, ${needsParens ? '(' : ''}`);
+      rewriter.insert(expression.end, needsParens ? '))' : ')');
+    });
+
+    return rewriter.apply();
+  }
+
+  /**
+   * Parses code the way it runs inside the async wrapper
+   * @param code - The JavaScript code to parse
+   * @returns The program AST
+   * @throws SyntaxError when the code cannot be parsed
+   */
+  parse(code: string): acorn.Program {
+    return acorn.parse(code, {
+      ecmaVersion: 'latest',
+      sourceType: 'script',
+      locations: true,
+      allowAwaitOutsideFunction: true,
+      allowReturnOutsideFunction: true,
+      allowHashBang: true,
+    });
+  }
+
+  /**
+   * Checks if the value of an expression statement should be auto-logged
+   * @param statement - The expression statement to check
+   * @returns true if it should be auto-logged
+   */
+  private shouldAutoLog(statement: acorn.ExpressionStatement): boolean {
+    const expression = statement.expression;
+
+    // Directive prologues such as 'use strict'
+    if (statement.directive !== undefined) {
+      return false;
+    }
+
+    // Statements evaluated for their side effects
+    switch (expression.type) {
+      case 'AssignmentExpression':
+      case 'UpdateExpression':
+      case 'YieldExpression':
+        return false;
+      case 'UnaryExpression':
+        return expression.operator !== 'delete' && expression.operator !== 'void';
+      case 'CallExpression':
+        return expression.callee.type !== 'Super' && !this.isSilentCall(expression);
+      case 'ChainExpression':
+        return !this.isSilentCall(expression.expression);
+      case 'AwaitExpression':
+        return !this.isSilentCall(expression.argument);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Checks if an expression is a call whose result should not be logged:
+   * console calls, which already log, calls scheduling timers, and calls to Ockla's runtime helpers
+   * and to the helpers of the TypeScript compiler
+   */
+  private isSilentCall(expression: acorn.Expression): boolean {
+    if (this.isConsoleCall(expression)) {
+      return true;
+    }
+    if (expression.type !== 'CallExpression' || expression.callee.type !== 'Identifier') {
+      return false;
+    }
+    const name = expression.callee.name;
+    return SILENT_FUNCTIONS.has(name) || TYPESCRIPT_HELPERS.has(name) || name.startsWith(RUNTIME_HELPER_PREFIX);
+  }
+
+  /**
+   * Checks if a node declares a TypeScript helper, as in `var __decorate = (this && this.__decorate) || function...`
+   */
+  private isHelperDeclaration(node: acorn.AnyNode): boolean {
+    return node.type === 'VariableDeclarator' && node.id.type === 'Identifier' && TYPESCRIPT_HELPERS.has(node.id.name);
+  }
+
+  /**
+   * Checks if an expression is a call to a console method (console.log, console['warn'], console?.info)
+   */
+  private isConsoleCall(expression: acorn.Expression): boolean {
+    if (expression.type === 'ChainExpression') {
+      return this.isConsoleCall(expression.expression);
+    }
+    if (expression.type !== 'CallExpression' || expression.callee.type !== 'MemberExpression') {
+      return false;
+    }
+
+    const target = expression.callee.object;
+    return target.type === 'Identifier' && target.name === 'console';
+  }
+}
@@ -0,0 +1,513 @@
+import * as fs from 'fs';
+import { isBuiltin, createRequire } from 'module';
+import * as path from 'path';
+import { pathToFileURL, fileURLToPath } from 'url';
+import { Script } from 'vm';
+import type { TypeScriptCompiler, PathAliases } from './typeScriptCompiler';
+import type { SandboxPermissions } from './sandboxPermissions';
+
+type ModuleFormat = 'module' | 'commonjs';
+
+// Kept out of reach of the bundler, so import() reaches Node's own ESM loader
+const dynamicImport = new Function('specifier', 'options', 'return import(specifier, options)') as
+  (specifier: string, options?: ImportCallOptions) => Promise<Record<string, unknown>>;
+
+// Conditions honored when resolving package "exports", as Node does for import()
+const IMPORT_CONDITIONS = ['import', 'node', 'default'];
+
+interface LocalModule {
+  exports: any;
+}
+
+/**
+ * Project files loaded by the loaders of a run, or of all the runs of a session
+ */
+interface ModuleCache {
+  /** Local TypeScript modules, by path */
+  typeScriptModules: Map<string, LocalModule>;
+  /** Project files loaded, with their modification time when they were loaded */
+  files: Map<string, number | undefined>;
+  /** Number of reloads; ES modules are imported under a new URL after each one */
+  generation: number;
+}
+
+/**
+ * Loads the modules imported by user code, resolving them from the user's project.
+ *
+ * Specifiers are resolved with the project's require (created with Module.createRequire),
+ * falling back to the package "exports" import conditions for ESM-only packages, then
+ * to the packages Ockla installed for scripts outside a project.
+ * ES modules are loaded through Node's ESM loader, CommonJS and JSON through require.
+ * When a TypeScript compiler is given, tsconfig path aliases apply and local
+ * TypeScript files are transpiled as they are loaded.
+ * When permissions are given, modules the script may not load are refused, and the
+ * file system modules it gets check the paths it accesses.
+ *
+ * Project files loaded (anything outside node_modules) are tracked, so the files a run
+ * depends on can be reported, and loaded again once they change.
+ */
+export class ModuleLoader {
+  private formatCache = new Map<string, ModuleFormat>();
+  private readonly pathAliases: PathAliases | undefined;
+  // Resolves the packages of the scratch folder
+  private readonly packagesRequire: NodeJS.Require | undefined;
+
+  /**
+   * @param requireFn - The require function of the user's project
+   * @param filename - Path the user code runs as
+   * @param compiler - Compiler for local TypeScript modules
+   * @param permissions - What the loaded code may do
+   * @param packagesDirectory - Folder of the packages Ockla installs outside projects
+   * @param cache - Loaded project files, shared by the loaders of one run
+   */
+  constructor(
+    private readonly requireFn: NodeJS.Require,
+    private readonly filename: string,
+    private readonly compiler?: TypeScriptCompiler,
+    private readonly permissions?: SandboxPermissions,
+    private readonly packagesDirectory?: string,
+    private readonly cache: ModuleCache = { typeScriptModules: new Map(), files: new Map(), generation: 0 }
+  ) {
+    this.pathAliases = compiler?.getPathAliases(filename);
+    this.packagesRequire = packagesDirectory ? createRequire(path.join(packagesDirectory, 'package.json')) : undefined;
+  }
+
+  /**
+   * Imports a module and returns its namespace
+   * @param specifier - The module specifier, as written in the import
+   * @param options - Import options such as import attributes
+   * @returns The module namespace object
+   */
+  async import(specifier: string, options?: ImportCallOptions): Promise<Record<string, unknown>> {
+    const resolved = this.resolve(specifier);
+    this.permissions?.checkModule(resolved);
+
+    if (isBuiltin(resolved)) {
+      // Guarded builtins are copies, which Node's ESM loader knows nothing about
+      const exports = this.requireFn(resolved);
+      const guarded = this.permissions ? this.permissions.guardModule(resolved, exports) : exports;
+      return guarded === exports ? dynamicImport(resolved) : this.toNamespace(guarded);
+    }
+    if (this.compiler?.isTypeScriptFile(resolved)) {
+      return this.toNamespace(this.loadTypeScriptModule(resolved), true);
+    }
+    this.track(resolved);
+    if (this.getFormat(resolved) === 'module') {
+      // Node's ESM loader never forgets a module; a new URL gets the changed file. The modules
+      // it imports itself are cached by Node under their own URL
+      const url = pathToFileURL(resolved);
+      if (this.cache.generation > 0 && this.isLocalFile(resolved)) {
+        url.searchParams.set('ockla-reload', String(this.cache.generation));
+      }
+      return dynamicImport(url.href, options);
+    }
+
+    // CommonJS shares the require cache with require() calls in the script
+    return this.toNamespace(this.requireFn(resolved));
+  }
+
+  /**
+   * Requires a module, also accepting path aliases and local TypeScript files
+   * @param specifier - The module specifier
+   * @returns The module exports
+   */
+  require(specifier: string): any {
+    const resolved = this.resolve(specifier);
+    this.permissions?.checkModule(resolved);
+
+    if (this.compiler?.isTypeScriptFile(resolved)) {
+      return this.loadTypeScriptModule(resolved);
+    }
+    this.track(resolved);
+    const exports = this.requireFn(isBuiltin(resolved) ? specifier : resolved);
+    return this.permissions ? this.permissions.guardModule(resolved, exports) : exports;
+  }
+
+  /**
+   * Creates a require function for user code backed by this loader
+   */
+  createRequire(): NodeJS.Require {
+    return Object.assign((specifier: string) => this.require(specifier), this.requireFn, {
+      resolve: Object.assign((specifier: string) => this.resolve(specifier), {
+        paths: this.requireFn.resolve.paths,
+      }),
+    });
+  }
+
+  /**
+   * Creates a loader for code running as another file, resolving its imports from there
+   * @param filename - Absolute path of the file
+   */
+  createLoader(filename: string): ModuleLoader {
+    return new ModuleLoader(createRequire(filename), filename, this.compiler, this.permissions, this.packagesDirectory, this.cache);
+  }
+
+  /**
+   * Lists the project files loaded so far, the CommonJS modules they required included
+   * @returns Absolute paths of the files
+   */
+  getDependencies(): string[] {
+    const pending = [...this.cache.files.keys()];
+    while (pending.length > 0) {
+      const module = this.requireFn.cache[pending.pop()!];
+      for (const child of module?.children || []) {
+        if (this.isLocalFile(child.filename) && !this.cache.files.has(child.filename)) {
+          this.cache.files.set(child.filename, this.getModificationTime(child.filename));
+          pending.push(child.filename);
+        }
+      }
+    }
+    return [...this.cache.files.keys()];
+  }
+
+  /**
+   * Forgets the project files loaded so far when any of them changed since, so the next
+   * imports load them again. All of them go, as the others may hold on to what the changed
+   * ones exported; packages stay loaded
+   * @returns Whether the files were forgotten
+   */
+  reloadChangedFiles(): boolean {
+    const files = this.getDependencies();
+    if (files.every(file => this.getModificationTime(file) === this.cache.files.get(file))) {
+      return false;
+    }
+
+    files.forEach(file => delete this.requireFn.cache[file]);
+    this.cache.typeScriptModules.clear();
+    this.cache.files.clear();
+    this.cache.generation++;
+    return true;
+  }
+
+  /**
+   * Resolves a specifier to a builtin module name or an absolute file path
+   * @param specifier - The module specifier
+   * @returns The builtin name (node:*) or absolute path
+   */
+  resolve(specifier: string): string {
+    if (isBuiltin(specifier)) {
+      return specifier.startsWith('node:') ? specifier : `node:${specifier}`;
+    }
+    if (specifier.startsWith('file:')) {
+      return fileURLToPath(specifier);
+    }
+
+    const aliased = this.resolvePathAlias(specifier);
+    if (aliased) {
+      return aliased;
+    }
+
+    try {
+      return this.requireFn.resolve(specifier);
+    } catch (err) {
+      const resolved = this.isBareSpecifier(specifier)
+        ? this.resolvePackageImport(specifier) || this.resolveInstalledPackage(specifier)
+        : this.resolveTypeScriptFile(path.resolve(path.dirname(this.filename), specifier));
+      if (!resolved) {
+        throw err;
+      }
+      return resolved;
+    }
+  }
+
+  /**
+   * Creates the object exposed to user code as import.meta
+   */
+  createImportMeta(): Record<string, unknown> {
+    return {
+      url: pathToFileURL(this.filename).href,
+      filename: this.filename,
+      dirname: path.dirname(this.filename),
+      resolve: (specifier: string) => {
+        const resolved = this.resolve(specifier);
+        return isBuiltin(resolved) ? resolved : pathToFileURL(resolved).href;
+      },
+    };
+  }
+
+  /**
+   * Resolves a specifier through the tsconfig "paths" mapping
+   * @param specifier - The module specifier
+   * @returns The absolute path, if an alias matches an existing file
+   */
+  private resolvePathAlias(specifier: string): string | undefined {
+    if (!this.pathAliases || !this.isBareSpecifier(specifier)) {
+      return undefined;
+    }
+
+    for (const [pattern, targets] of Object.entries(this.pathAliases.paths)) {
+      const star = pattern.indexOf('*');
+      const prefix = star === -1 ? pattern : pattern.substring(0, star);
+      const suffix = star === -1 ? '' : pattern.substring(star + 1);
+      const matches = star === -1
+        ? specifier === pattern
+        : specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length;
+
+      if (!matches) {
+        continue;
+      }
+
+      const wildcard = star === -1 ? '' : specifier.substring(prefix.length, specifier.length - suffix.length);
+      for (const target of targets) {
+        const candidate = path.resolve(this.pathAliases.baseUrl, target.replace('*', wildcard));
+        const resolved = this.resolveTypeScriptFile(candidate) || this.tryResolve(candidate);
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the TypeScript file a path refers to, trying the usual extensions and index files.
+   * Imports written with a .js extension also match the .ts source, as the TypeScript compiler does
+   * @param basePath - Absolute path without, or with a JavaScript, extension
+   * @returns The TypeScript file, if there is one
+   */
+  private resolveTypeScriptFile(basePath: string): string | undefined {
+    if (!this.compiler) {
+      return undefined;
+    }
+
+    const extensions = this.compiler.getExtensions();
+    const withoutJsExtension = basePath.replace(/\.([cm]?)js(x?)$/, '');
+    const candidates = [
+      basePath,
+      ...extensions.map(extension => basePath + extension),
+      ...(withoutJsExtension !== basePath ? extensions.map(extension => withoutJsExtension + extension) : []),
+      ...extensions.map(extension => path.join(basePath, `index${extension}`)),
+    ];
+
+    return candidates.find(candidate =>
+      this.compiler!.isTypeScriptFile(candidate) && fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+    );
+  }
+
+  /**
+   * Starts tracking a loaded project file, with its modification time
+   */
+  private track(resolved: string): void {
+    if (this.isLocalFile(resolved) && !this.cache.files.has(resolved)) {
+      this.cache.files.set(resolved, this.getModificationTime(resolved));
+    }
+  }
+
+  /**
+   * Checks if a resolved module is a file of the project rather than a package or a builtin
+   */
+  private isLocalFile(resolved: string): boolean {
+    return path.isAbsolute(resolved) && !resolved.split(/[\\/]/).includes('node_modules');
+  }
+
+  private getModificationTime(filePath: string): number | undefined {
+    return fs.statSync(filePath, { throwIfNoEntry: false })?.mtimeMs;
+  }
+
+  /**
+   * Resolves a bare specifier from the packages of the scratch folder
+   * @returns The absolute path, if the package is installed there
+   */
+  private resolveInstalledPackage(specifier: string): string | undefined {
+    try {
+      return this.packagesRequire?.resolve(specifier);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolves a specifier with require, without throwing
+   */
+  private tryResolve(specifier: string): string | undefined {
+    try {
+      return this.requireFn.resolve(specifier);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Transpiles and evaluates a local TypeScript file as a CommonJS module
+   * @param filePath - Absolute path of the TypeScript file
+   * @returns The module exports
+   */
+  private loadTypeScriptModule(filePath: string): any {
+    const cached = this.cache.typeScriptModules.get(filePath);
+    if (cached) {
+      return cached.exports;
+    }
+
+    // Registered before evaluation, so circular imports see the partial exports like in Node
+    const localModule: LocalModule = { exports: {} };
+    this.cache.typeScriptModules.set(filePath, localModule);
+    this.track(filePath);
+
+    const compiled = this.compiler!.compile(fs.readFileSync(filePath, 'utf8'), filePath, 'typescript', 'commonjs');
+    const loader = this.createLoader(filePath);
+    const wrapper = new Script(
+      `(function (exports, require, module, __filename, __dirname) {${compiled.code}\n})`,
+      { filename: filePath }
+    ).runInThisContext();
+
+    wrapper(localModule.exports, loader.createRequire(), localModule, filePath, path.dirname(filePath));
+    return localModule.exports;
+  }
+
+  /**
+   * Resolves a bare specifier using the import conditions of the package "exports"
+   * @param specifier - A bare specifier such as 'pkg' or '@scope/pkg/sub'
+   * @returns The absolute path, if the package exports it for import
+   */
+  private resolvePackageImport(specifier: string): string | undefined {
+    const parts = specifier.split('/');
+    const nameLength = specifier.startsWith('@') ? 2 : 1;
+    const name = parts.slice(0, nameLength).join('/');
+    const subpath = ['.', ...parts.slice(nameLength)].join('/');
+
+    const scratchModules = this.packagesDirectory ? [path.join(this.packagesDirectory, 'node_modules')] : [];
+    for (const nodeModules of [...this.requireFn.resolve.paths(specifier) || [], ...scratchModules]) {
+      const packageDir = path.join(nodeModules, name);
+      const manifest = this.readPackageJson(packageDir);
+      if (!manifest) {
+        continue;
+      }
+
+      const target = manifest.exports !== undefined
+        ? this.matchExports(manifest.exports, subpath)
+        : undefined;
+      return target ? path.join(packageDir, target) : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the target of a subpath in a package "exports" field
+   */
+  private matchExports(exports: unknown, subpath: string): string | undefined {
+    const isSubpathMap = !!exports && typeof exports === 'object' && !Array.isArray(exports) &&
+      Object.keys(exports).some(key => key.startsWith('.'));
+    const map = (isSubpathMap ? exports : { '.': exports }) as Record<string, unknown>;
+
+    if (map[subpath] !== undefined) {
+      return this.matchConditions(map[subpath]);
+    }
+
+    // Subpath patterns such as "./features/*"
+    for (const [key, target] of Object.entries(map)) {
+      const star = key.indexOf('*');
+      if (star === -1) {
+        continue;
+      }
+
+      const prefix = key.substring(0, star);
+      const suffix = key.substring(star + 1);
+      if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= key.length - 1) {
+        const match = subpath.substring(prefix.length, subpath.length - suffix.length);
+        return this.matchConditions(target)?.replace(/\*/g, match);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Picks the first export target whose condition applies to import()
+   */
+  private matchConditions(target: unknown): string | undefined {
+    if (typeof target === 'string') {
+      return target;
+    }
+    if (Array.isArray(target)) {
+      return target.map(item => this.matchConditions(item)).find(item => item !== undefined);
+    }
+    if (target && typeof target === 'object') {
+      for (const [condition, value] of Object.entries(target)) {
+        if (IMPORT_CONDITIONS.includes(condition)) {
+          const match = this.matchConditions(value);
+          if (match !== undefined) {
+            return match;
+          }
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Determines whether a file is an ES module or CommonJS
+   */
+  private getFormat(filePath: string): ModuleFormat {
+    const extension = path.extname(filePath);
+    if (extension === '.mjs') {
+      return 'module';
+    }
+    if (extension !== '.js') {
+      return 'commonjs';
+    }
+
+    // .js files follow the "type" of the nearest package.json
+    let dir = path.dirname(filePath);
+    const visited: string[] = [];
+    let format: ModuleFormat = 'commonjs';
+
+    while (true) {
+      const cached = this.formatCache.get(dir);
+      if (cached) {
+        format = cached;
+        break;
+      }
+
+      visited.push(dir);
+      const manifest = this.readPackageJson(dir);
+      if (manifest) {
+        format = manifest.type === 'module' ? 'module' : 'commonjs';
+        break;
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
+    }
+
+    visited.forEach(visitedDir => this.formatCache.set(visitedDir, format));
+    return format;
+  }
+
+  /**
+   * Reads the package.json of a directory, if there is one
+   */
+  private readPackageJson(dir: string): Record<string, any> | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks if a specifier refers to a package rather than a path
+   */
+  private isBareSpecifier(specifier: string): boolean {
+    return !specifier.startsWith('.') && !path.isAbsolute(specifier);
+  }
+
+  /**
+   * Builds a namespace for CommonJS exports, the way Node does for import()
+   * @param exports - The module exports
+   * @param compiledFromEsm - Whether the module is a local file compiled from ES syntax,
+   * which keeps its own default export
+   */
+  private toNamespace(exports: any, compiledFromEsm = false): Record<string, unknown> {
+    const namespace: Record<string, unknown> = Object.create(null);
+    if (exports && (typeof exports === 'object' || typeof exports === 'function')) {
+      Object.assign(namespace, exports);
+    }
+    namespace.default = compiledFromEsm ? exports.default : exports;
+    return namespace;
+  }
+}
@@ -0,0 +1,186 @@
+import * as acorn from 'acorn';
+import * as walk from 'acorn-walk';
+import { SourceRewriter } from './sourceRewriter';
+import type { RewrittenSource } from './sourceRewriter';
+
+/**
+ * Name of the sandbox function that links a module specifier to its namespace
+ */
+export const IMPORT_FUNCTION = '__ocklaImport';
+
+/**
+ * Name of the sandbox object that stands in for import.meta
+ */
+export const IMPORT_META = '__ocklaImportMeta';
+
+/**
+ * Rewrites ES module syntax so a file can run inside the async wrapper of the executor.
+ *
+ * Static imports become awaited calls to the sandbox module loader, which links them to the
+ * namespaces produced by Node's own loader. Export keywords are dropped, keeping the declarations,
+ * and files using module syntax run in strict mode. A hashbang, only valid at the very start of
+ * a file, is blanked. Edits never add or remove lines.
+ */
+export class ModuleTransformer {
+  /**
+   * Transforms module syntax into loader calls
+   * @param code - The JavaScript code to transform
+   * @returns The transformed code and its mapping to the original source
+   */
+  transform(code: string): RewrittenSource {
+    const rewriter = new SourceRewriter(code);
+
+    // The wrapper comes before the code, so the hashbang would not be the start of the file
+    const hashbang = /^#!.*/.exec(code);
+    if (hashbang) {
+      rewriter.replace(0, hashbang[0].length, '');
+    }
+
+    let program: acorn.Program;
+    try {
+      program = acorn.parse(code, {
+        ecmaVersion: 'latest',
+        sourceType: 'script',
+        allowImportExportEverywhere: true,
+        allowAwaitOutsideFunction: true,
+        allowReturnOutsideFunction: true,
+        allowHashBang: true,
+      });
+    } catch {
+      // Leave unparseable code as is, so the runtime reports the syntax error itself
+      return rewriter.apply();
+    }
+
+    let isModule = false;
+
+    for (const node of program.body) {
+      switch (node.type) {
+        case 'ImportDeclaration':
+          isModule = true;
+          this.replacePreservingLines(code, rewriter, node, this.getImportCode(code, node));
+          break;
+        case 'ExportNamedDeclaration':
+          isModule = true;
+          if (node.declaration) {
+            // export const a = 1 -> const a = 1
+            rewriter.replace(node.start, node.declaration.start, '');
+          } else if (node.source) {
+            // Re-exports only need the module to be evaluated
+            this.replacePreservingLines(code, rewriter, node, this.getSideEffectImportCode(code, node.source, node.attributes));
+          } else {
+            this.replacePreservingLines(code, rewriter, node, '');
+          }
+          break;
+        case 'ExportDefaultDeclaration':
+          isModule = true;
+          this.rewriteDefaultExport(rewriter, node);
+          break;
+        case 'ExportAllDeclaration':
+          isModule = true;
+          this.replacePreservingLines(code, rewriter, node, this.getSideEffectImportCode(code, node.source, node.attributes));
+          break;
+      }
+    }
+
+    walk.full(program, node => {
+      if (node.type === 'ImportExpression') {
+        // import('x') -> __ocklaImport('x')
+        isModule = true;
+        rewriter.replace(node.start, node.start + 'import'.length, IMPORT_FUNCTION);
+      } else if (node.type === 'MetaProperty' && node.meta.name === 'import') {
+        isModule = true;
+        rewriter.replace(node.start, node.end, IMPORT_META);
+      }
+    });
+
+    // ES modules are always strict
+    if (isModule) {
+      rewriter.insert(0, '\'use strict\'; ');
+    }
+
+    return rewriter.apply();
+  }
+
+  /**
+   * Builds the loader call that replaces an import declaration
+   */
+  private getImportCode(code: string, node: acorn.ImportDeclaration): string {
+    const load = `await ${IMPORT_FUNCTION}(${this.getLoaderArguments(code, node.source, node.attributes)})`;
+
+    if (node.specifiers.length === 0) {
+      return `${load};`;
+    }
+
+    const bindings: string[] = [];
+    let namespace: string | undefined;
+
+    for (const specifier of node.specifiers) {
+      if (specifier.type === 'ImportNamespaceSpecifier') {
+        namespace = specifier.local.name;
+      } else if (specifier.type === 'ImportDefaultSpecifier') {
+        bindings.push(`default: ${specifier.local.name}`);
+      } else {
+        const imported = code.substring(specifier.imported.start, specifier.imported.end);
+        bindings.push(imported === specifier.local.name ? imported : `${imported}: ${specifier.local.name}`);
+      }
+    }
+
+    if (namespace) {
+      // import x, * as ns from 'y' -> const ns = await load('y'), { default: x } = ns;
+      const rest = bindings.length > 0 ? `, { ${bindings.join(', ')} } = ${namespace}` : '';
+      return `const ${namespace} = ${load}${rest};`;
+    }
+
+    return `const { ${bindings.join(', ')} } = ${load};`;
+  }
+
+  /**
+   * Builds a loader call that only evaluates a module
+   */
+  private getSideEffectImportCode(code: string, source: acorn.Literal, attributes: acorn.ImportAttribute[]): string {
+    return `await ${IMPORT_FUNCTION}(${this.getLoaderArguments(code, source, attributes)});`;
+  }
+
+  /**
+   * Builds the loader arguments for a specifier and its import attributes
+   */
+  private getLoaderArguments(code: string, source: acorn.Literal, attributes: acorn.ImportAttribute[]): string {
+    const specifier = code.substring(source.start, source.end);
+    if (!attributes || attributes.length === 0) {
+      return specifier;
+    }
+
+    const entries = attributes.map(attribute =>
+      `${code.substring(attribute.key.start, attribute.key.end)}: ${code.substring(attribute.value.start, attribute.value.end)}`
+    );
+    return `${specifier}, { with: { ${entries.join(', ')} } }`;
+  }
+
+  /**
+   * Rewrites export default so the declaration or value stays in the script
+   */
+  private rewriteDefaultExport(rewriter: SourceRewriter, node: acorn.ExportDefaultDeclaration): void {
+    const declaration = node.declaration;
+    const isNamedDeclaration =
+      (declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && !!declaration.id;
+
+    if (isNamedDeclaration) {
+      rewriter.replace(node.start, declaration.start, '');
+      return;
+    }
+
+    // Values and anonymous declarations become parenthesized expressions, which also get auto-logged.
+    // The leading semicolon keeps the parenthesis from continuing the previous statement
+    rewriter.replace(node.start, declaration.start, ';(');
+    rewriter.insert(declaration.end, ')');
+  }
+
+  /**
+   * Replaces a node, padding the replacement so the number of lines does not change
+   */
+  private replacePreservingLines(code: string, rewriter: SourceRewriter, node: acorn.Node, text: string): void {
+    const originalLines = code.substring(node.start, node.end).split('\n').length;
+    const replacementLines = text.split('\n').length;
+    rewriter.replace(node.start, node.end, text + '\n'.repeat(Math.max(0, originalLines - replacementLines)));
+  }
+}
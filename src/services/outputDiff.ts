@@ -0,0 +1,156 @@
+/**
+ * A row of a side-by-side diff. Changed rows pair a removed line with the line that replaced it
+ */
+export interface DiffRow {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  /** Line of the left output, 1-based, and its text */
+  leftLine?: number;
+  left?: string;
+  /** Line of the right output, 1-based, and its text */
+  rightLine?: number;
+  right?: string;
+}
+
+/**
+ * A line kept, removed from the left output or added in the right one
+ */
+interface LineEdit {
+  kind: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+// Size of the line table above which the differing middle is shown as replaced as a whole
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Compares the output of two runs line by line, for a side-by-side view.
+ *
+ * Lines are matched by their longest common subsequence; lines removed and added
+ * between two matches are paired up as changed lines.
+ */
+export class OutputDiff {
+  /**
+   * Compares two outputs
+   * @param left - The output of the older run
+   * @param right - The output of the newer run
+   * @returns The rows of the side-by-side diff
+   */
+  compare(left: string, right: string): DiffRow[] {
+    const leftLines = left.split('\n');
+    const rightLines = right.split('\n');
+
+    // Common lines at both ends keep the line table small for the usual small edits
+    let prefix = 0;
+    while (prefix < leftLines.length && prefix < rightLines.length && leftLines[prefix] === rightLines[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < leftLines.length - prefix && suffix < rightLines.length - prefix &&
+      leftLines[leftLines.length - 1 - suffix] === rightLines[rightLines.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const rows: DiffRow[] = [];
+    for (let index = 0; index < prefix; index++) {
+      rows.push({ kind: 'same', leftLine: index + 1, left: leftLines[index], rightLine: index + 1, right: rightLines[index] });
+    }
+
+    const middle = this.diffLines(
+      leftLines.slice(prefix, leftLines.length - suffix),
+      rightLines.slice(prefix, rightLines.length - suffix)
+    );
+    rows.push(...this.toRows(middle, prefix, prefix));
+
+    for (let index = suffix; index > 0; index--) {
+      const leftIndex = leftLines.length - index;
+      const rightIndex = rightLines.length - index;
+      rows.push({ kind: 'same', leftLine: leftIndex + 1, left: leftLines[leftIndex], rightLine: rightIndex + 1, right: rightLines[rightIndex] });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Lists the edits turning one list of lines into the other
+   */
+  private diffLines(left: string[], right: string[]): LineEdit[] {
+    if (left.length * right.length > MAX_DIFF_CELLS) {
+      return [
+        ...left.map(text => ({ kind: 'removed' as const, text })),
+        ...right.map(text => ({ kind: 'added' as const, text })),
+      ];
+    }
+
+    // lengths[i][j]: longest common subsequence of left[i..] and right[j..]
+    const lengths = Array.from({ length: left.length + 1 }, () => new Uint32Array(right.length + 1));
+    for (let i = left.length - 1; i >= 0; i--) {
+      for (let j = right.length - 1; j >= 0; j--) {
+        lengths[i][j] = left[i] === right[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const edits: LineEdit[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < left.length || j < right.length) {
+      if (i < left.length && j < right.length && left[i] === right[j]) {
+        edits.push({ kind: 'same', text: left[i] });
+        i++;
+        j++;
+      } else if (j >= right.length || (i < left.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+        edits.push({ kind: 'removed', text: left[i++] });
+      } else {
+        edits.push({ kind: 'added', text: right[j++] });
+      }
+    }
+    return edits;
+  }
+
+  /**
+   * Lays out edits side by side, pairing the lines removed and added between two common lines
+   */
+  private toRows(edits: LineEdit[], leftStart: number, rightStart: number): DiffRow[] {
+    const rows: DiffRow[] = [];
+    let leftLine = leftStart;
+    let rightLine = rightStart;
+    let removed: string[] = [];
+    let added: string[] = [];
+
+    const flush = () => {
+      for (let index = 0; index < Math.max(removed.length, added.length); index++) {
+        const row: DiffRow = {
+          kind: index >= added.length ? 'removed' : index >= removed.length ? 'added' : 'changed',
+        };
+        if (index < removed.length) {
+          row.leftLine = ++leftLine;
+          row.left = removed[index];
+        }
+        if (index < added.length) {
+          row.rightLine = ++rightLine;
+          row.right = added[index];
+        }
+        rows.push(row);
+      }
+      removed = [];
+      added = [];
+    };
+
+    for (const edit of edits) {
+      if (edit.kind === 'removed') {
+        removed.push(edit.text);
+      } else if (edit.kind === 'added') {
+        added.push(edit.text);
+      } else {
+        flush();
+        rows.push({ kind: 'same', leftLine: ++leftLine, left: edit.text, rightLine: ++rightLine, right: edit.text });
+      }
+    }
+    flush();
+
+    return rows;
+  }
+}
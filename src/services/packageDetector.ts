@@ -0,0 +1,151 @@
+import * as acorn from 'acorn';
+import * as walk from 'acorn-walk';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ModuleLoader } from './moduleLoader';
+import type { TypeScriptCompiler } from './typeScriptCompiler';
+
+// Project files followed through their imports before giving up on the rest
+const MAX_FILES = 100;
+// Files whose imports are followed
+const SCRIPT_EXTENSIONS = ['.js', '.mjs', '.cjs', '.jsx'];
+// npm package names, which are also safe to pass to a package manager command
+export const PACKAGE_NAME = /^(?:@[a-z0-9~-][a-z0-9._~-]*\/)?[a-z0-9~-][a-z0-9._~-]*$/;
+
+/**
+ * Finds the packages a script imports that are not installed, before it runs.
+ *
+ * Static imports, re-exports, `import()` and `require()` calls with a string specifier
+ * are followed from the script through the project files it imports. Imports inside
+ * a `try` block are optional dependencies and are left out, as the script handles
+ * them missing itself.
+ */
+export class PackageDetector {
+  /**
+   * Lists the packages imported by a script, or the project files it imports, that cannot be resolved
+   * @param code - The script code, as JavaScript
+   * @param loader - Loader of the script, which resolves its imports the way the run will
+   * @param compiler - Compiler for the TypeScript files the script imports
+   * @returns Names of the missing packages, in the order they are imported
+   */
+  findMissingPackages(code: string, loader: ModuleLoader, compiler?: TypeScriptCompiler): string[] {
+    const missing = new Set<string>();
+    const visited = new Set<string>();
+    const pending: { code: string; loader: ModuleLoader }[] = [{ code, loader }];
+
+    while (pending.length > 0 && visited.size < MAX_FILES) {
+      const file = pending.shift()!;
+
+      for (const specifier of this.getSpecifiers(file.code)) {
+        let resolved: string;
+        try {
+          resolved = file.loader.resolve(specifier);
+        } catch {
+          const name = this.getPackageName(specifier);
+          if (name) {
+            missing.add(name);
+          }
+          continue;
+        }
+
+        if (visited.has(resolved) || !this.isProjectScript(resolved, compiler)) {
+          continue;
+        }
+        visited.add(resolved);
+        const source = this.readScript(resolved, compiler);
+        if (source !== undefined) {
+          pending.push({ code: source, loader: file.loader.createLoader(resolved) });
+        }
+      }
+    }
+
+    return [...missing];
+  }
+
+  /**
+   * Gets the package a bare specifier imports
+   * @param specifier - The module specifier, such as 'lodash/fp' or '@scope/pkg'
+   * @returns The package name, or undefined for paths, URLs and invalid names
+   */
+  getPackageName(specifier: string): string | undefined {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier) || /^[a-z][a-z0-9+.-]*:/i.test(specifier)) {
+      return undefined;
+    }
+    const parts = specifier.split('/');
+    const name = parts.slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+    return PACKAGE_NAME.test(name) ? name : undefined;
+  }
+
+  /**
+   * Lists the module specifiers of the required imports of some code
+   * @param code - JavaScript code; code that does not parse has none
+   */
+  getSpecifiers(code: string): string[] {
+    let program: acorn.Program;
+    try {
+      program = acorn.parse(code, {
+        ecmaVersion: 'latest',
+        sourceType: 'module',
+        allowImportExportEverywhere: true,
+        allowAwaitOutsideFunction: true,
+        allowReturnOutsideFunction: true,
+        allowHashBang: true,
+      });
+    } catch {
+      return [];
+    }
+
+    const specifiers: string[] = [];
+    const add = (node: acorn.AnyNode | null | undefined) => {
+      if (node?.type === 'Literal' && typeof node.value === 'string') {
+        specifiers.push(node.value);
+      }
+    };
+    // Imports whose failure the code catches
+    const isOptional = (ancestors: acorn.AnyNode[]) => ancestors.some((ancestor, index) =>
+      ancestor.type === 'TryStatement' && ancestors[index + 1] === ancestor.block
+    );
+
+    walk.ancestor(program, {
+      ImportDeclaration: node => add(node.source),
+      ExportNamedDeclaration: node => add(node.source),
+      ExportAllDeclaration: node => add(node.source),
+      ImportExpression: (node, _state, ancestors) => {
+        if (!isOptional(ancestors)) {
+          add(node.source);
+        }
+      },
+      CallExpression: (node, _state, ancestors) => {
+        const isRequire = node.callee.type === 'Identifier' && node.callee.name === 'require' && node.arguments.length === 1;
+        if (isRequire && !isOptional(ancestors)) {
+          add(node.arguments[0] as acorn.AnyNode);
+        }
+      },
+    });
+
+    return specifiers;
+  }
+
+  /**
+   * Checks if a resolved module is a script of the project whose imports are followed
+   */
+  private isProjectScript(resolved: string, compiler?: TypeScriptCompiler): boolean {
+    if (!path.isAbsolute(resolved) || resolved.split(/[\\/]/).includes('node_modules')) {
+      return false;
+    }
+    return SCRIPT_EXTENSIONS.includes(path.extname(resolved)) || !!compiler?.isTypeScriptFile(resolved);
+  }
+
+  /**
+   * Reads a project script as JavaScript
+   * @returns The code, or undefined if it cannot be read or compiled
+   */
+  private readScript(filePath: string, compiler?: TypeScriptCompiler): string | undefined {
+    try {
+      const source = fs.readFileSync(filePath, 'utf8');
+      return compiler?.isTypeScriptFile(filePath) ? compiler.compile(source, filePath).code : source;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type PackageManagerName = 'npm' | 'pnpm' | 'yarn';
+
+// Lockfiles telling which package manager a project uses, in the order they are checked
+const LOCKFILES: [string, PackageManagerName][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+];
+// Longest an installation may take, in ms
+const INSTALL_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Where packages are installed, and with which package manager
+ */
+export interface InstallTarget {
+  directory: string;
+  manager: PackageManagerName;
+}
+
+/**
+ * Installs the packages scripts need, with the package manager of their project.
+ *
+ * The project of a script is the nearest folder with a package.json, from the folder of
+ * the script up to the workspace folder. Its package manager is the one whose lockfile is
+ * found first going up from there, npm when there is none. Scripts outside any project get
+ * their packages in a scratch folder managed by Ockla, installed with npm.
+ */
+export class PackageManager {
+  /**
+   * Works out where the packages of a script go
+   * @param scriptDirectory - Folder of the script
+   * @param rootDirectory - Workspace folder, where the search for a project stops
+   * @param scratchDirectory - Folder for the packages of scripts outside a project
+   * @param useScratch - Install in the scratch folder even if the script is in a project
+   */
+  getInstallTarget(scriptDirectory: string, rootDirectory: string, scratchDirectory: string, useScratch = false): InstallTarget {
+    const project = useScratch ? undefined : this.findUp(scriptDirectory, rootDirectory, directory =>
+      fs.existsSync(path.join(directory, 'package.json')) ? directory : undefined
+    );
+    if (!project) {
+      return { directory: scratchDirectory, manager: 'npm' };
+    }
+
+    const manager = this.findUp(project, rootDirectory, directory =>
+      LOCKFILES.find(([lockfile]) => fs.existsSync(path.join(directory, lockfile)))?.[1]
+    );
+    return { directory: project, manager: manager || 'npm' };
+  }
+
+  /**
+   * Gets the command line that installs packages
+   * @param manager - The package manager
+   * @param packages - Names of the packages
+   * @returns The program and its arguments
+   */
+  getInstallCommand(manager: PackageManagerName, packages: string[]): [string, string[]] {
+    return [manager, [manager === 'npm' ? 'install' : 'add', ...packages]];
+  }
+
+  /**
+   * Installs packages, creating the package.json of the scratch folder if it has none
+   * @param target - Where the packages go, and with which package manager
+   * @param packages - Names of the packages
+   * @throws Error with the output of the package manager when the installation fails
+   */
+  async install(target: InstallTarget, packages: string[]): Promise<void> {
+    const manifest = path.join(target.directory, 'package.json');
+    if (!fs.existsSync(manifest)) {
+      fs.mkdirSync(target.directory, { recursive: true });
+      fs.writeFileSync(manifest, JSON.stringify({ name: 'ockla-packages', private: true }, null, 2) + '\n');
+    }
+
+    const [program, args] = this.getInstallCommand(target.manager, packages);
+    await new Promise<void>((resolve, reject) => {
+      // Package managers are .cmd scripts on Windows, which only run through a shell
+      execFile(program, args, { cwd: target.directory, timeout: INSTALL_TIMEOUT, shell: process.platform === 'win32' }, (err, _stdout, stderr) => {
+        if (err) {
+          reject(new Error(stderr.trim() || err.message, { cause: err }));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Looks for something in a folder and its parents, up to a root folder
+   * @returns The first thing found
+   */
+  private findUp<T>(start: string, root: string, find: (directory: string) => T | undefined): T | undefined {
+    let directory = start;
+    while (true) {
+      const found = find(directory);
+      const parent = path.dirname(directory);
+      // Folders outside the root, such as those of untitled documents, are only checked themselves
+      if (found !== undefined || directory === root || parent === directory || path.relative(root, directory).startsWith('..')) {
+        return found;
+      }
+      directory = parent;
+    }
+  }
+}
@@ -0,0 +1,362 @@
+import * as path from 'path';
+import { DEFAULT_PERMISSIONS } from './sandboxPermissions';
+import type { AccessRules, OcklaConfiguration, PermissionPolicy } from '../types';
+
+export const CONFIG_FILE_NAME = '.ocklarc.json';
+
+/**
+ * Configuration of documents without settings or config files
+ */
+export const DEFAULT_CONFIGURATION: OcklaConfiguration = {
+  autoRunOnSave: false,
+  liveMode: false,
+  liveModeDelay: 500,
+  autoRunInclude: [],
+  autoRunExclude: ['**/node_modules/**'],
+  autoShowPanel: false,
+  showExecutionTime: true,
+  showInlineResults: true,
+  coverage: false,
+  maxOutputLength: 10000,
+  executionTimeout: 5000,
+  asyncTimeout: 500,
+  memoryLimit: 512,
+  sessionMode: false,
+  env: {},
+  loadEnvFiles: true,
+  envFilesLocation: 'workspace',
+  envMode: '',
+  maskSecrets: true,
+  preload: [],
+  globals: {},
+  packageInstallLocation: 'project',
+  permissions: DEFAULT_PERMISSIONS,
+};
+
+/**
+ * Permissions set by a configuration layer; the entries left out keep their value
+ */
+export interface PermissionOverrides {
+  fileSystem?: Partial<AccessRules>;
+  network?: Partial<AccessRules>;
+  childProcess?: boolean;
+  nativeAddons?: boolean;
+  env?: string[];
+}
+
+/**
+ * Configuration set by a layer: the settings, a config file or one of its rules
+ */
+export type ConfigurationOverrides = Partial<Omit<OcklaConfiguration, 'permissions'>> & {
+  permissions?: PermissionOverrides;
+};
+
+/**
+ * Overrides for the files matching some globs
+ */
+export interface ConfigurationRule {
+  /** Globs relative to the folder of the config file */
+  files: string[];
+  overrides: ConfigurationOverrides;
+}
+
+/**
+ * A parsed .ocklarc.json file
+ */
+export interface ProjectConfigFile {
+  /** Folder of the file, which its globs start at */
+  directory: string;
+  overrides: ConfigurationOverrides;
+  /** Rules applied in order after the overrides of the file, to the files they match */
+  rules: ConfigurationRule[];
+  /** Problems found in the file; invalid entries are left out */
+  problems: string[];
+}
+
+// Kind of value of a setting, or the values it accepts
+type ValueKind = 'boolean' | 'number' | 'string' | 'list' | 'map' | readonly string[];
+
+// Entries of a configuration layer besides permissions, and the kind of value they take
+const SETTING_KINDS: Record<Exclude<keyof OcklaConfiguration, 'permissions'>, ValueKind> = {
+  autoRunOnSave: 'boolean',
+  liveMode: 'boolean',
+  liveModeDelay: 'number',
+  autoRunInclude: 'list',
+  autoRunExclude: 'list',
+  autoShowPanel: 'boolean',
+  showExecutionTime: 'boolean',
+  showInlineResults: 'boolean',
+  coverage: 'boolean',
+  maxOutputLength: 'number',
+  executionTimeout: 'number',
+  asyncTimeout: 'number',
+  memoryLimit: 'number',
+  sessionMode: 'boolean',
+  env: 'map',
+  loadEnvFiles: 'boolean',
+  envFilesLocation: ['workspace', 'script'],
+  envMode: 'string',
+  maskSecrets: 'boolean',
+  preload: 'list',
+  globals: 'map',
+  packageInstallLocation: ['project', 'scratch'],
+};
+
+/**
+ * Reads .ocklarc.json files and works out the configuration of a document.
+ *
+ * Layers apply from the settings down to the document: the config files of the folders
+ * from the workspace folder to the one of the document, nearer folders last, each followed
+ * by its rules that match the document. Values replace those of earlier layers, except
+ * environment variables and globals, which are merged, and permissions, which are replaced
+ * entry by entry. Relative preload paths of a config file start at its folder.
+ */
+export class ProjectConfig {
+  /**
+   * Parses and validates the text of a config file
+   * @param text - The file content
+   * @param directory - Folder of the file
+   * @returns The valid part of the file, with the problems found
+   */
+  parse(text: string, directory: string): ProjectConfigFile {
+    const file: ProjectConfigFile = { directory, overrides: {}, rules: [], problems: [] };
+
+    let content: unknown;
+    try {
+      content = JSON.parse(text);
+    } catch (err) {
+      file.problems.push(err instanceof Error ? err.message : String(err));
+      return file;
+    }
+    if (!this.isObject(content)) {
+      file.problems.push('The configuration must be an object');
+      return file;
+    }
+
+    const { rules, ...settings } = content;
+    // Editors read the schema, it is no setting
+    delete settings.$schema;
+    file.overrides = this.resolvePreload(this.readOverrides(settings, '', file.problems), directory);
+
+    if (rules !== undefined && !Array.isArray(rules)) {
+      file.problems.push('"rules" must be an array');
+    } else if (rules) {
+      rules.forEach((rule, index) => {
+        const rulePath = `rules[${index}]`;
+        if (!this.isObject(rule)) {
+          file.problems.push(`"${rulePath}" must be an object`);
+          return;
+        }
+
+        const { files, ...ruleSettings } = rule;
+        const globs = typeof files === 'string' ? [files] : files;
+        if (!this.isStringArray(globs) || globs.length === 0) {
+          file.problems.push(`"${rulePath}.files" must be a glob or a list of globs`);
+          return;
+        }
+        const overrides = this.readOverrides(ruleSettings, `${rulePath}.`, file.problems);
+        file.rules.push({ files: globs, overrides: this.resolvePreload(overrides, directory) });
+      });
+    }
+
+    return file;
+  }
+
+  /**
+   * Works out the configuration of a document
+   * @param settings - The configuration from the settings
+   * @param files - The config files of the folders of the document, outermost first
+   * @param filePath - Path of the document
+   * @returns The configuration with the files and their matching rules applied
+   */
+  resolve(settings: OcklaConfiguration, files: ProjectConfigFile[], filePath: string): OcklaConfiguration {
+    let configuration = settings;
+
+    for (const file of files) {
+      configuration = this.merge(configuration, file.overrides);
+
+      const relativePath = path.relative(file.directory, filePath).split(path.sep).join('/');
+      for (const rule of file.rules) {
+        if (rule.files.some(glob => this.matchesGlob(glob, relativePath))) {
+          configuration = this.merge(configuration, rule.overrides);
+        }
+      }
+    }
+
+    return configuration;
+  }
+
+  /**
+   * Applies the overrides of a layer to a configuration
+   */
+  merge(configuration: OcklaConfiguration, overrides: ConfigurationOverrides): OcklaConfiguration {
+    const { env, globals, permissions, ...settings } = overrides;
+    return {
+      ...configuration,
+      ...settings,
+      env: { ...configuration.env, ...env },
+      globals: { ...configuration.globals, ...globals },
+      permissions: permissions ? this.mergePermissions(configuration.permissions, permissions) : configuration.permissions,
+    };
+  }
+
+  /**
+   * Checks if a path matches a glob, with `*`, `**`, `?`, `[...]` and `{a,b}`
+   * @param glob - The glob
+   * @param relativePath - Path relative to the folder the glob starts at, with forward slashes
+   */
+  matchesGlob(glob: string, relativePath: string): boolean {
+    return this.globToRegExp(glob).test(relativePath);
+  }
+
+  private mergePermissions(permissions: PermissionPolicy, overrides: PermissionOverrides): PermissionPolicy {
+    return {
+      fileSystem: { ...permissions.fileSystem, ...overrides.fileSystem },
+      network: { ...permissions.network, ...overrides.network },
+      childProcess: overrides.childProcess ?? permissions.childProcess,
+      nativeAddons: overrides.nativeAddons ?? permissions.nativeAddons,
+      env: overrides.env ?? permissions.env,
+    };
+  }
+
+  /**
+   * Keeps the valid entries of a configuration layer
+   * @param values - The entries of the layer
+   * @param prefix - Path of the layer in the file, to name entries in problems
+   * @param problems - Receives the problems found
+   */
+  private readOverrides(values: Record<string, unknown>, prefix: string, problems: string[]): ConfigurationOverrides {
+    const overrides: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(values)) {
+      const name = `"${prefix}${key}"`;
+      if (key === 'permissions') {
+        overrides.permissions = this.readPermissions(value, name, problems);
+        continue;
+      }
+
+      const kind = Object.hasOwn(SETTING_KINDS, key) ? SETTING_KINDS[key as keyof typeof SETTING_KINDS] : undefined;
+      if (!kind) {
+        problems.push(`Unknown setting ${name}`);
+      } else if (kind === 'boolean' && typeof value !== 'boolean') {
+        problems.push(`${name} must be true or false`);
+      } else if (kind === 'number' && (typeof value !== 'number' || !(value > 0))) {
+        problems.push(`${name} must be a positive number`);
+      } else if (kind === 'string' && typeof value !== 'string') {
+        problems.push(`${name} must be a string`);
+      } else if (Array.isArray(kind) && !kind.includes(value)) {
+        problems.push(`${name} must be one of ${kind.map(item => `"${item}"`).join(', ')}`);
+      } else if (kind === 'list' && !this.isStringArray(value)) {
+        problems.push(`${name} must be a list of strings`);
+      } else if (kind === 'map' && (!this.isObject(value) || !Object.values(value).every(item => typeof item === 'string'))) {
+        problems.push(`${name} must map names to strings`);
+      } else {
+        overrides[key] = value;
+      }
+    }
+
+    return overrides as ConfigurationOverrides;
+  }
+
+  /**
+   * Makes the preload paths of a config file absolute, as they are relative to its folder;
+   * package names are left as they are
+   */
+  private resolvePreload(overrides: ConfigurationOverrides, directory: string): ConfigurationOverrides {
+    if (!overrides.preload) {
+      return overrides;
+    }
+    const preload = overrides.preload.map(entry => entry.startsWith('.') ? path.join(directory, entry) : entry);
+    return { ...overrides, preload };
+  }
+
+  private readPermissions(value: unknown, name: string, problems: string[]): PermissionOverrides | undefined {
+    if (!this.isObject(value)) {
+      problems.push(`${name} must be an object`);
+      return undefined;
+    }
+
+    const permissions: PermissionOverrides = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const entryName = `${name.slice(0, -1)}.${key}"`;
+      if (key === 'fileSystem' || key === 'network') {
+        const rules = this.isObject(entry) ? entry : undefined;
+        const valid = rules && Object.entries(rules).every(([list, items]) =>
+          (list === 'allow' || list === 'deny') && this.isStringArray(items)
+        );
+        if (valid) {
+          permissions[key] = rules as Partial<AccessRules>;
+        } else {
+          problems.push(`${entryName} must be an object with "allow" and "deny" lists`);
+        }
+      } else if (key === 'childProcess' || key === 'nativeAddons') {
+        if (typeof entry === 'boolean') {
+          permissions[key] = entry;
+        } else {
+          problems.push(`${entryName} must be true or false`);
+        }
+      } else if (key === 'env') {
+        if (this.isStringArray(entry)) {
+          permissions.env = entry;
+        } else {
+          problems.push(`${entryName} must be a list of variable names`);
+        }
+      } else {
+        problems.push(`Unknown permission ${entryName}`);
+      }
+    }
+    return permissions;
+  }
+
+  /**
+   * Translates a glob into a regular expression matching whole paths
+   */
+  private globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    let braces = 0;
+
+    for (let index = 0; index < glob.length; index++) {
+      const char = glob[index];
+      if (char === '*') {
+        if (glob[index + 1] === '*') {
+          // "**/" matches any number of folders, none included
+          const slash = glob[index + 2] === '/';
+          pattern += slash ? '(?:.*/)?' : '.*';
+          index += slash ? 2 : 1;
+        } else {
+          pattern += '[^/]*';
+        }
+      } else if (char === '?') {
+        pattern += '[^/]';
+      } else if (char === '[') {
+        const end = glob.indexOf(']', index + 1);
+        if (end === -1) {
+          pattern += '\\[';
+        } else {
+          pattern += `[${glob.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+          index = end;
+        }
+      } else if (char === '{') {
+        braces++;
+        pattern += '(?:';
+      } else if (char === '}' && braces > 0) {
+        braces--;
+        pattern += ')';
+      } else if (char === ',' && braces > 0) {
+        pattern += '|';
+      } else {
+        pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+
+    return new RegExp(`^${pattern}$`);
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+}
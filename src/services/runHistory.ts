@@ -0,0 +1,107 @@
+import { createHash, randomUUID } from 'crypto';
+import type { ExecutionResult, OutputEntry, RunRecord } from '../types';
+
+// Runs kept per file; the oldest are dropped first
+const MAX_RUNS_PER_FILE = 20;
+// What a record keeps of a run, as every record is persisted in the workspace state
+const MAX_ENTRIES_PER_RUN = 500;
+const MAX_TEXT_LENGTH = 10000;
+const STORAGE_KEY = 'ockla.runHistory';
+
+/**
+ * Storage the history persists in, such as the workspace state of the extension
+ */
+export interface HistoryStorage {
+  get<T>(key: string): T | undefined;
+  update(key: string, value: unknown): PromiseLike<void>;
+}
+
+/**
+ * Keeps the runs of each file, newest first, so their output can be reopened and compared.
+ * Files are identified by their URI.
+ *
+ * Records keep the output as text: logged values lose their object inspector trees, long
+ * texts are cut and only the first entries of a run are kept, so the history stays small.
+ */
+export class RunHistory {
+  private readonly runs: Record<string, RunRecord[]>;
+
+  constructor(private readonly storage: HistoryStorage) {
+    this.runs = storage.get<Record<string, RunRecord[]>>(STORAGE_KEY) || {};
+  }
+
+  /**
+   * Records a finished run
+   * @param file - URI of the executed file
+   * @param code - The executed code
+   * @param result - The execution result
+   * @returns The new record
+   */
+  add(file: string, code: string, result: ExecutionResult): RunRecord {
+    const record: RunRecord = {
+      id: randomUUID(),
+      timestamp: Date.now(),
+      codeHash: createHash('sha256').update(code).digest('hex').slice(0, 8),
+      success: result.success,
+      output: this.truncate(result.output),
+      error: result.error,
+      executionTime: result.executionTime,
+      entries: this.toRecordEntries(result.entries || []),
+      dependencies: result.dependencies,
+      missingPackages: result.missingPackages,
+    };
+
+    this.runs[file] = [record, ...(this.runs[file] || [])].slice(0, MAX_RUNS_PER_FILE);
+    void this.storage.update(STORAGE_KEY, this.runs);
+    return record;
+  }
+
+  /**
+   * Gets the recorded runs of a file, newest first
+   * @param file - URI of the file
+   */
+  getRuns(file: string): RunRecord[] {
+    return this.runs[file] || [];
+  }
+
+  /**
+   * Gets a recorded run of a file
+   * @param file - URI of the file
+   * @param id - Id of the run
+   */
+  getRun(file: string, id: string): RunRecord | undefined {
+    return this.getRuns(file).find(run => run.id === id);
+  }
+
+  /**
+   * Forgets the runs of a file
+   * @param file - URI of the file
+   */
+  clear(file: string): void {
+    delete this.runs[file];
+    void this.storage.update(STORAGE_KEY, this.runs);
+  }
+
+  /**
+   * Gets the entries a record keeps of a run: the first ones, as text, with a note of those left out
+   */
+  private toRecordEntries(entries: OutputEntry[]): OutputEntry[] {
+    const kept: OutputEntry[] = entries.slice(0, MAX_ENTRIES_PER_RUN).map(entry => ({
+      ...entry,
+      text: this.truncate(entry.text),
+      preview: this.truncate(entry.preview),
+      values: undefined,
+    }));
+
+    const omitted = entries.length - kept.length;
+    if (omitted > 0) {
+      const text = `${omitted} more ${omitted === 1 ? 'entry was' : 'entries were'} not kept in the history`;
+      kept.push({ level: 'info', text, preview: text, timestamp: entries[entries.length - 1].timestamp });
+    }
+    return kept;
+  }
+
+  private truncate(text: string): string {
+    return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+  }
+}
@@ -0,0 +1,207 @@
+import { performance } from 'perf_hooks';
+import { format } from 'util';
+import type { OutputLevel, OutputPayload, SourcePosition, StackFrame } from '../types';
+
+/**
+ * Where a console call came from and what it carries besides its values
+ */
+export interface ConsoleDetails {
+  position?: SourcePosition;
+  payload?: OutputPayload;
+}
+
+/**
+ * Hooks the console needs from the script runner
+ */
+export interface ConsoleHost {
+  /** Records console output */
+  capture(level: OutputLevel, args: unknown[], details: ConsoleDetails): void;
+  /** Finds the script position that called the console, in the instrumented code */
+  getCallerPosition(): SourcePosition | undefined;
+  /** Gets the stack frames of the script at the console call */
+  getStackFrames(): StackFrame[];
+  /** Converts a value to a single-line text, for table cells and labels */
+  preview(value: unknown): string;
+}
+
+// Label used by count, time and friends when none is given
+const DEFAULT_LABEL = 'default';
+
+/**
+ * The console object of the sandbox, implementing the console API on top of the runner's capture.
+ *
+ * Methods are created as arrow functions so they keep working when detached from the console,
+ * as in `const { log } = console`.
+ */
+export class SandboxConsole {
+  private depth = 0;
+  private readonly counts = new Map<string, number>();
+  private readonly timers = new Map<string, number>();
+
+  constructor(private readonly host: ConsoleHost) { }
+
+  /**
+   * Number of groups the next output is nested in
+   */
+  get groupDepth(): number {
+    return this.depth;
+  }
+
+  /**
+   * Creates the object exposed as `console` in the sandbox
+   */
+  create(): Record<string, (...args: any[]) => void> {
+    return {
+      log: (...args: unknown[]) => this.write('log', args),
+      info: (...args: unknown[]) => this.write('info', args),
+      debug: (...args: unknown[]) => this.write('debug', args),
+      warn: (...args: unknown[]) => this.write('warn', args),
+      error: (...args: unknown[]) => this.write('error', args),
+      dir: (value: unknown) => this.write('log', [value]),
+      dirxml: (...args: unknown[]) => this.write('log', args),
+      table: (data: unknown, columns?: string[]) => this.table(data, columns),
+      group: (...label: unknown[]) => this.group(label, false),
+      groupCollapsed: (...label: unknown[]) => this.group(label, true),
+      groupEnd: () => this.groupEnd(),
+      time: (label: unknown = DEFAULT_LABEL) => this.time(String(label)),
+      timeLog: (label: unknown = DEFAULT_LABEL, ...data: unknown[]) => this.timeLog(String(label), data, false),
+      timeEnd: (label: unknown = DEFAULT_LABEL) => this.timeLog(String(label), [], true),
+      count: (label: unknown = DEFAULT_LABEL) => this.count(String(label)),
+      countReset: (label: unknown = DEFAULT_LABEL) => this.countReset(String(label)),
+      assert: (condition: unknown, ...data: unknown[]) => this.assert(condition, data),
+      trace: (...data: unknown[]) => this.trace(data),
+    };
+  }
+
+  private write(level: OutputLevel, args: unknown[], payload?: OutputPayload): void {
+    // Format specifiers (console.log('%s items', 3)) are applied like Node does
+    const values = typeof args[0] === 'string' && /%[sdifjoOc]/.test(args[0]) ? [format(...args)] : args;
+    this.host.capture(level, values, { position: this.host.getCallerPosition(), payload });
+  }
+
+  private table(data: unknown, columns?: string[]): void {
+    // Like Node, anything that is not an object is simply logged
+    if (data === null || typeof data !== 'object') {
+      this.write('log', [data]);
+      return;
+    }
+
+    const rows = this.getTableRows(data);
+    const valueColumn = 'Values';
+    const keys: string[] = [];
+    let hasPrimitiveRows = false;
+
+    for (const { value } of rows) {
+      if (value !== null && typeof value === 'object') {
+        keys.push(...Object.keys(value).filter(key => !keys.includes(key)));
+      } else {
+        hasPrimitiveRows = true;
+      }
+    }
+
+    const tableColumns = [...(columns || keys), ...(hasPrimitiveRows ? [valueColumn] : [])];
+    const payload: OutputPayload = {
+      type: 'table',
+      columns: tableColumns,
+      rows: rows.map(({ index, value }) => ({
+        index,
+        cells: tableColumns.map(column => {
+          if (value !== null && typeof value === 'object') {
+            return column in value ? this.host.preview((value as Record<string, unknown>)[column]) : '';
+          }
+          return column === valueColumn ? this.host.preview(value) : '';
+        }),
+      })),
+    };
+
+    this.write('log', [data], payload);
+  }
+
+  /**
+   * Lists the rows of a table: entries of maps and sets, elements of arrays, properties of objects
+   */
+  private getTableRows(data: object): { index: string; value: unknown }[] {
+    // Values come from the sandbox realm, so instanceof cannot be used
+    const tag = Object.prototype.toString.call(data);
+
+    if (tag === '[object Map]') {
+      return [...(data as Map<unknown, unknown>).entries()].map(([key, value], index) => ({
+        index: String(index),
+        value: { Key: key, Values: value },
+      }));
+    }
+    if (tag === '[object Set]') {
+      return [...(data as Set<unknown>).values()].map((value, index) => ({ index: String(index), value }));
+    }
+    return Object.keys(data).map(key => ({ index: key, value: (data as Record<string, unknown>)[key] }));
+  }
+
+  private group(label: unknown[], collapsed: boolean): void {
+    const text = label.length > 0 ? label.map(value => this.host.preview(value)).join(' ') : 'console.group';
+    this.write('log', [text], { type: 'group', label: text, collapsed });
+    this.depth++;
+  }
+
+  private groupEnd(): void {
+    if (this.depth === 0) {
+      return;
+    }
+    this.depth--;
+    this.write('log', [], { type: 'groupEnd' });
+  }
+
+  private time(label: string): void {
+    if (this.timers.has(label)) {
+      this.write('warn', [`Timer '${label}' already exists`]);
+      return;
+    }
+    this.timers.set(label, performance.now());
+  }
+
+  private timeLog(label: string, data: unknown[], end: boolean): void {
+    const start = this.timers.get(label);
+    if (start === undefined) {
+      this.write('warn', [`Timer '${label}' does not exist`]);
+      return;
+    }
+
+    if (end) {
+      this.timers.delete(label);
+    }
+
+    const duration = Number((performance.now() - start).toFixed(3));
+    this.write('log', [`${label}: ${duration}ms`, ...data], { type: 'timer', label, duration });
+  }
+
+  private count(label: string): void {
+    const count = (this.counts.get(label) || 0) + 1;
+    this.counts.set(label, count);
+    this.write('log', [`${label}: ${count}`], { type: 'count', label, count });
+  }
+
+  private countReset(label: string): void {
+    if (!this.counts.has(label)) {
+      this.write('warn', [`Count for '${label}' does not exist`]);
+      return;
+    }
+    this.counts.set(label, 0);
+  }
+
+  private assert(condition: unknown, data: unknown[]): void {
+    if (condition) {
+      return;
+    }
+
+    // Like Node, a string first argument is prefixed rather than listed
+    if (typeof data[0] === 'string') {
+      this.write('error', [`Assertion failed: ${data[0]}`, ...data.slice(1)]);
+    } else {
+      this.write('error', data.length > 0 ? ['Assertion failed:', ...data] : ['Assertion failed']);
+    }
+  }
+
+  private trace(data: unknown[]): void {
+    const message = data.length > 0 ? ['Trace:', ...data] : ['Trace'];
+    this.write('log', message, { type: 'trace', frames: this.host.getStackFrames() });
+  }
+}
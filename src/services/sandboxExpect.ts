@@ -0,0 +1,307 @@
+import { inspect, types } from 'util';
+
+/**
+ * A failed expectation, with the values it compared serialized to show their differences
+ */
+export class AssertionError extends Error {
+  constructor(message: string, readonly expected?: string, readonly actual?: string) {
+    super(message);
+    this.name = 'AssertionError';
+  }
+}
+
+/**
+ * What a matcher found
+ */
+interface MatcherOutcome {
+  pass: boolean;
+  /** What the matcher expected, shown after "Expected:"; none for matchers like toBeTruthy */
+  expected?: string;
+  /** What it got instead, shown after "Received:"; the received value by default */
+  received?: string;
+  /** Show the expected and received values side by side when the assertion fails */
+  diff?: boolean;
+}
+
+/**
+ * A matcher: checks the received value against its arguments
+ */
+type Matcher = (received: any, args: any[], context: MatcherContext) => MatcherOutcome;
+
+interface MatcherContext {
+  /** The received value is what a promise settled with */
+  promise?: 'resolves' | 'rejects';
+}
+
+const MATCHERS: Record<string, Matcher> = {
+  toBe: (received, [expected]) => ({
+    pass: Object.is(received, expected),
+    expected: serialize(expected),
+    diff: true,
+  }),
+  toEqual: (received, [expected]) => ({
+    pass: equals(received, expected, false),
+    expected: serialize(expected),
+    diff: true,
+  }),
+  toStrictEqual: (received, [expected]) => ({
+    pass: equals(received, expected, true),
+    expected: serialize(expected),
+    diff: true,
+  }),
+  toMatchObject: (received, [expected]) => ({
+    pass: matchesObject(received, expected),
+    expected: serialize(expected),
+    diff: true,
+  }),
+  toBeTruthy: received => ({ pass: !!received }),
+  toBeFalsy: received => ({ pass: !received }),
+  toBeNull: received => ({ pass: received === null }),
+  toBeUndefined: received => ({ pass: received === undefined }),
+  toBeDefined: received => ({ pass: received !== undefined }),
+  toBeNaN: received => ({ pass: Number.isNaN(received) }),
+  toBeGreaterThan: (received, [expected]) => ({ pass: received > expected, expected: `> ${serialize(expected)}` }),
+  toBeGreaterThanOrEqual: (received, [expected]) => ({ pass: received >= expected, expected: `>= ${serialize(expected)}` }),
+  toBeLessThan: (received, [expected]) => ({ pass: received < expected, expected: `< ${serialize(expected)}` }),
+  toBeLessThanOrEqual: (received, [expected]) => ({ pass: received <= expected, expected: `<= ${serialize(expected)}` }),
+  toBeCloseTo: (received, [expected, digits = 2]) => ({
+    pass: Math.abs(received - expected) < Math.pow(10, -digits) / 2,
+    expected: `${serialize(expected)} (${digits} decimals)`,
+  }),
+  toContain: (received, [item]) => ({
+    pass: typeof received === 'string' ? received.includes(item) : toArray(received).some(value => Object.is(value, item)),
+    expected: `containing ${serialize(item)}`,
+  }),
+  toContainEqual: (received, [item]) => ({
+    pass: toArray(received).some(value => equals(value, item, false)),
+    expected: `containing ${serialize(item)}`,
+  }),
+  toHaveLength: (received, [length]) => ({
+    pass: received?.length === length,
+    expected: `length ${length}`,
+    received: `length ${received?.length}: ${serialize(received)}`,
+  }),
+  toHaveProperty: (received, args) => {
+    const [propertyPath, value] = args;
+    const property = getProperty(received, propertyPath);
+    const name = Array.isArray(propertyPath) ? propertyPath.join('.') : String(propertyPath);
+    return {
+      pass: property.found && (args.length < 2 || equals(property.value, value, false)),
+      expected: args.length < 2 ? `property ${name}` : `property ${name} equal to ${serialize(value)}`,
+    };
+  },
+  toMatch: (received, [pattern]) => ({
+    pass: typeof received === 'string' && (types.isRegExp(pattern) ? new RegExp(pattern).test(received) : received.includes(pattern)),
+    expected: types.isRegExp(pattern) ? `matching ${String(pattern)}` : `containing ${serialize(pattern)}`,
+  }),
+  toBeInstanceOf: (received, [type]) => ({
+    pass: typeof type === 'function' && received instanceof type,
+    expected: `instance of ${type?.name || serialize(type)}`,
+    received: received !== null && typeof received === 'object' ? `instance of ${received.constructor?.name}` : serialize(received),
+  }),
+  toThrow: (received, [expected], context) => {
+    let thrown: { value: unknown } | undefined;
+    if (context.promise === 'rejects') {
+      thrown = { value: received };
+    } else {
+      if (typeof received !== 'function') {
+        return { pass: false, expected: 'a function', received: serialize(received) };
+      }
+      try {
+        received();
+      } catch (err) {
+        thrown = { value: err };
+      }
+    }
+
+    const error = thrown?.value as { message?: unknown } | undefined;
+    const message = typeof error?.message === 'string' ? error.message : String(error);
+    let pass = !!thrown;
+    let description = 'to throw';
+    if (thrown && typeof expected === 'string') {
+      pass = message.includes(expected);
+      description = `to throw an error containing ${serialize(expected)}`;
+    } else if (thrown && types.isRegExp(expected)) {
+      pass = new RegExp(expected).test(message);
+      description = `to throw an error matching ${String(expected)}`;
+    } else if (thrown && typeof expected === 'function') {
+      pass = thrown.value instanceof expected;
+      description = `to throw ${expected.name}`;
+    } else if (thrown && expected !== undefined) {
+      pass = message === (expected as { message?: unknown })?.message;
+      description = `to throw ${serialize(expected)}`;
+    }
+
+    return { pass, expected: description, received: thrown ? `threw ${serialize(thrown.value)}` : 'did not throw' };
+  },
+};
+
+/**
+ * Creates the `expect` function of the sandbox, a subset of the Jest API:
+ * `expect(value).toBe(expected)`, negated with `.not`, and for promises `.resolves` and `.rejects`.
+ *
+ * Values may come from the sandbox realm or from Node (modules loaded by the script), so values
+ * are compared by their structure and tags rather than their prototypes.
+ */
+export function createExpect(): (received: unknown) => Record<string, unknown> {
+  return (received: unknown) => {
+    const build = (not: boolean, promise?: 'resolves' | 'rejects') => {
+      const matchers: Record<string, (...args: unknown[]) => unknown> = {};
+      for (const [name, matcher] of Object.entries(MATCHERS)) {
+        const hint = `expect(received).${promise ? `${promise}.` : ''}${not ? 'not.' : ''}${name}`;
+        matchers[name] = (...args: unknown[]) => promise
+          ? settle(received, promise, hint).then(value => check(hint, matcher, value, args, not, { promise }))
+          : check(hint, matcher, received, args, not, {});
+      }
+      return matchers;
+    };
+
+    return {
+      ...build(false),
+      not: build(true),
+      resolves: { ...build(false, 'resolves'), not: build(true, 'resolves') },
+      rejects: { ...build(false, 'rejects'), not: build(true, 'rejects') },
+    };
+  };
+}
+
+/**
+ * Runs a matcher, throwing an AssertionError when the expectation fails
+ */
+function check(hint: string, matcher: Matcher, received: unknown, args: unknown[], not: boolean, context: MatcherContext): void {
+  const outcome = matcher(received, args, context);
+  if (outcome.pass !== not) {
+    return;
+  }
+
+  const actual = outcome.received ?? serialize(received);
+  const lines = [`${hint}(${args.length > 0 ? 'expected' : ''})`, ''];
+  if (outcome.expected !== undefined) {
+    lines.push(`Expected: ${not ? 'not ' : ''}${outcome.expected}`);
+  }
+  lines.push(`Received: ${actual}`);
+
+  // Negated expectations failed because the values are alike, so there is nothing to compare
+  const diff = outcome.diff && !not;
+  throw new AssertionError(lines.join('\n'), diff ? outcome.expected : undefined, diff ? actual : undefined);
+}
+
+/**
+ * Waits for the promise of `.resolves` or `.rejects`, failing if it settles the other way
+ * @returns The value it resolved with, or the reason it was rejected with
+ */
+async function settle(promise: unknown, expected: 'resolves' | 'rejects', hint: string): Promise<unknown> {
+  let outcome: { resolved: boolean; value: unknown };
+  try {
+    outcome = { resolved: true, value: await promise };
+  } catch (err) {
+    outcome = { resolved: false, value: err };
+  }
+
+  if (outcome.resolved !== (expected === 'resolves')) {
+    const received = outcome.resolved ? `resolved with ${serialize(outcome.value)}` : `rejected with ${serialize(outcome.value)}`;
+    throw new AssertionError(`${hint}()\n\nReceived promise ${received}`);
+  }
+  return outcome.value;
+}
+
+/**
+ * Serializes a value for messages, diffs and snapshots; object keys are sorted so equal values read the same
+ */
+export function serialize(value: unknown): string {
+  return inspect(value, { depth: 6, sorted: true, breakLength: 60 });
+}
+
+/**
+ * Compares two values by their structure. Loose comparisons, as in toEqual, ignore properties
+ * that are undefined; strict ones also compare the class names of objects and the sparseness of arrays
+ */
+function equals(a: any, b: any, strict: boolean, seen = new Map<unknown, unknown>()): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+
+  // Classes compare by name, as those of the sandbox and of Node are different objects
+  const tag = Object.prototype.toString.call(a);
+  if (tag !== Object.prototype.toString.call(b) || (strict && a.constructor?.name !== b.constructor?.name)) {
+    return false;
+  }
+  // Cyclic structures are equal where their cycles match
+  if (seen.get(a) === b) {
+    return true;
+  }
+  seen.set(a, b);
+
+  if (types.isDate(a)) {
+    return Object.is(a.getTime(), b.getTime());
+  }
+  if (types.isRegExp(a)) {
+    return String(a) === String(b);
+  }
+  if (types.isNativeError(a) && (a.name !== b.name || a.message !== b.message)) {
+    return false;
+  }
+  if (types.isBoxedPrimitive(a)) {
+    return Object.is(a.valueOf(), b.valueOf());
+  }
+  if (types.isMap(a)) {
+    return a.size === b.size && [...a].every(([key, value]) => b.has(key) && equals(value, b.get(key), strict, seen));
+  }
+  if (types.isSet(a)) {
+    return a.size === b.size && [...a].every(value => b.has(value) || [...b].some(other => equals(value, other, strict, seen)));
+  }
+  if (Array.isArray(a) && a.length !== b.length) {
+    return false;
+  }
+
+  const keys = (value: object) => strict
+    ? Reflect.ownKeys(value).filter(key => Object.prototype.propertyIsEnumerable.call(value, key))
+    : Object.keys(value).filter(key => (value as Record<string, unknown>)[key] !== undefined);
+  const keysA = keys(a);
+  const keysB = keys(b);
+  return keysA.length === keysB.length
+    && keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && equals(a[key], b[key], strict, seen));
+}
+
+/**
+ * Checks if a value has the properties of an object, as in toMatchObject: objects may have
+ * properties the expected one leaves out, at any depth; arrays must match element by element
+ */
+function matchesObject(received: any, expected: any): boolean {
+  if (expected === null || typeof expected !== 'object' || received === null || typeof received !== 'object') {
+    return equals(received, expected, false);
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(received) && received.length === expected.length
+      && expected.every((value, index) => matchesObject(received[index], value));
+  }
+  if (types.isDate(expected) || types.isRegExp(expected) || types.isMap(expected) || types.isSet(expected)) {
+    return equals(received, expected, false);
+  }
+  return Object.keys(expected).every(key => key in received && matchesObject(received[key], expected[key]));
+}
+
+/**
+ * Gets a property by its path, such as 'a.b[0].c' or ['a', 'b']
+ */
+function getProperty(value: any, propertyPath: string | string[]): { found: boolean; value?: unknown } {
+  const keys = Array.isArray(propertyPath) ? propertyPath : String(propertyPath).split(/\.|\[(\d+)\]/).filter(Boolean);
+  let current = value;
+  for (const key of keys) {
+    if (current === null || current === undefined || !(key in Object(current))) {
+      return { found: false };
+    }
+    current = current[key];
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * Lists the values of an iterable; anything else has none
+ */
+function toArray(value: any): unknown[] {
+  return value !== null && value !== undefined && typeof value[Symbol.iterator] === 'function' ? [...value] : [];
+}
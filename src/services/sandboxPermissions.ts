@@ -0,0 +1,315 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { AccessRules, PermissionPolicy } from '../types';
+
+/**
+ * Thrown when a script does something its permissions policy does not allow
+ */
+export class PermissionDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * Policy of runs that have none configured: everything is allowed
+ */
+export const DEFAULT_PERMISSIONS: PermissionPolicy = {
+  fileSystem: { allow: ['*'], deny: [] },
+  network: { allow: ['*'], deny: [] },
+  childProcess: true,
+  nativeAddons: true,
+  env: ['*'],
+};
+
+// Builtins that start processes or threads
+const PROCESS_MODULES = ['node:child_process', 'node:cluster', 'node:worker_threads'];
+const CHILD_PROCESS_FUNCTIONS = ['spawn', 'spawnSync', 'exec', 'execSync', 'execFile', 'execFileSync', 'fork'];
+// Builtins whose functions take file system paths
+const FILE_SYSTEM_MODULES = ['node:fs', 'node:fs/promises'];
+// File system functions taking a second path, such as the destination of a copy
+const TWO_PATH_FUNCTIONS = /^(copyFile|cp|rename|link|symlink)(Sync)?$/;
+
+/**
+ * Enforces the permissions policy of a run in the execution worker.
+ *
+ * Modules required by the script get the file system guarded, and requiring modules that
+ * start processes fails. Network connections, processes started by packages and native
+ * addons are blocked for the whole worker once installed. Environment variables are
+ * filtered when the worker is created, as the worker gets its own copy of them.
+ *
+ * This keeps scratch scripts from touching what they should not by accident; the VM
+ * context is not a security boundary against code written to get around it.
+ */
+export class SandboxPermissions {
+  // Guarded copies of the builtins, so every require of a module gets the same object
+  private readonly guarded = new Map<string, any>();
+
+  /**
+   * @param policy - What the script is allowed to do
+   * @param workingDirectory - Directory relative file system entries start at
+   */
+  constructor(
+    private readonly policy: PermissionPolicy,
+    private readonly workingDirectory: string
+  ) { }
+
+  /**
+   * Checks that the script may load a module
+   * @param resolved - The resolved module, a builtin name (node:*) or an absolute path
+   * @throws PermissionDeniedError if the module is not allowed
+   */
+  checkModule(resolved: string): void {
+    if (!this.policy.childProcess && PROCESS_MODULES.includes(resolved)) {
+      throw this.deny(`Loading ${resolved} is`, 'childProcess');
+    }
+    if (!this.policy.nativeAddons && resolved.endsWith('.node')) {
+      throw this.deny(`Loading the native addon ${resolved} is`, 'nativeAddons');
+    }
+  }
+
+  /**
+   * Gets the exports of a module as the script may use them
+   * @param resolved - The resolved module, a builtin name (node:*) or an absolute path
+   * @param exports - The module exports
+   * @returns A guarded copy of the file system modules, or the exports themselves
+   */
+  guardModule(resolved: string, exports: any): any {
+    if (!FILE_SYSTEM_MODULES.includes(resolved) || this.allowsAll(this.policy.fileSystem)) {
+      return exports;
+    }
+
+    let guarded = this.guarded.get(resolved);
+    if (!guarded) {
+      guarded = this.guardFileSystem(exports, resolved === 'node:fs/promises');
+      this.guarded.set(resolved, guarded);
+    }
+    return guarded;
+  }
+
+  /**
+   * Checks if the script may access a file or directory
+   * @param target - The path, relative to the working directory or absolute
+   */
+  allowsPath(target: string): boolean {
+    const rules = this.policy.fileSystem;
+    const resolved = this.normalizePath(target);
+    const matches = (entry: string) => {
+      if (entry === '*') {
+        return true;
+      }
+      const prefix = this.normalizePath(entry);
+      return resolved === prefix || resolved.startsWith(prefix.endsWith(path.sep) ? prefix : prefix + path.sep);
+    };
+    return !rules.deny.some(matches) && rules.allow.some(matches);
+  }
+
+  /**
+   * Checks if the script may connect to a host
+   * @param host - The host name or IP address
+   */
+  allowsHost(host: string): boolean {
+    const rules = this.policy.network;
+    const name = host.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+    const matches = (pattern: string) => {
+      const entry = pattern.toLowerCase();
+      return entry === '*' || entry === name || (entry.startsWith('*.') && name.endsWith(entry.substring(1)));
+    };
+    return !rules.deny.some(matches) && rules.allow.some(matches);
+  }
+
+  /**
+   * Keeps the environment variables the script may see
+   * @param env - All environment variables
+   * @returns The allowed ones
+   */
+  filterEnv(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+    const allowed = (name: string) => this.policy.env.some(pattern =>
+      pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern
+    );
+    return Object.fromEntries(Object.entries(env).filter(([name]) => allowed(name)));
+  }
+
+  /**
+   * Wraps fetch so requests to hosts that are not allowed fail with a clear message
+   * @param fetchFn - The fetch function
+   */
+  guardFetch<T extends (...args: any[]) => Promise<any>>(fetchFn: T): T {
+    if (this.allowsAll(this.policy.network)) {
+      return fetchFn;
+    }
+
+    return ((input: any, ...rest: any[]) => {
+      const url = typeof input === 'string' ? input : input?.url ?? input?.href ?? String(input);
+      let host: string | undefined;
+      try {
+        host = new URL(url).hostname;
+      } catch {
+        // Invalid URLs are left to fetch to report
+      }
+      if (host !== undefined && !this.allowsHost(host)) {
+        return Promise.reject(this.deny(`Connecting to ${host} is`, 'network'));
+      }
+      return fetchFn(input, ...rest);
+    }) as T;
+  }
+
+  /**
+   * Blocks network connections, processes and native addons the policy does not allow,
+   * for everything running in the worker, packages loaded by the script included
+   */
+  install(): void {
+    if (!this.allowsAll(this.policy.network)) {
+      this.guardConnections();
+    }
+
+    if (!this.policy.childProcess) {
+      const childProcess = require('child_process');
+      for (const name of CHILD_PROCESS_FUNCTIONS) {
+        childProcess[name] = () => {
+          throw this.deny(`Starting a process (child_process.${name}) is`, 'childProcess');
+        };
+      }
+      require('cluster').fork = () => {
+        throw this.deny('Starting a process (cluster.fork) is', 'childProcess');
+      };
+      // A function rather than an arrow function, so `new Worker()` reports the denial too
+      const permissions = this;
+      require('worker_threads').Worker = function Worker() {
+        throw permissions.deny('Starting a worker thread is', 'childProcess');
+      };
+      // ES module imports of the builtins see the patched functions too
+      require('module').syncBuiltinESMExports();
+    }
+
+    if (!this.policy.nativeAddons) {
+      process.dlopen = (_module: object, filename: string) => {
+        throw this.deny(`Loading the native addon ${filename} is`, 'nativeAddons');
+      };
+    }
+  }
+
+  /**
+   * Makes sockets connecting to hosts that are not allowed fail, as they fail to connect:
+   * with an error event, which http requests and fetch report as their own error
+   */
+  private guardConnections(): void {
+    const net = require('net');
+    const connect = net.Socket.prototype.connect;
+    const permissions = this;
+
+    net.Socket.prototype.connect = function (this: any, ...args: any[]) {
+      const host = permissions.getConnectionHost(args);
+      if (host !== undefined && !permissions.allowsHost(host)) {
+        const error = permissions.deny(`Connecting to ${host} is`, 'network');
+        process.nextTick(() => this.destroy(error));
+        return this;
+      }
+      return connect.apply(this, args);
+    };
+  }
+
+  /**
+   * Finds the host of the arguments of socket.connect(): options, [options, callback]
+   * as passed by net.connect(), or a port and host
+   * @returns The host, or undefined for IPC connections
+   */
+  private getConnectionHost(args: any[]): string | undefined {
+    const first = Array.isArray(args[0]) ? args[0][0] : args[0];
+    if (first && typeof first === 'object') {
+      return first.path ? undefined : String(first.host || 'localhost');
+    }
+    if (typeof first === 'string' && !/^\d+$/.test(first)) {
+      // A pipe or socket file
+      return undefined;
+    }
+    return typeof args[1] === 'string' ? args[1] : 'localhost';
+  }
+
+  /**
+   * Copies a file system module, checking the paths passed to its functions
+   */
+  private guardFileSystem(fileSystem: Record<string, any>, promised = false): Record<string, any> {
+    const guarded: Record<string, any> = {};
+
+    for (const [name, value] of Object.entries(fileSystem)) {
+      if (name === 'promises' && value && typeof value === 'object') {
+        guarded.promises = this.guardFileSystem(value, true);
+      } else if (typeof value === 'function' && /^[a-z]/.test(name)) {
+        // Classes such as ReadStream are left as they are
+        guarded[name] = this.guardFunction(name, value, promised);
+      } else {
+        guarded[name] = value;
+      }
+    }
+
+    return guarded;
+  }
+
+  /**
+   * Wraps a file system function, checking its path arguments before calling it
+   * @param promised - Whether the function returns a promise, which is rejected on denial
+   */
+  private guardFunction(name: string, fn: (...args: any[]) => any, promised: boolean): (...args: any[]) => any {
+    const pathArguments = TWO_PATH_FUNCTIONS.test(name) ? 2 : 1;
+    const guarded = (...args: any[]) => {
+      for (const arg of args.slice(0, pathArguments)) {
+        const target = this.toPath(arg);
+        if (target !== undefined && !this.allowsPath(target)) {
+          const error = this.deny(`Access to ${this.normalizePath(target)} is`, 'fileSystem');
+          if (promised) {
+            return Promise.reject(error);
+          }
+          throw error;
+        }
+      }
+      return fn(...args);
+    };
+    // Properties such as realpath.native
+    return Object.assign(guarded, fn);
+  }
+
+  /**
+   * Reads a path argument: a string, a Buffer or a file URL
+   * @returns The path, or undefined for other arguments such as file descriptors
+   */
+  private toPath(arg: unknown): string | undefined {
+    if (typeof arg === 'string') {
+      return arg;
+    }
+    if (Buffer.isBuffer(arg)) {
+      return arg.toString();
+    }
+    // URLs may come from the VM context, another realm
+    const url = arg as { href?: unknown; protocol?: unknown } | null;
+    if (url && typeof url === 'object' && url.protocol === 'file:' && typeof url.href === 'string') {
+      return fileURLToPath(url.href);
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves a path from the working directory; paths compare case-insensitively on Windows
+   */
+  private normalizePath(target: string): string {
+    const resolved = path.resolve(this.workingDirectory, target);
+    return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+  }
+
+  /**
+   * Checks if access rules let everything through, so nothing has to be guarded
+   */
+  private allowsAll(rules: AccessRules): boolean {
+    return rules.allow.includes('*') && rules.deny.length === 0;
+  }
+
+  /**
+   * Creates the error of a denied action, naming the setting that denies it
+   * @param action - What was denied, completed with "not allowed"
+   * @param setting - The entry of the policy
+   */
+  private deny(action: string, setting: keyof PermissionPolicy): PermissionDeniedError {
+    return new PermissionDeniedError(`${action} not allowed by the sandbox permissions (ockla.permissions.${setting})`);
+  }
+}
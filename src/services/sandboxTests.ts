@@ -0,0 +1,178 @@
+import { performance } from 'perf_hooks';
+import { inspect, types } from 'util';
+import { AssertionError, createExpect } from './sandboxExpect';
+import type { OutputLevel, OutputPayload, SourcePosition, TestResult } from '../types';
+
+/**
+ * Where a test was declared, its result, and the error that failed it
+ */
+export interface TestDetails {
+  position?: SourcePosition;
+  payload: OutputPayload;
+  error?: unknown;
+}
+
+/**
+ * Hooks the test functions need from the script runner
+ */
+export interface TestHost {
+  /** Records the outcome of a test */
+  capture(level: OutputLevel, args: unknown[], details: TestDetails): void;
+  /** Finds the script position that called a test function, in the instrumented code */
+  getCallerPosition(): SourcePosition | undefined;
+}
+
+/**
+ * A test declared by the script, waiting to run
+ */
+interface DeclaredTest {
+  name: string[];
+  fn?: (done?: (err?: unknown) => void) => unknown;
+  skip: boolean;
+  position?: SourcePosition;
+}
+
+// Marks of the outcomes of tests in their output line
+const STATUS_MARKS: Record<TestResult['status'], string> = {
+  passed: '✓',
+  failed: '✗',
+  skipped: '○',
+};
+
+/**
+ * The test functions of the sandbox: `describe`, `it` and `test` (with `.skip`) and `expect`.
+ *
+ * Tests are declared while the script runs, and run one after the other once its top-level
+ * code has finished, so they can use everything the script declares. Each result is captured
+ * as an output entry at the line of its test.
+ */
+export class SandboxTests {
+  private tests: DeclaredTest[] = [];
+  // Names of the describe blocks being declared, outermost first
+  private readonly suites: string[] = [];
+  // Number of those blocks that are skipped
+  private skippedSuites = 0;
+
+  constructor(private readonly host: TestHost) { }
+
+  /**
+   * Creates the globals exposed in the sandbox
+   */
+  create(): Record<string, unknown> {
+    const it = Object.assign(
+      (name: unknown, fn?: DeclaredTest['fn']) => this.declare(name, fn, false),
+      { skip: (name: unknown, fn?: DeclaredTest['fn']) => this.declare(name, fn, true) }
+    );
+    const describe = Object.assign(
+      (name: unknown, fn: () => void) => this.describe(name, fn, false),
+      { skip: (name: unknown, fn: () => void) => this.describe(name, fn, true) }
+    );
+    return { describe, it, test: it, expect: createExpect() };
+  }
+
+  /**
+   * Forgets the tests declared by a previous run
+   */
+  reset(): void {
+    this.tests = [];
+    this.suites.length = 0;
+    this.skippedSuites = 0;
+  }
+
+  /**
+   * Runs the declared tests in order, capturing their results
+   * @param filter - Names of the describe blocks and test to run, outermost first; all the tests when missing
+   */
+  async run(filter?: string[]): Promise<void> {
+    const tests = this.tests;
+    this.tests = [];
+
+    for (const test of tests) {
+      if (filter && !filter.every((name, index) => test.name[index] === name)) {
+        continue;
+      }
+
+      if (test.skip || !test.fn) {
+        this.report(test, { name: test.name, status: 'skipped' });
+        continue;
+      }
+
+      const start = performance.now();
+      try {
+        await this.call(test.fn);
+        this.report(test, { name: test.name, status: 'passed', duration: Math.round(performance.now() - start) });
+      } catch (err) {
+        const duration = Math.round(performance.now() - start);
+        const result: TestResult = { name: test.name, status: 'failed', duration, message: this.getMessage(err) };
+        if (err instanceof AssertionError && err.expected !== undefined) {
+          result.expected = err.expected;
+          result.actual = err.actual;
+        }
+        this.report(test, result, err);
+      }
+    }
+  }
+
+  private describe(name: unknown, fn: () => void, skip: boolean): void {
+    this.suites.push(this.getName(name));
+    this.skippedSuites += skip ? 1 : 0;
+    try {
+      fn();
+    } finally {
+      this.suites.pop();
+      this.skippedSuites -= skip ? 1 : 0;
+    }
+  }
+
+  private declare(name: unknown, fn: DeclaredTest['fn'], skip: boolean): void {
+    this.tests.push({
+      name: [...this.suites, this.getName(name)],
+      fn,
+      skip: skip || this.skippedSuites > 0,
+      position: this.host.getCallerPosition(),
+    });
+  }
+
+  /**
+   * Calls a test function; those taking a parameter end when they call it, as in Mocha and Jest
+   */
+  private call(fn: NonNullable<DeclaredTest['fn']>): Promise<unknown> {
+    if (fn.length === 0) {
+      return Promise.resolve(fn());
+    }
+    return new Promise((resolve, reject) => {
+      fn(err => err === undefined || err === null ? resolve(undefined) : reject(err));
+    });
+  }
+
+  private report(test: DeclaredTest, result: TestResult, error?: unknown): void {
+    const duration = result.duration !== undefined ? ` (${result.duration}ms)` : '';
+    const title = `${STATUS_MARKS[result.status]} ${result.name.join(' › ')}${duration}`;
+    this.host.capture(
+      result.status === 'failed' ? 'error' : 'log',
+      [result.message ? `${title}\n${result.message}` : title],
+      { position: test.position, payload: { type: 'test', result }, error }
+    );
+  }
+
+  /**
+   * Names describe blocks and tests named after a function or class by it
+   */
+  private getName(name: unknown): string {
+    return typeof name === 'function' ? name.name : String(name);
+  }
+
+  /**
+   * Describes why a test failed: the message of assertions, the class and message of other errors
+   */
+  private getMessage(err: unknown): string {
+    if (err instanceof AssertionError) {
+      return err.message;
+    }
+    // Errors thrown inside the VM come from another realm, so instanceof Error does not apply
+    const error = err as { name?: unknown; message?: unknown } | null;
+    return types.isNativeError(err) || typeof error?.message === 'string'
+      ? `${String(error!.name ?? 'Error')}: ${String(error!.message)}`
+      : `Thrown: ${inspect(err)}`;
+  }
+}
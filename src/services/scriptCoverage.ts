@@ -0,0 +1,109 @@
+import { Session } from 'inspector';
+import type { Profiler } from 'inspector';
+import type { CapturedCoverage } from './workerProtocol';
+import type { SourcePosition } from '../types';
+
+// Lines without statements of their own: closing brackets, and the start of comments
+const NO_CODE_PATTERN = /^([\]}),;]+$|\/\/|\/\*|\*)/;
+
+/**
+ * Collects the code coverage of runs with V8's precise coverage, through an inspector
+ * session of the worker.
+ *
+ * Coverage has to be started before the script is compiled, so V8 adds counters to its blocks.
+ * V8 reports the ranges of each function with the times they ran: the first one is the whole
+ * function, the others are blocks inside it that ran a different number of times.
+ */
+export class ScriptCoverage {
+  private session: Session | undefined;
+
+  /**
+   * Starts counting; taking the coverage resets the counts and stops it
+   */
+  async start(): Promise<void> {
+    if (!this.session) {
+      this.session = new Session();
+      this.session.connect();
+      await this.post('Profiler.enable');
+    }
+    await this.post('Profiler.startPreciseCoverage', { callCount: true, detailed: true });
+  }
+
+  /**
+   * Takes the counts of a script since coverage was started, and stops counting
+   * @param code - The code of the script
+   * @param scriptFilename - File name the script was compiled with
+   * @param lineOffset - Lines added before the user code, which are left out
+   */
+  async take(code: string, scriptFilename: string, lineOffset: number): Promise<CapturedCoverage> {
+    const { result } = await this.post<Profiler.TakePreciseCoverageReturnType>('Profiler.takePreciseCoverage');
+    await this.post('Profiler.stopPreciseCoverage');
+    const functions = result.find(script => script.url === scriptFilename)?.functions || [];
+    return this.count(code, functions, lineOffset);
+  }
+
+  /**
+   * Works out the counts of the lines and blocks of a script from the ranges V8 reported
+   * @param code - The code of the script
+   * @param functions - Coverage of the functions of the script
+   * @param lineOffset - Lines added before the user code, which are left out along with the last line
+   */
+  count(code: string, functions: Profiler.FunctionCoverage[], lineOffset: number): CapturedCoverage {
+    const lines = code.split('\n');
+    const lineStarts: number[] = [];
+    lines.reduce((offset, line) => {
+      lineStarts.push(offset);
+      return offset + line.length + 1;
+    }, 0);
+
+    // The last line is the call of the async wrapper
+    const isUserLine = (index: number) => index >= lineOffset && index < lines.length - 1;
+    const toPosition = (offset: number): SourcePosition => {
+      let index = lineStarts.length - 1;
+      while (index > 0 && lineStarts[index] > offset) {
+        index--;
+      }
+      return { line: index + 1 - lineOffset, column: offset - lineStarts[index] + 1 };
+    };
+
+    // Ranges are nested, so the count of an offset is that of the smallest range around it
+    const ranges = functions.flatMap(fn => fn.ranges);
+    const countAt = (offset: number) => ranges
+      .filter(range => range.startOffset <= offset && offset < range.endOffset)
+      .reduce<Profiler.CoverageRange | undefined>(
+        (innermost, range) => !innermost || range.endOffset - range.startOffset < innermost.endOffset - innermost.startOffset
+          ? range
+          : innermost,
+        undefined
+      )?.count ?? 0;
+
+    const coverage: CapturedCoverage = { lines: [], branches: [] };
+    lines.forEach((line, index) => {
+      const column = line.search(/\S/);
+      if (isUserLine(index) && column !== -1 && !NO_CODE_PATTERN.test(line.slice(column))) {
+        coverage.lines.push({
+          position: { line: index + 1 - lineOffset, column: column + 1 },
+          count: countAt(lineStarts[index] + column),
+        });
+      }
+    });
+
+    for (const fn of functions) {
+      for (const range of fn.ranges.slice(1)) {
+        const position = toPosition(range.startOffset);
+        if (isUserLine(position.line - 1 + lineOffset)) {
+          coverage.branches.push({ position, count: range.count });
+        }
+      }
+    }
+    coverage.branches.sort((a, b) => a.position.line - b.position.line || a.position.column - b.position.column);
+
+    return coverage;
+  }
+
+  private post<T = void>(method: string, params?: object): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.session!.post(method, params, (err, result) => err ? reject(err) : resolve(result as T));
+    });
+  }
+}
@@ -0,0 +1,573 @@
+import { Script, createContext } from 'vm';
+import type { Context } from 'vm';
+import * as path from 'path';
+import { inspect, types } from 'util';
+import { AUTO_LOG_FUNCTION } from './instrumenter';
+import { IMPORT_FUNCTION, IMPORT_META } from './moduleTransformer';
+import { ModuleLoader } from './moduleLoader';
+import { AsyncTracker } from './asyncTracker';
+import { SandboxConsole } from './sandboxConsole';
+import { SandboxPermissions } from './sandboxPermissions';
+import { SandboxTests } from './sandboxTests';
+import { ScriptCoverage } from './scriptCoverage';
+import { serialize } from './sandboxExpect';
+import { ValueInspector } from './valueInspector';
+import type { TypeScriptCompiler } from './typeScriptCompiler';
+import type { CapturedOutput, WorkerInput, WorkerMessage } from './workerProtocol';
+import type { ErrorDetails, OutputLevel, ScriptLanguage, SourcePosition, StackFrame } from '../types';
+
+// Causes listed below an error before giving up, as a cause can point back to the error
+const MAX_CAUSE_DEPTH = 5;
+// How often a session run checks whether it has anything pending left, in ms
+const IDLE_CHECK_INTERVAL = 10;
+
+/**
+ * Runs instrumented code in a VM context and reports what it captures.
+ *
+ * Used by the execution worker, so a runaway script can be killed along with its thread,
+ * and the run ends when the thread runs out of work. Session workers keep one runner, whose
+ * context is shared by all their runs; the project files their runs import are loaded again
+ * when they change. Tests declared by the script run once its top-level code has finished.
+ * Runs may count how many times their code runs, which is reported once they are over.
+ * Values are turned into text and inspector trees here, as only plain data can leave the worker.
+ */
+export class ScriptRunner {
+  private readonly inspector = new ValueInspector();
+  private readonly coverage = new ScriptCoverage();
+
+  // VM context of the runs; session workers keep it, with the variables their runs declared
+  private context: Context | undefined;
+  private sandboxConsole: SandboxConsole | undefined;
+  private sandboxTests: SandboxTests | undefined;
+  private moduleLoader: ModuleLoader | undefined;
+  // Whether the globals and preload scripts are set up in the context
+  private contextReady = false;
+  // Snapshots without a name taken by the run, which numbers them
+  private snapshotCount = 0;
+  // The run in progress, which captured values are reported to
+  private input!: WorkerInput;
+  private post: (message: WorkerMessage) => void = () => undefined;
+
+  /**
+   * Runs the code of a worker input
+   * @param input - The code and its execution options
+   * @param post - Receives the messages for the executor
+   */
+  async run(input: WorkerInput, post: (message: WorkerMessage) => void): Promise<void> {
+    this.input = input;
+    this.post = post;
+
+    try {
+      if (this.context) {
+        this.moduleLoader!.reloadChangedFiles();
+      } else {
+        this.context = this.createSandbox(input);
+      }
+      this.sandboxTests!.reset();
+      this.snapshotCount = 0;
+      // Counting has to start before the script is compiled
+      if (input.coverage) {
+        await this.coverage.start();
+      }
+      const script = new Script(input.code, { filename: input.scriptFilename });
+
+      // Everything created from here on belongs to the script
+      const tracker = new AsyncTracker(stack => this.findScriptPosition(stack, input));
+      tracker.start();
+      post({ type: 'started' });
+
+      // A session sets up its context on its first run, and again after a failed setup
+      if (!this.contextReady) {
+        await this.setUpContext(this.context, input);
+        this.contextReady = true;
+      }
+
+      const result = script.runInContext(this.context, {
+        timeout: input.timeout,
+      });
+
+      // Wait for the async function to complete (if it returns a promise)
+      if (result && result.then && typeof result.then === 'function') {
+        try {
+          await result;
+        } catch (err) {
+          // Promise rejection handled here
+          this.captureError(err);
+        }
+      }
+
+      // Tests declared by the script run once everything they may use is declared
+      await this.sandboxTests!.run(input.testFilter);
+
+      post({ type: 'settled', dependencies: this.moduleLoader!.getDependencies() });
+      this.waitForPendingOperations(tracker, input, post);
+    } catch (err) {
+      post({
+        type: 'failed',
+        message: this.getMessage(err),
+        position: this.getErrorPosition(err, input),
+        error: this.describeError(err, input),
+        dependencies: this.moduleLoader?.getDependencies(),
+      });
+    }
+  }
+
+  /**
+   * Injects the configured globals into the context, then runs the preload scripts and modules,
+   * with the time limit of the run
+   * @throws Error naming the global or preload entry that failed, with the error as its cause
+   */
+  private async setUpContext(context: Context, input: WorkerInput): Promise<void> {
+    const loader = this.moduleLoader!;
+
+    for (const [name, specifier] of Object.entries(input.globals || {})) {
+      try {
+        const namespace = await loader.import(specifier);
+        // Modules without a default export are injected as their namespace
+        context[name] = 'default' in namespace ? namespace.default : namespace;
+      } catch (err) {
+        throw new Error(`Global ${name} could not be loaded from ${specifier}: ${this.getMessage(err)}`, { cause: err });
+      }
+    }
+
+    for (const entry of input.preload || []) {
+      const name = entry.type === 'script' ? entry.path : entry.specifier;
+      try {
+        if (entry.type === 'module') {
+          await loader.import(entry.specifier);
+          continue;
+        }
+
+        // Imports of the script are resolved from its own file
+        const fileLoader = loader.createLoader(entry.path);
+        const run = new Script(entry.code, { filename: entry.path }).runInContext(context, { timeout: input.timeout });
+        await run(
+          (specifier: string, importOptions?: ImportCallOptions) => fileLoader.import(specifier, importOptions),
+          fileLoader.createImportMeta(),
+          fileLoader.createRequire(),
+          entry.path,
+          path.dirname(entry.path)
+        );
+      } catch (err) {
+        throw new Error(`Preload ${name} failed: ${this.getMessage(err)}`, { cause: err });
+      }
+    }
+  }
+
+  /**
+   * Reports what the script still has pending when the async timeout is up.
+   *
+   * The worker of a single run exits by itself once its event loop is idle. A session worker
+   * stays alive, so it reports when nothing the run started is pending anymore instead.
+   * The timers are unreferenced so they do not keep the worker alive themselves, except the
+   * idle check of runs collecting coverage, which is sent once the run is over; it is not
+   * tracked, so it does not count as pending work of the script.
+   */
+  private waitForPendingOperations(tracker: AsyncTracker, input: WorkerInput, post: (message: WorkerMessage) => void): void {
+    const finish = (message: WorkerMessage) => {
+      clearTimeout(timeout);
+      clearInterval(idleCheck);
+      tracker.stop();
+      if (!input.coverage) {
+        post(message);
+        return;
+      }
+      // The run ends even when its coverage cannot be taken
+      this.coverage.take(input.code, input.scriptFilename, input.wrapperLineOffset)
+        .then(coverage => post({ type: 'coverage', coverage }), () => undefined)
+        .then(() => post(message));
+    };
+
+    const timeout = setTimeout(() => finish({
+      type: 'pending',
+      operations: tracker.getPendingOperations(),
+      promises: tracker.getPendingPromiseCount(),
+    }), input.asyncTimeout).unref();
+
+    const idleCheck = input.session || input.coverage
+      ? tracker.untracked(() => setInterval(() => {
+        if (tracker.getPendingOperations().length === 0) {
+          finish({ type: 'finished' });
+        }
+      }, IDLE_CHECK_INTERVAL))
+      : undefined;
+    if (!input.coverage) {
+      idleCheck?.unref();
+    }
+  }
+
+  /**
+   * Sends a captured value, tagged with where it came from and the console group it is in
+   */
+  private capture(
+    level: OutputLevel,
+    args: any[],
+    details: Pick<CapturedOutput, 'autoLogLine' | 'position' | 'thrown' | 'payload' | 'error'> = {}
+  ): void {
+    // Thrown errors are shown as their message, without an inspector tree
+    const values = details.thrown ? undefined : args.map(arg => this.inspector.inspect(arg));
+    this.post({
+      type: 'output',
+      output: {
+        level,
+        text: args.map(arg => this.stringify(arg)).join(' '),
+        preview: args.map((arg, index) => this.preview(arg, values?.[index])).join(' '),
+        timestamp: Date.now(),
+        depth: this.sandboxConsole?.groupDepth,
+        values,
+        ...details,
+      },
+    });
+  }
+
+  /**
+   * Reports an error thrown by the script, at the position it was thrown from
+   */
+  private captureError(err: unknown): void {
+    const error = this.describeError(err, this.input);
+    const message = error.name ? `${error.name}: ${error.message}` : error.message;
+    this.capture('error', [message], { position: this.getErrorPosition(err, this.input), thrown: true, error });
+  }
+
+  /**
+   * Creates the VM context the script runs in, with the console, module loading and Node globals
+   * @param input - The first run in the context
+   */
+  private createSandbox(input: WorkerInput): Context {
+    const sandboxConsole = new SandboxConsole({
+      capture: (level, args, details) => this.capture(level, args, details),
+      getCallerPosition: () => this.getCallerPosition(this.input),
+      getStackFrames: () => this.getStackFrames(this.input),
+      preview: value => this.preview(value),
+    });
+    this.sandboxConsole = sandboxConsole;
+    const sandboxTests = new SandboxTests({
+      capture: (level, args, { error, ...details }) => this.capture(level, args, {
+        ...details,
+        error: error === undefined ? undefined : this.describeError(error, this.input),
+      }),
+      getCallerPosition: () => this.getCallerPosition(this.input),
+    });
+    this.sandboxTests = sandboxTests;
+
+    // Errors thrown by callbacks (timers, events) would otherwise end the worker
+    process.on('uncaughtException', err => this.captureError(err));
+    process.on('unhandledRejection', err => this.captureError(err));
+
+    const workingDir = input.workingDirectory;
+    // Untitled documents run as a script in the working directory
+    const scriptPath = input.filePath || path.join(workingDir, 'script.js');
+
+    // Create a custom require function from the script file, so relative imports start at
+    // its folder and node_modules are looked up in the project, not globally
+    const Module = require('module');
+    const customRequire = Module.createRequire(scriptPath);
+
+    // What the script may do is checked as it loads modules, and for the whole worker
+    // where the policy restricts it. The worker was given the allowed environment variables only
+    const permissions = input.permissions && new SandboxPermissions(input.permissions, workingDir);
+    permissions?.install();
+
+    // Imports are resolved the same way, and ES modules are loaded by Node's ESM loader
+    // TypeScript files and tsconfig path aliases are handled by the loader too
+    const moduleLoader = new ModuleLoader(
+      customRequire, scriptPath, this.createCompiler(input.language), permissions, input.packagesDirectory
+    );
+    this.moduleLoader = moduleLoader;
+
+    // Prepare fetch and related Web APIs for the VM context
+    let fetchFn: any = (globalThis as any).fetch;
+    let HeadersCtor: any = (globalThis as any).Headers;
+    let RequestCtor: any = (globalThis as any).Request;
+    let ResponseCtor: any = (globalThis as any).Response;
+    let AbortControllerCtor: any = (globalThis as any).AbortController;
+    let FormDataCtor: any = (globalThis as any).FormData;
+    let URLCtor: any = (globalThis as any).URL;
+    let URLSearchParamsCtor: any = (globalThis as any).URLSearchParams;
+
+    if (!fetchFn) {
+      try {
+        // Prefer undici if available locally in the project
+        const undici = customRequire('undici');
+        fetchFn = undici.fetch;
+        HeadersCtor = undici.Headers;
+        RequestCtor = undici.Request;
+        ResponseCtor = undici.Response;
+        AbortControllerCtor = undici.AbortController;
+        // FormData, URL, URLSearchParams may also be provided by undici in recent versions
+        FormDataCtor = (undici as any).FormData || FormDataCtor;
+        URLCtor = (undici as any).URL || URLCtor;
+        URLSearchParamsCtor = (undici as any).URLSearchParams || URLSearchParamsCtor;
+      } catch (_) {
+        // If undici is not installed, keep fetch undefined and we will expose a helpful error function
+      }
+    }
+
+    if (fetchFn && permissions) {
+      fetchFn = permissions.guardFetch(fetchFn);
+    }
+
+    // Prepare crypto (Web Crypto API / Node crypto)
+    let cryptoGlobal: any = (globalThis as any).crypto;
+    if (!cryptoGlobal) {
+      try {
+        // Try Node's crypto
+        const nodeCrypto = customRequire('crypto');
+        // Prefer webcrypto if available (Node >= 15)
+        cryptoGlobal = (nodeCrypto as any).webcrypto || nodeCrypto;
+      } catch (_) {
+        // leave undefined; we will provide a helpful message on access
+      }
+    }
+
+    // Create isolated context for code execution with output capturing
+    const vmContext = createContext({
+      console: sandboxConsole.create(),
+      // describe, it, test and expect
+      ...sandboxTests.create(),
+      // Pins a value; the executor compares it with the one stored by earlier runs
+      snapshot: (value: unknown, name?: unknown) => {
+        const snapshotName = name === undefined ? `snapshot ${++this.snapshotCount}` : String(name);
+        this.capture('log', [`Snapshot "${snapshotName}"`], {
+          position: this.getCallerPosition(this.input),
+          payload: { type: 'snapshot', snapshot: { name: snapshotName, value: serialize(value) } },
+        });
+      },
+      // Target of the auto-log rewriting done by the instrumenter.
+      // Undefined results are skipped so calls made for their side effects stay quiet
+      [AUTO_LOG_FUNCTION]: (line: number, value: any) => {
+        if (value !== undefined) {
+          this.capture('log', [value], { autoLogLine: line });
+        }
+        return value;
+      },
+      require: moduleLoader.createRequire(),
+      [IMPORT_FUNCTION]: (specifier: string, importOptions?: ImportCallOptions) =>
+        moduleLoader.import(specifier, importOptions),
+      [IMPORT_META]: moduleLoader.createImportMeta(),
+      module: { exports: {} },
+      exports: {},
+      __dirname: path.dirname(scriptPath),
+      __filename: scriptPath,
+      // Add common Node.js globals
+      Buffer,
+      global,
+      setTimeout,
+      setInterval,
+      setImmediate,
+      clearTimeout,
+      clearInterval,
+      clearImmediate,
+      Promise,
+      // Web-like APIs
+      fetch: fetchFn || ((..._args: any[]) => { throw new Error("fetch is not available. Use Node >= 18 or install 'undici' locally (pnpm add undici)."); }),
+      Headers: HeadersCtor,
+      Request: RequestCtor,
+      Response: ResponseCtor,
+      AbortController: AbortControllerCtor,
+      FormData: FormDataCtor,
+      URL: URLCtor,
+      URLSearchParams: URLSearchParamsCtor,
+      // Crypto API
+      crypto: cryptoGlobal || new Proxy({}, {
+        get() {
+          throw new Error("crypto is not available. Use Node >= 16 (webcrypto) or install Node's 'crypto' module (built-in). If this persists, ensure your runtime provides globalThis.crypto.");
+        }
+      }),
+      // Polyfills / Web-like APIs
+      atob: (str: string) => Buffer.from(str, 'base64').toString('binary'),
+      btoa: (str: string) => Buffer.from(str, 'binary').toString('base64'),
+      TextEncoder: (globalThis as any).TextEncoder || (require('util').TextEncoder),
+      TextDecoder: (globalThis as any).TextDecoder || (require('util').TextDecoder),
+      performance: (globalThis as any).performance || (function () { try { return require('perf_hooks').performance; } catch { return undefined; } })(),
+      structuredClone: (globalThis as any).structuredClone || (function () { try { const { serialize, deserialize } = require('v8'); return (v: any) => deserialize(serialize(v)); } catch { return (v: any) => JSON.parse(JSON.stringify(v)); } })(),
+      queueMicrotask: (globalThis as any).queueMicrotask || ((cb: Function) => Promise.resolve().then(() => cb())),
+      Blob: (globalThis as any).Blob || (function () { try { return require('buffer').Blob; } catch { return undefined; } })(),
+      navigator: {
+        userAgent: `Ockla/${process.versions.node} Node/${process.version}`,
+        platform: process.platform,
+      },
+      process: {
+        env: process.env,
+        cwd: () => process.cwd(),
+        version: process.version,
+        versions: process.versions,
+        platform: process.platform,
+        arch: process.arch,
+        nextTick: process.nextTick,
+      },
+    });
+
+    // Ensure window/self aliases exist in the VM global
+    try {
+      const sandboxGlobal = new Script('globalThis').runInContext(vmContext);
+      (sandboxGlobal as any).window = sandboxGlobal;
+      (sandboxGlobal as any).self = sandboxGlobal;
+    } catch { /* ignore */ }
+
+    return vmContext;
+  }
+
+  /**
+   * Loads the TypeScript compiler for TypeScript runs only, as it takes a while to load
+   */
+  private createCompiler(language: ScriptLanguage): TypeScriptCompiler | undefined {
+    if (language === 'javascript') {
+      return undefined;
+    }
+    const { TypeScriptCompiler } = require('./typeScriptCompiler');
+    return new TypeScriptCompiler();
+  }
+
+  /**
+   * Gets the message of a thrown value. Errors of the VM context are not instances of Error
+   * here, and keep their class name in front of the message
+   */
+  private getMessage(err: unknown): string {
+    return err instanceof Error ? err.message : String(err);
+  }
+
+  /**
+   * Converts any value to a string representation
+   * @param value - The value to stringify
+   * @returns String representation of the value
+   */
+  private stringify(value: any): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    return inspect(value, { depth: 4 });
+  }
+
+  /**
+   * Converts a value to a compact single-line representation for inline display
+   * @param value - The value to preview
+   * @param inspected - The value already serialized for the object inspector
+   * @returns Single-line string representation of the value
+   */
+  private preview(value: any, inspected = this.inspector.inspect(value)): string {
+    if (typeof value === 'string') {
+      return value.replace(/\s+/g, ' ');
+    }
+    return inspected.description;
+  }
+
+  /**
+   * Finds the script location that called the current console method
+   * @param input - The running worker input
+   * @returns 1-based position in the instrumented code, if the call came from the user script
+   */
+  private getCallerPosition(input: WorkerInput): SourcePosition | undefined {
+    return this.findScriptPosition(new Error().stack, input);
+  }
+
+  /**
+   * Gets the stack frames from the innermost user script frame outwards
+   * @param input - The running worker input
+   * @returns The frames, with positions in the instrumented code for those of the script
+   */
+  private getStackFrames(input: WorkerInput): StackFrame[] {
+    const frames = this.parseStackFrames(new Error().stack || '', input);
+    // Frames of the console come before the first script frame
+    const first = frames.findIndex(frame => frame.position);
+    return first === -1 ? [] : frames.slice(first);
+  }
+
+  /**
+   * Parses the frames of a stack trace that belong to the script and the code it calls
+   * @param stack - The stack trace text
+   * @param input - The running worker input
+   * @returns The frames, with positions in the instrumented code for those of the script
+   */
+  private parseStackFrames(stack: string, input: WorkerInput): StackFrame[] {
+    const frames: StackFrame[] = [];
+    // The last line of the code is the call of the async wrapper
+    const wrapperCallLine = input.code.split('\n').length - input.wrapperLineOffset;
+
+    for (const line of stack.split('\n')) {
+      // "at name (location)" or "at location"
+      const match = line.match(/^\s*at (?:(.+?) \((.+)\)|(.+))$/);
+      if (!match) {
+        continue;
+      }
+
+      const location = match[2] || match[3];
+      const position = this.findScriptPosition(location, input);
+      // The VM started the script: the frames from here on belong to the runner
+      if (position?.line === wrapperCallLine || location.startsWith('node:vm')) {
+        break;
+      }
+      // Frames of Node's internals and of the runner itself, such as the console or the module loader
+      if (location.startsWith('node:internal') || location.startsWith(__dirname)) {
+        continue;
+      }
+
+      frames.push(position
+        ? { functionName: match[1], position }
+        : { functionName: match[1], location });
+    }
+
+    return frames;
+  }
+
+  /**
+   * Describes a thrown value with its stack frames and causes
+   * @param err - The thrown value
+   * @param input - The running worker input
+   * @param depth - Number of causes above this one, to stop at cyclic causes
+   */
+  private describeError(err: unknown, input: WorkerInput, depth = 0): ErrorDetails {
+    // Errors thrown inside the VM come from another realm, so instanceof Error does not apply
+    const error = err as { name?: unknown; message?: unknown; stack?: unknown; cause?: unknown } | null;
+    if (!types.isNativeError(err) && typeof error?.stack !== 'string') {
+      return { name: '', message: this.preview(err), frames: [] };
+    }
+
+    const details: ErrorDetails = {
+      name: String(error!.name ?? 'Error'),
+      message: String(error!.message ?? ''),
+      frames: typeof error!.stack === 'string' ? this.parseStackFrames(error!.stack, input) : [],
+    };
+    if (error!.cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+      details.cause = this.describeError(error!.cause, input, depth + 1);
+    }
+    return details;
+  }
+
+  /**
+   * Finds the script location where an error was thrown
+   * @param err - The thrown value
+   * @param input - The running worker input
+   * @returns 1-based position in the instrumented code, if known
+   */
+  private getErrorPosition(err: unknown, input: WorkerInput): SourcePosition | undefined {
+    // Errors thrown inside the VM come from another realm, so instanceof Error does not apply
+    const stack = (err as { stack?: unknown } | null)?.stack;
+    return typeof stack === 'string' ? this.findScriptPosition(stack, input) : undefined;
+  }
+
+  /**
+   * Extracts the first user script location from a stack trace
+   * @param stack - The stack trace text
+   * @param input - The running worker input
+   * @returns 1-based position in the instrumented code, if found
+   */
+  private findScriptPosition(stack: string | undefined, input: WorkerInput): SourcePosition | undefined {
+    if (!stack) {
+      return undefined;
+    }
+
+    const escapedName = input.scriptFilename.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Syntax errors report "file:line" without a column
+    const match = stack.match(new RegExp(`${escapedName}:(\\d+)(?::(\\d+))?`));
+    if (!match) {
+      return undefined;
+    }
+
+    const line = Number(match[1]) - input.wrapperLineOffset;
+    if (line <= 0) {
+      return undefined;
+    }
+    return { line, column: Number(match[2] || 1) };
+  }
+}
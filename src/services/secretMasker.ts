@@ -0,0 +1,57 @@
+import { inspect } from 'util';
+
+// Names of environment variables whose values are hidden from the output
+const SECRET_NAME = /SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|API_?KEY|ACCESS_?KEY|(^|_)AUTH(_|$)/i;
+// Shorter values would hide unrelated text
+const MIN_SECRET_LENGTH = 4;
+const MASK = '********';
+
+/**
+ * Hides the values of secret environment variables from the output of a run,
+ * so they do not end up on screen or in the run history.
+ *
+ * The output is masked once serialized, where strings may show up escaped: as the JSON
+ * of inspected values, and as `util.inspect` prints them inside objects. Those forms of
+ * each secret are hidden too.
+ */
+export class SecretMasker {
+  private readonly secrets: string[];
+
+  /**
+   * @param env - The environment variables of the run; those named like secrets are hidden
+   */
+  constructor(env: Record<string, string | undefined>) {
+    this.secrets = Object.entries(env)
+      .filter(([name, value]) => SECRET_NAME.test(name) && !!value && value.length >= MIN_SECRET_LENGTH)
+      .flatMap(([, value]) => [value!, JSON.stringify(value).slice(1, -1), inspect(value).slice(1, -1)])
+      .filter((secret, index, secrets) => secrets.indexOf(secret) === index)
+      // Longer values first, so a secret containing another one is hidden whole
+      .sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Replaces the secrets in a text
+   */
+  mask(text: string): string {
+    return this.secrets.reduce((masked, secret) => masked.split(secret).join(MASK), text);
+  }
+
+  /**
+   * Replaces the secrets in every string of plain data, such as a captured output
+   */
+  maskData<T>(value: T): T {
+    if (this.secrets.length === 0) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return this.mask(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.maskData(item)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.maskData(item)])) as T;
+    }
+    return value;
+  }
+}
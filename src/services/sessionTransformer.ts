@@ -0,0 +1,114 @@
+import * as acorn from 'acorn';
+import { Instrumenter } from './instrumenter';
+import { SourceRewriter } from './sourceRewriter';
+import type { RewrittenSource } from './sourceRewriter';
+
+/**
+ * Code rewritten to keep its top-level declarations in the session context
+ */
+export interface SessionSource {
+  source: RewrittenSource;
+  /** Names declared at the top level, to be declared as globals of the context */
+  globals: string[];
+}
+
+/**
+ * Rewrites the top-level declarations of a session run so later runs still see them.
+ *
+ * The code runs inside the async wrapper, where declarations are local to one run.
+ * Variables and classes become assignments to globals declared before the wrapper, and
+ * functions are copied to the global object, so a REPL evaluation can use what a run declared.
+ * Names can be declared again by the next run, as `const` and `let` become plain assignments.
+ * Edits never add or remove lines.
+ */
+export class SessionTransformer {
+  private readonly instrumenter = new Instrumenter();
+
+  /**
+   * Rewrites top-level declarations into assignments to globals
+   * @param code - The instrumented code
+   * @returns The rewritten code and the names it declares
+   */
+  transform(code: string): SessionSource {
+    const rewriter = new SourceRewriter(code);
+    const globals = new Set<string>();
+
+    let program: acorn.Program;
+    try {
+      program = this.instrumenter.parse(code);
+    } catch {
+      // Leave unparseable code as is, so the runtime reports the syntax error itself
+      return { source: rewriter.apply(), globals: [] };
+    }
+
+    // Functions are hoisted, so they can be copied before the first statement runs
+    const functions = program.body.filter(statement => statement.type === 'FunctionDeclaration');
+    const firstStatement = program.body.find(statement =>
+      statement.type !== 'ExpressionStatement' || statement.directive === undefined
+    );
+    if (firstStatement && functions.length > 0) {
+      rewriter.insert(firstStatement.start, functions.map(({ id }) => `globalThis.${id.name} = ${id.name}; `).join(''));
+    }
+
+    for (const statement of program.body) {
+      if (statement.type === 'VariableDeclaration') {
+        if (statement.kind === 'var' || statement.kind === 'let' || statement.kind === 'const') {
+          this.rewriteVariables(statement, rewriter, globals);
+        }
+      } else if (statement.type === 'ClassDeclaration') {
+        globals.add(statement.id.name);
+        rewriter.insert(statement.start, `${statement.id.name} = `);
+        rewriter.insert(statement.end, ';');
+      }
+    }
+
+    return { source: rewriter.apply(), globals: [...globals] };
+  }
+
+  /**
+   * Turns `const a = 1, { b } = c;` into `void (a = 1, { b } = c);`
+   */
+  private rewriteVariables(declaration: acorn.VariableDeclaration, rewriter: SourceRewriter, globals: Set<string>): void {
+    const declarators = declaration.declarations;
+    rewriter.replace(declaration.start, declarators[0].start, 'void (');
+
+    for (const declarator of declarators) {
+      this.collectNames(declarator.id, globals);
+      // Declaring a variable again resets it, as it would in a fresh run
+      if (!declarator.init) {
+        rewriter.insert(declarator.id.end, ' = undefined');
+      }
+    }
+
+    rewriter.insert(declarators[declarators.length - 1].end, ')');
+  }
+
+  /**
+   * Collects the names bound by a declaration target, destructuring included
+   */
+  private collectNames(pattern: acorn.Pattern, names: Set<string>): void {
+    switch (pattern.type) {
+      case 'Identifier':
+        names.add(pattern.name);
+        break;
+      case 'ObjectPattern':
+        for (const property of pattern.properties) {
+          this.collectNames(property.type === 'RestElement' ? property.argument : property.value, names);
+        }
+        break;
+      case 'ArrayPattern':
+        for (const element of pattern.elements) {
+          if (element) {
+            this.collectNames(element, names);
+          }
+        }
+        break;
+      case 'AssignmentPattern':
+        this.collectNames(pattern.left, names);
+        break;
+      case 'RestElement':
+        this.collectNames(pattern.argument, names);
+        break;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Folder of the snapshot files, next to the scripts they belong to
+export const SNAPSHOT_DIRECTORY = '__ockla_snapshots__';
+
+/**
+ * Reads and writes the snapshots of scripts: the serialized values they pinned with
+ * `snapshot()`, by name.
+ *
+ * Each script keeps its snapshots in `__ockla_snapshots__/<file name>.snap.json` next to it,
+ * as a JSON object with its keys sorted, so the file can be committed and reviewed.
+ */
+export class SnapshotStore {
+  /**
+   * Gets the snapshot file of a script
+   * @param scriptPath - Path of the script
+   */
+  getPath(scriptPath: string): string {
+    return path.join(path.dirname(scriptPath), SNAPSHOT_DIRECTORY, `${path.basename(scriptPath)}.snap.json`);
+  }
+
+  /**
+   * Reads the snapshots of a file
+   * @param file - The snapshot file
+   * @returns The serialized values by name; none if the file does not exist yet
+   * @throws Error if the file cannot be read or is not a snapshot file
+   */
+  read(file: string): Record<string, string> {
+    if (!fs.existsSync(file)) {
+      return {};
+    }
+
+    const snapshots: unknown = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!snapshots || typeof snapshots !== 'object' || Array.isArray(snapshots)
+      || Object.values(snapshots).some(value => typeof value !== 'string')) {
+      throw new Error(`${file} is not a snapshot file`);
+    }
+    return snapshots as Record<string, string>;
+  }
+
+  /**
+   * Stores a snapshot, keeping the others of the file
+   * @param file - The snapshot file
+   * @param name - Name of the snapshot
+   * @param value - The serialized value
+   */
+  write(file: string, name: string, value: string): void {
+    const snapshots = { ...this.read(file), [name]: value };
+    const sorted = Object.fromEntries(Object.keys(snapshots).sort().map(key => [key, snapshots[key]]));
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(sorted, null, 2) + '\n');
+  }
+}
@@ -0,0 +1,107 @@
+import type { RewrittenSource } from './sourceRewriter';
+import type { SourcePosition } from '../types';
+
+interface Segment {
+  generatedColumn: number;
+  originalLine: number;
+  originalColumn: number;
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Wraps compiler output and its source map (v3) as a RewrittenSource,
+ * so it can be chained with the other rewrites of the execution pipeline
+ * @param code - The generated code
+ * @param sourceMapText - The source map JSON
+ * @returns The generated code with a mapping to the original source
+ */
+export function fromSourceMap(code: string, sourceMapText: string): RewrittenSource {
+  const lines = decodeMappings(JSON.parse(sourceMapText).mappings || '');
+
+  return {
+    code,
+    originalPosition: (line: number, column: number): SourcePosition => {
+      const segments = lines[line - 1] || [];
+      const before = segments.filter(segment => segment.generatedColumn <= column - 1);
+      const segment = before[before.length - 1];
+      if (segment) {
+        return { line: segment.originalLine + 1, column: segment.originalColumn + (column - 1 - segment.generatedColumn) + 1 };
+      }
+
+      // Positions before the first segment (indentation) belong to the statement of that line
+      if (segments.length > 0) {
+        return { line: segments[0].originalLine + 1, column: segments[0].originalColumn + 1 };
+      }
+
+      // Otherwise use the closest mapped line above
+      for (let index = Math.min(line, lines.length) - 2; index >= 0; index--) {
+        const last = lines[index][lines[index].length - 1];
+        if (last) {
+          return { line: last.originalLine + 1, column: last.originalColumn + 1 };
+        }
+      }
+      return { line, column };
+    },
+  };
+}
+
+/**
+ * Decodes the "mappings" field of a source map into segments per generated line
+ */
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  for (const lineMappings of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+
+    for (const encoded of lineMappings.split(',')) {
+      if (!encoded) {
+        continue;
+      }
+
+      const fields = decodeVlq(encoded);
+      generatedColumn += fields[0];
+      if (fields.length < 4) {
+        continue; // Segment without a source position
+      }
+
+      originalLine += fields[2];
+      originalColumn += fields[3];
+      segments.push({ generatedColumn, originalLine, originalColumn });
+    }
+
+    lines.push(segments.sort((a, b) => a.generatedColumn - b.generatedColumn));
+  }
+
+  return lines;
+}
+
+/**
+ * Decodes a base64 VLQ segment into its numeric fields
+ */
+function decodeVlq(encoded: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of encoded) {
+    const digit = BASE64_CHARS.indexOf(char);
+    value += (digit & 31) << shift;
+
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      const negative = value & 1;
+      value >>>= 1;
+      values.push(negative ? -value : value);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
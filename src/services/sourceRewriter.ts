@@ -0,0 +1,169 @@
+import type { SourcePosition } from '../types';
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+  order: number;
+}
+
+interface AppliedEdit {
+  originalStart: number;
+  originalEnd: number;
+  generatedStart: number;
+  generatedEnd: number;
+}
+
+/**
+ * Code produced by a SourceRewriter, able to map its positions back to the source
+ */
+export interface RewrittenSource {
+  code: string;
+  /**
+   * Maps a position in the rewritten code to the original source
+   * @param line - 1-based line in the rewritten code
+   * @param column - 1-based column in the rewritten code
+   */
+  originalPosition(line: number, column: number): SourcePosition;
+}
+
+/**
+ * Applies non-overlapping text edits to source code while keeping track of
+ * where every rewritten position came from
+ */
+export class SourceRewriter {
+  private edits: Edit[] = [];
+
+  constructor(private readonly source: string) { }
+
+  /**
+   * Inserts text at an offset of the original source
+   */
+  insert(offset: number, text: string): void {
+    this.replace(offset, offset, text);
+  }
+
+  /**
+   * Replaces a range of the original source
+   */
+  replace(start: number, end: number, text: string): void {
+    this.edits.push({ start, end, text, order: this.edits.length });
+  }
+
+  /**
+   * Applies all edits
+   * @returns The rewritten code and its position mapping
+   */
+  apply(): RewrittenSource {
+    // At the same offset insertions go before replacements, otherwise edits keep the order they were added in
+    const edits = [...this.edits].sort((a, b) =>
+      a.start - b.start || this.isInsertion(b) - this.isInsertion(a) || a.order - b.order
+    );
+    const applied: AppliedEdit[] = [];
+    const parts: string[] = [];
+    let cursor = 0;
+    let generatedLength = 0;
+
+    for (const edit of edits) {
+      const unchanged = this.source.substring(cursor, edit.start);
+      parts.push(unchanged, edit.text);
+      generatedLength += unchanged.length;
+      applied.push({
+        originalStart: edit.start,
+        originalEnd: edit.end,
+        generatedStart: generatedLength,
+        generatedEnd: generatedLength + edit.text.length,
+      });
+      generatedLength += edit.text.length;
+      cursor = Math.max(cursor, edit.end);
+    }
+    parts.push(this.source.substring(cursor));
+
+    const code = parts.join('');
+    const generatedLines = this.getLineStarts(code);
+    const originalLines = this.getLineStarts(this.source);
+
+    return {
+      code,
+      originalPosition: (line: number, column: number) => {
+        const lineStart = generatedLines[Math.min(Math.max(line - 1, 0), generatedLines.length - 1)];
+        const offset = this.toOriginalOffset(applied, lineStart + column - 1);
+        return this.toPosition(originalLines, offset);
+      },
+    };
+  }
+
+  /**
+   * Returns 1 for pure insertions and 0 for replacements, for sorting
+   */
+  private isInsertion(edit: Edit): number {
+    return edit.start === edit.end ? 1 : 0;
+  }
+
+  /**
+   * Maps an offset of the rewritten code to the original source
+   */
+  private toOriginalOffset(applied: AppliedEdit[], offset: number): number {
+    let previous: AppliedEdit | undefined;
+    for (const edit of applied) {
+      if (edit.generatedStart > offset) {
+        break;
+      }
+      previous = edit;
+    }
+
+    if (!previous) {
+      return offset;
+    }
+    if (offset < previous.generatedEnd) {
+      // Inside inserted text: attribute it to where the edit starts
+      return previous.originalStart;
+    }
+    return previous.originalEnd + (offset - previous.generatedEnd);
+  }
+
+  /**
+   * Converts an offset into a 1-based line/column position
+   */
+  private toPosition(lineStarts: number[], offset: number): SourcePosition {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  }
+
+  /**
+   * Gets the offset at which each line starts
+   */
+  private getLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        starts.push(i + 1);
+      }
+    }
+    return starts;
+  }
+}
+
+/**
+ * Combines consecutive rewrites into one that maps the final code back to the first source
+ * @param rewrites - The rewrites in the order they were applied
+ * @returns The final code with a mapping through every rewrite
+ */
+export function chainRewrites(...rewrites: RewrittenSource[]): RewrittenSource {
+  return {
+    code: rewrites[rewrites.length - 1].code,
+    originalPosition: (line: number, column: number) => rewrites.reduceRight(
+      (position, rewrite) => rewrite.originalPosition(position.line, position.column),
+      { line, column }
+    ),
+  };
+}
@@ -0,0 +1,88 @@
+import type * as ts from 'typescript';
+import { loadTypeScript } from './typeScriptCompiler';
+import type { ScriptLanguage } from '../types';
+
+/**
+ * A describe block or test declared in a script
+ */
+export interface FoundTest {
+  kind: 'describe' | 'test';
+  /** Names of the describe blocks it is in, outermost first, then its own */
+  name: string[];
+  /** 0-based line of the call */
+  line: number;
+  /** Tests and describe blocks declared inside a describe block */
+  children: FoundTest[];
+}
+
+// Functions declaring tests and describe blocks, as called by the script
+const TEST_FUNCTIONS: Record<string, FoundTest['kind']> = {
+  describe: 'describe',
+  it: 'test',
+  test: 'test',
+};
+
+/**
+ * Finds the tests a script declares without running it, for the editor to list them
+ * and run them one by one.
+ *
+ * Only calls of `describe`, `it` and `test` (or their `.skip`) named with a string literal
+ * are found, as other names are only known when the script runs.
+ */
+export class TestFinder {
+  /**
+   * Lists the tests of a script as a tree of describe blocks
+   * @param code - The script code
+   * @param language - Language of the script
+   * @returns The top-level tests and describe blocks, in the order they are declared
+   */
+  find(code: string, language: ScriptLanguage): FoundTest[] {
+    const typescript = loadTypeScript();
+    const scriptKind = language === 'typescriptreact' ? typescript.ScriptKind.TSX
+      : language === 'typescript' ? typescript.ScriptKind.TS
+        : typescript.ScriptKind.JS;
+    const sourceFile = typescript.createSourceFile('tests', code, typescript.ScriptTarget.Latest, true, scriptKind);
+
+    const found: FoundTest[] = [];
+    this.visit(typescript, sourceFile, sourceFile, [], found);
+    return found;
+  }
+
+  /**
+   * Looks for test calls in a node, adding those found to the list of their describe block
+   * @param typescript - The TypeScript module, loaded once per search
+   */
+  private visit(typescript: typeof ts, node: ts.Node, sourceFile: ts.SourceFile, suite: string[], found: FoundTest[]): void {
+    const kind = typescript.isCallExpression(node) ? this.getKind(typescript, node) : undefined;
+    const nameArgument = typescript.isCallExpression(node) ? node.arguments[0] : undefined;
+
+    if (kind && nameArgument && typescript.isStringLiteralLike(nameArgument)) {
+      const test: FoundTest = {
+        kind,
+        name: [...suite, nameArgument.text],
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line,
+        children: [],
+      };
+      found.push(test);
+      if (kind === 'describe') {
+        typescript.forEachChild(node, child => this.visit(typescript, child, sourceFile, test.name, test.children));
+      }
+      return;
+    }
+
+    typescript.forEachChild(node, child => this.visit(typescript, child, sourceFile, suite, found));
+  }
+
+  /**
+   * Tells what a call declares: `describe(...)`, `it(...)`, `test.skip(...)`...
+   */
+  private getKind(typescript: typeof ts, call: ts.CallExpression): FoundTest['kind'] | undefined {
+    let callee = call.expression;
+    if (typescript.isPropertyAccessExpression(callee) && callee.name.text === 'skip') {
+      callee = callee.expression;
+    }
+    return typescript.isIdentifier(callee) && Object.prototype.hasOwnProperty.call(TEST_FUNCTIONS, callee.text)
+      ? TEST_FUNCTIONS[callee.text]
+      : undefined;
+  }
+}
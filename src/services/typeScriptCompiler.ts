@@ -0,0 +1,183 @@
+import type * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fromSourceMap } from './sourceMap';
+import type { RewrittenSource } from './sourceRewriter';
+import type { ScriptLanguage, SourcePosition } from '../types';
+
+/**
+ * Path mapping of a tsconfig.json ("baseUrl" and "paths")
+ */
+export interface PathAliases {
+  baseUrl: string;
+  paths: Record<string, string[]>;
+}
+
+/**
+ * Error raised when TypeScript code has syntax errors
+ */
+export class CompilationError extends Error {
+  constructor(message: string, public readonly position: SourcePosition) {
+    super(message);
+    this.name = 'CompilationError';
+  }
+}
+
+interface ProjectConfig {
+  configPath: string | undefined;
+  modifiedTime: number;
+  options: ts.CompilerOptions;
+}
+
+// Extensions of TypeScript files Ockla can run
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+
+let loadedTypeScript: typeof ts | undefined;
+
+/**
+ * Loads the TypeScript compiler on first use, as it takes a while to load: runs and
+ * editor features that never parse TypeScript do not pay for it
+ */
+export function loadTypeScript(): typeof ts {
+  loadedTypeScript ??= require('typescript') as typeof ts;
+  return loadedTypeScript;
+}
+
+/**
+ * Transpiles TypeScript on the fly, using the compiler options of the nearest tsconfig.json.
+ *
+ * Types are stripped without type-checking, so only syntax errors stop a run.
+ * The output keeps a source map back to the TypeScript source.
+ */
+export class TypeScriptCompiler {
+  private configCache = new Map<string, ProjectConfig>();
+
+  /**
+   * Checks if a file path is a TypeScript source file (declaration files excluded)
+   */
+  isTypeScriptFile(filePath: string): boolean {
+    return TYPESCRIPT_EXTENSIONS.includes(path.extname(filePath)) && !/\.d\.[cm]?ts$/.test(filePath);
+  }
+
+  /**
+   * Gets the TypeScript extensions, in the order they are tried when resolving imports
+   */
+  getExtensions(): string[] {
+    return [...TYPESCRIPT_EXTENSIONS];
+  }
+
+  /**
+   * Transpiles TypeScript code to JavaScript
+   * @param code - The TypeScript code
+   * @param filePath - Path of the file, used to find its tsconfig.json (may not exist on disk)
+   * @param language - Language of the code; typescriptreact enables JSX
+   * @param moduleKind - Module system of the output: ES modules for scripts, CommonJS for required files
+   * @returns The JavaScript code with a mapping to the TypeScript source
+   * @throws CompilationError when the code has syntax errors
+   */
+  compile(
+    code: string,
+    filePath: string,
+    language: ScriptLanguage = 'typescript',
+    moduleKind: 'esm' | 'commonjs' = 'esm'
+  ): RewrittenSource {
+    const isTsx = language === 'typescriptreact' || path.extname(filePath) === '.tsx';
+    const fileName = path.basename(filePath).replace(/\.[cm]?tsx?$|$/, isTsx ? '.tsx' : '.ts');
+    const projectOptions = this.getProjectConfig(filePath).options;
+    const typescript = loadTypeScript();
+
+    const result = typescript.transpileModule(code, {
+      fileName,
+      reportDiagnostics: true,
+      compilerOptions: {
+        ...projectOptions,
+        // .cts files are CommonJS by definition
+        module: moduleKind === 'commonjs' || path.extname(filePath) === '.cts'
+          ? typescript.ModuleKind.CommonJS
+          : typescript.ModuleKind.ESNext,
+        target: typescript.ScriptTarget.ES2022,
+        jsx: projectOptions.jsx ?? typescript.JsxEmit.ReactJSX,
+        sourceMap: true,
+        inlineSourceMap: false,
+        inlineSources: false,
+        declaration: false,
+        emitDeclarationOnly: false,
+        noEmit: false,
+        importHelpers: false,
+      },
+    });
+
+    // Diagnostics without a file come from project options (rootDir, composite...) that do not apply here
+    const error = result.diagnostics?.find(diagnostic =>
+      diagnostic.category === typescript.DiagnosticCategory.Error && diagnostic.file !== undefined
+    );
+    if (error) {
+      throw this.toCompilationError(error);
+    }
+
+    return fromSourceMap(this.stripSourceMapComment(result.outputText), result.sourceMapText || '{}');
+  }
+
+  /**
+   * Gets the path aliases of the tsconfig.json that applies to a file
+   * @param filePath - Path of the file
+   * @returns The aliases, if the project defines any
+   */
+  getPathAliases(filePath: string): PathAliases | undefined {
+    const { configPath, options } = this.getProjectConfig(filePath);
+    if (!configPath || !options.paths) {
+      return undefined;
+    }
+
+    return {
+      baseUrl: options.baseUrl || path.dirname(configPath),
+      paths: options.paths,
+    };
+  }
+
+  /**
+   * Reads the compiler options of the nearest tsconfig.json, reloading it when it changes
+   */
+  private getProjectConfig(filePath: string): ProjectConfig {
+    const typescript = loadTypeScript();
+    const configPath = typescript.findConfigFile(path.dirname(filePath), typescript.sys.fileExists);
+    if (!configPath) {
+      return { configPath: undefined, modifiedTime: 0, options: {} };
+    }
+
+    const modifiedTime = fs.statSync(configPath).mtimeMs;
+    const cached = this.configCache.get(configPath);
+    if (cached && cached.modifiedTime === modifiedTime) {
+      return cached;
+    }
+
+    const { config } = typescript.readConfigFile(configPath, typescript.sys.readFile);
+    const parsed = typescript.parseJsonConfigFileContent(config || {}, typescript.sys, path.dirname(configPath), undefined, configPath);
+    const projectConfig = { configPath, modifiedTime, options: parsed.options };
+
+    this.configCache.set(configPath, projectConfig);
+    return projectConfig;
+  }
+
+  /**
+   * Converts a TypeScript diagnostic into an error with its source position
+   */
+  private toCompilationError(diagnostic: ts.Diagnostic): CompilationError {
+    const message = loadTypeScript().flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    const position = diagnostic.start !== undefined
+      ? diagnostic.file!.getLineAndCharacterOfPosition(diagnostic.start)
+      : { line: 0, character: 0 };
+
+    return new CompilationError(`TS${diagnostic.code}: ${message}`, {
+      line: position.line + 1,
+      column: position.character + 1,
+    });
+  }
+
+  /**
+   * Removes the trailing sourceMappingURL comment, the map is kept in memory
+   */
+  private stripSourceMapComment(code: string): string {
+    return code.replace(/\n\/\/# sourceMappingURL=.*\s*$/, '');
+  }
+}
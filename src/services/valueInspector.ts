@@ -0,0 +1,356 @@
+import { inspect, types } from 'util';
+import type { InspectedKind, InspectedProperty, InspectedValue } from '../types';
+
+// Nesting level below which objects are only described, not expanded
+const MAX_DEPTH = 5;
+// Properties or entries kept per object; the panel pages through them
+const MAX_CHILDREN = 500;
+// Values serialized per inspection, so huge structures stay cheap to send
+const MAX_NODES = 5000;
+// Properties shown in the single-line description of an object
+const PREVIEW_PROPERTIES = 5;
+
+/**
+ * A property found on an object, before its value is inspected
+ */
+interface FoundProperty {
+  name: string;
+  value?: unknown;
+  /** Description of an accessor, which is never invoked */
+  accessor?: string;
+  entry?: boolean;
+}
+
+/**
+ * Serializes values of the script into the tree shown by the object inspector of the output panel.
+ *
+ * Values come from the sandbox realm, so they are recognized with `util.types` rather than instanceof.
+ * Getters are listed but not invoked, cycles become "circular" nodes, and deep or large structures
+ * are cut at fixed limits.
+ */
+export class ValueInspector {
+  private nodes = 0;
+
+  /**
+   * Serializes a value with its properties and entries
+   * @param value - Any value of the script
+   */
+  inspect(value: unknown): InspectedValue {
+    this.nodes = 0;
+    return this.inspectValue(value, 0, new Set());
+  }
+
+  private inspectValue(value: unknown, depth: number, ancestors: Set<object>): InspectedValue {
+    this.nodes++;
+
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+      return this.inspectPrimitive(value);
+    }
+
+    // Looking into a proxy would run its traps
+    if (types.isProxy(value)) {
+      return { kind: 'object', description: 'Proxy', className: 'Proxy' };
+    }
+
+    const className = this.getClassName(value);
+    if (ancestors.has(value)) {
+      return { kind: 'circular', description: `[Circular ${className || 'Object'}]`, className };
+    }
+
+    const kind = this.getKind(value);
+    if (kind === 'function') {
+      return { kind, description: this.describeFunction(value as Function), className };
+    }
+
+    const node: InspectedValue = { kind, description: '', className, size: this.getSize(value, kind) };
+
+    if (depth < MAX_DEPTH && this.nodes < MAX_NODES) {
+      ancestors.add(value);
+      node.children = [];
+      let total = 0;
+
+      for (const property of this.findProperties(value, kind)) {
+        total++;
+        if (node.children.length < MAX_CHILDREN && this.nodes < MAX_NODES) {
+          node.children.push(this.inspectProperty(property, depth, ancestors));
+        }
+      }
+
+      if (total > node.children.length) {
+        node.omitted = total - node.children.length;
+      }
+      ancestors.delete(value);
+    }
+
+    node.description = this.describeObject(value, node);
+    return node;
+  }
+
+  private inspectPrimitive(value: unknown): InspectedValue {
+    switch (typeof value) {
+      case 'string':
+        return { kind: 'string', description: JSON.stringify(value) };
+      case 'number':
+        return { kind: 'number', description: Object.is(value, -0) ? '-0' : String(value) };
+      case 'bigint':
+        return { kind: 'bigint', description: `${value}n` };
+      case 'boolean':
+        return { kind: 'boolean', description: String(value) };
+      case 'symbol':
+        return { kind: 'symbol', description: value.toString() };
+      case 'undefined':
+        return { kind: 'undefined', description: 'undefined' };
+      default:
+        return { kind: 'null', description: 'null' };
+    }
+  }
+
+  private inspectProperty(property: FoundProperty, depth: number, ancestors: Set<object>): InspectedProperty {
+    const value = property.accessor !== undefined
+      ? { kind: 'accessor' as const, description: property.accessor }
+      : this.inspectValue(property.value, depth + 1, ancestors);
+
+    return property.entry ? { name: property.name, value, entry: true } : { name: property.name, value };
+  }
+
+  private getKind(value: object): InspectedKind {
+    if (typeof value === 'function') {
+      return 'function';
+    }
+    if (Array.isArray(value) || types.isTypedArray(value)) {
+      return 'array';
+    }
+    if (types.isMap(value)) {
+      return 'map';
+    }
+    if (types.isSet(value)) {
+      return 'set';
+    }
+    if (types.isDate(value)) {
+      return 'date';
+    }
+    if (types.isRegExp(value)) {
+      return 'regexp';
+    }
+    if (types.isNativeError(value) || Object.prototype.toString.call(value) === '[object Error]') {
+      return 'error';
+    }
+    if (types.isPromise(value)) {
+      return 'promise';
+    }
+    return 'object';
+  }
+
+  /**
+   * Gets the constructor name of an object, undefined for objects without prototype
+   */
+  private getClassName(value: object): string | undefined {
+    try {
+      const prototype = Object.getPrototypeOf(value);
+      if (prototype === null) {
+        return undefined;
+      }
+      const constructor = prototype.constructor;
+      return typeof constructor === 'function' && constructor.name
+        ? constructor.name
+        : Object.prototype.toString.call(value).slice(8, -1);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getSize(value: object, kind: InspectedKind): number | undefined {
+    switch (kind) {
+      case 'array':
+        return (value as unknown[]).length;
+      case 'map':
+      case 'set':
+        return (value as Map<unknown, unknown> | Set<unknown>).size;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Lists the properties and entries shown when an object is expanded
+   */
+  private *findProperties(value: object, kind: InspectedKind): Generator<FoundProperty> {
+    switch (kind) {
+      case 'array': {
+        const array = value as unknown[];
+        for (let index = 0; index < array.length; index++) {
+          // Holes of sparse arrays are skipped
+          if (index in array) {
+            yield { name: String(index), value: array[index] };
+          }
+        }
+        yield* this.findOwnProperties(value, key => !/^\d+$/.test(key));
+        return;
+      }
+      case 'map': {
+        for (const [key, entryValue] of (value as Map<unknown, unknown>).entries()) {
+          yield { name: this.describeShort(key), value: entryValue, entry: true };
+        }
+        return;
+      }
+      case 'set': {
+        let index = 0;
+        for (const item of (value as Set<unknown>).values()) {
+          yield { name: String(index++), value: item };
+        }
+        return;
+      }
+      case 'error': {
+        // Message, stack and cause are own properties, but not enumerable
+        const error = value as { message?: unknown; stack?: unknown; cause?: unknown };
+        yield { name: 'message', value: error.message };
+        if (typeof error.stack === 'string') {
+          yield { name: 'stack', value: error.stack };
+        }
+        if ('cause' in error) {
+          yield { name: 'cause', value: error.cause };
+        }
+        yield* this.findOwnProperties(value, key => !['message', 'stack', 'cause'].includes(key));
+        return;
+      }
+      case 'promise':
+        return;
+      case 'object':
+        yield* this.findOwnProperties(value, () => true);
+        yield* this.findPrototypeAccessors(value);
+        return;
+      default:
+        yield* this.findOwnProperties(value, () => true);
+    }
+  }
+
+  /**
+   * Lists the own enumerable properties of an object, symbols included
+   */
+  private *findOwnProperties(value: object, include: (key: string) => boolean): Generator<FoundProperty> {
+    for (const key of Reflect.ownKeys(value)) {
+      const name = typeof key === 'symbol' ? `[${key.toString()}]` : key;
+      const descriptor = Object.getOwnPropertyDescriptor(value, key);
+      if (!descriptor?.enumerable || (typeof key === 'string' && !include(key))) {
+        continue;
+      }
+
+      yield descriptor.get || descriptor.set
+        ? { name, accessor: this.describeAccessor(descriptor) }
+        : { name, value: descriptor.value };
+    }
+  }
+
+  /**
+   * Lists the getters and setters that class instances inherit, like `get area()`
+   */
+  private *findPrototypeAccessors(value: object): Generator<FoundProperty> {
+    const seen = new Set(Reflect.ownKeys(value));
+    let prototype = Object.getPrototypeOf(value);
+
+    // The last prototype is Object.prototype, whose accessors (__proto__) are not interesting
+    while (prototype && Object.getPrototypeOf(prototype) !== null) {
+      for (const key of Object.getOwnPropertyNames(prototype)) {
+        const descriptor = Object.getOwnPropertyDescriptor(prototype, key);
+        if (!seen.has(key) && (descriptor?.get || descriptor?.set)) {
+          seen.add(key);
+          yield { name: key, accessor: this.describeAccessor(descriptor) };
+        }
+      }
+      prototype = Object.getPrototypeOf(prototype);
+    }
+  }
+
+  private describeAccessor(descriptor: PropertyDescriptor): string {
+    if (descriptor.get && descriptor.set) {
+      return '[Getter/Setter]';
+    }
+    return descriptor.get ? '[Getter]' : '[Setter]';
+  }
+
+  private describeFunction(fn: Function): string {
+    const name = fn.name || 'anonymous';
+    try {
+      if (Function.prototype.toString.call(fn).startsWith('class')) {
+        return `class ${name}`;
+      }
+    } catch {
+      // Some host functions cannot be turned into source
+    }
+    return `ƒ ${name}()`;
+  }
+
+  /**
+   * Describes an object on one line, previewing its first properties
+   */
+  private describeObject(value: object, node: InspectedValue): string {
+    const children = node.children?.slice(0, PREVIEW_PROPERTIES) || [];
+    const more = (node.children?.length || 0) + (node.omitted || 0) > children.length ? ', …' : '';
+
+    switch (node.kind) {
+      case 'array': {
+        const prefix = node.className === 'Array' ? '' : node.className;
+        const items = children.map(child => /^\d+$/.test(child.name)
+          ? this.describeChild(child.value)
+          : `${child.name}: ${this.describeChild(child.value)}`);
+        return node.children ? `${prefix}(${node.size}) [${items.join(', ')}${more}]` : `${node.className}(${node.size})`;
+      }
+      case 'map':
+      case 'set': {
+        const items = children.map(child => node.kind === 'map'
+          ? `${child.name} => ${this.describeChild(child.value)}`
+          : this.describeChild(child.value));
+        const name = `${node.className}(${node.size})`;
+        return node.children ? `${name} {${items.join(', ')}${more}}` : name;
+      }
+      case 'date':
+        return isNaN((value as Date).getTime()) ? 'Invalid Date' : (value as Date).toISOString();
+      case 'regexp':
+        return String(value);
+      case 'error': {
+        const error = value as { name?: unknown; message?: unknown };
+        const name = String(error.name ?? node.className ?? 'Error');
+        return error.message ? `${name}: ${String(error.message)}` : name;
+      }
+      case 'promise':
+        // Only util.inspect can read the state of a promise; the ids async_hooks adds to it are left out
+        return inspect(value, { depth: 0, breakLength: Infinity })
+          .replace(/, \[Symbol\((?:async_id_symbol|trigger_async_id_symbol)\)\]: \d+/g, '');
+      default: {
+        const prefix = node.className === 'Object' ? '' : `${node.className || '[Object: null prototype]'} `;
+        const items = children.map(child => `${child.name}: ${this.describeChild(child.value)}`);
+        return node.children ? `${prefix}{${items.join(', ')}${more}}` : `${prefix}{…}`;
+      }
+    }
+  }
+
+  /**
+   * Describes a value nested in a description, abbreviating objects
+   */
+  private describeChild(value: InspectedValue): string {
+    switch (value.kind) {
+      case 'array':
+      case 'map':
+      case 'set':
+        return `${value.className}(${value.size})`;
+      case 'object':
+        return value.className && value.className !== 'Object' ? value.className : '{…}';
+      case 'function':
+        return 'ƒ';
+      case 'promise':
+        return 'Promise';
+      default:
+        return value.description;
+    }
+  }
+
+  /**
+   * Describes a map key on one line
+   */
+  private describeShort(value: unknown): string {
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+      return this.inspectPrimitive(value).description;
+    }
+    return this.describeChild(this.inspectValue(value, MAX_DEPTH, new Set()));
+  }
+}
@@ -0,0 +1,115 @@
+import type {
+  ErrorDetails,
+  InspectedValue,
+  OutputLevel,
+  OutputPayload,
+  PermissionPolicy,
+  ScriptLanguage,
+  SourcePosition,
+} from '../types';
+import type { TrackedOperation } from './asyncTracker';
+
+/**
+ * Messages exchanged between the CodeExecutor and the execution worker.
+ *
+ * The worker only sees generated code, so the positions it reports are positions
+ * in that code; the executor maps them back to the user's source.
+ */
+
+/**
+ * Data of a run: the worker data of a single-run worker, or a message to a session worker
+ */
+export interface WorkerInput {
+  /** Instrumented code, already wrapped in the async function */
+  code: string;
+  /** File name given to the script, used to find its frames in stack traces */
+  scriptFilename: string;
+  /** Lines added before the user code by the async wrapper */
+  wrapperLineOffset: number;
+  timeout: number;
+  /** Longest wait for pending operations once the top-level code has finished */
+  asyncTimeout: number;
+  workingDirectory: string;
+  /** Path of the executed file, which its imports are resolved from; missing for untitled documents */
+  filePath?: string;
+  /** Folder of the packages Ockla installs outside projects, looked up after those of the project */
+  packagesDirectory?: string;
+  language: ScriptLanguage;
+  /** The worker keeps its context for the next runs and reports when a run has nothing pending */
+  session?: boolean;
+  /** What the script may do; everything is allowed when missing */
+  permissions?: PermissionPolicy;
+  /** Globals to inject in a new context, by name, with the module their value comes from */
+  globals?: Record<string, string>;
+  /** Scripts and modules to run in a new context, after injecting the globals */
+  preload?: PreloadEntry[];
+  /** Names of the describe blocks and test to run, outermost first; all the tests when missing */
+  testFilter?: string[];
+  /** Count how many times the code runs; reported when the run has nothing pending or the async timeout is up */
+  coverage?: boolean;
+}
+
+/**
+ * A preload script or module, run in the context before the first run
+ */
+export type PreloadEntry =
+  /**
+   * A project file, prepared like the script; its top-level declarations become globals.
+   * The code evaluates to an async function taking the module loading globals of the file
+   */
+  | { type: 'script'; path: string; code: string }
+  /** A module imported for its side effects */
+  | { type: 'module'; specifier: string };
+
+/**
+ * How many times the script ran, by line and by block; 1-based positions in the instrumented code
+ */
+export interface CapturedCoverage {
+  /** Lines with code, at their first character */
+  lines: { position: SourcePosition; count: number }[];
+  /** Blocks that ran a different number of times than the code around them, at their start */
+  branches: { position: SourcePosition; count: number }[];
+}
+
+/**
+ * A value captured from the script
+ */
+export interface CapturedOutput {
+  level: OutputLevel;
+  text: string;
+  preview: string;
+  /** Time the value was captured, in ms since the epoch */
+  timestamp: number;
+  /** Line of an auto-logged expression, in the code given to the instrumenter */
+  autoLogLine?: number;
+  /** Position of the console call or error, in the instrumented code */
+  position?: SourcePosition;
+  /** The value is an error thrown by the script rather than logged */
+  thrown?: boolean;
+  /** Number of console groups the value is nested in */
+  depth?: number;
+  /** Structured content of console methods; stack positions are in the instrumented code */
+  payload?: OutputPayload;
+  /** The values serialized for the object inspector */
+  values?: InspectedValue[];
+  /** The thrown error; stack positions are in the instrumented code */
+  error?: ErrorDetails;
+}
+
+export type WorkerMessage =
+  /** The script is about to run */
+  | { type: 'started' }
+  | { type: 'output'; output: CapturedOutput }
+  /** The script could not run to completion (syntax error, synchronous timeout) */
+  | { type: 'failed'; message: string; position?: SourcePosition; error?: ErrorDetails; dependencies?: string[] }
+  /**
+   * The top-level code has finished; pending timers and callbacks may still run.
+   * Dependencies are the project files the script loaded
+   */
+  | { type: 'settled'; dependencies: string[] }
+  /** The async timeout is up while operations are still pending */
+  | { type: 'pending'; operations: TrackedOperation[]; promises: number }
+  /** The coverage of the run, sent before it is reported finished or pending */
+  | { type: 'coverage'; coverage: CapturedCoverage }
+  /** A session run, or a run collecting coverage, has nothing pending anymore */
+  | { type: 'finished' };
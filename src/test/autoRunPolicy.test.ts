@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { AutoRunPolicy } from '../services/autoRunPolicy';
+import { DEFAULT_CONFIGURATION } from '../services/projectConfig';
+
+suite('AutoRunPolicy Test Suite', () => {
+	const policy = new AutoRunPolicy();
+	const onSave = { ...DEFAULT_CONFIGURATION, autoRunOnSave: true };
+
+	test('runs files on save or live as configured', () => {
+		assert.strictEqual(policy.getMode(DEFAULT_CONFIGURATION, 'src/a.ts'), 'off');
+		assert.strictEqual(policy.getMode(onSave, 'src/a.ts'), 'save');
+		assert.strictEqual(policy.getMode({ ...DEFAULT_CONFIGURATION, liveMode: true }, 'src/a.ts'), 'live');
+	});
+
+	test('keeps to the include and exclude globs', () => {
+		const config = { ...onSave, autoRunInclude: ['scratch/**'] };
+
+		assert.strictEqual(policy.getMode(config, 'scratch/try.js'), 'save');
+		assert.strictEqual(policy.getMode(config, 'src/index.js'), 'off');
+		assert.strictEqual(policy.getMode(onSave, 'node_modules/pkg/index.js'), 'off');
+	});
+
+	test('lets files be turned on or off on their own', () => {
+		assert.strictEqual(policy.getMode(DEFAULT_CONFIGURATION, 'src/a.ts', true), 'save');
+		assert.strictEqual(policy.getMode(onSave, 'node_modules/pkg/index.js', true), 'save');
+		assert.strictEqual(policy.getMode({ ...onSave, liveMode: true }, 'src/a.ts', false), 'off');
+	});
+});
@@ -0,0 +1,337 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeExecutor } from '../services/codeExecutor';
+import { DEFAULT_PERMISSIONS } from '../services/sandboxPermissions';
+
+suite('CodeExecutor Test Suite', () => {
+	const executor = new CodeExecutor();
+	const options = { timeout: 1000, asyncTimeout: 200 };
+
+	test('captures values with the line that produced them', async () => {
+		const result = await executor.execute(`const a = 2;\nconsole.log('a', a);\na * 3`, options);
+
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(
+			result.entries?.map(entry => [entry.line, entry.text]),
+			[[2, 'a 2'], [3, '6']]
+		);
+	});
+
+	test('runs scripts starting with a hashbang', async () => {
+		const result = await executor.execute(`#!/usr/bin/env node\nconst a = 2;\nconsole.log('a', a);`, options);
+
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(result.entries?.map(entry => [entry.line, entry.text]), [[3, 'a 2']]);
+	});
+
+	test('streams output and ends once pending timers are done', async () => {
+		const streamed: string[] = [];
+		const result = await executor.execute(
+			`let ticks = 0;\nconst timer = setInterval(() => {\n  console.log('tick', ++ticks);\n  if (ticks === 3) clearInterval(timer);\n}, 50);`,
+			{ timeout: 1000, asyncTimeout: 5000, onOutput: entry => streamed.push(entry.text) }
+		);
+
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(streamed, ['tick 1', 'tick 2', 'tick 3']);
+		assert.ok((result.executionTime || 0) < 5000);
+		assert.ok(result.entries?.every(entry => typeof entry.timestamp === 'number'));
+	});
+
+	test('reports operations still pending after the async timeout', async () => {
+		const result = await executor.execute(`const a = 1;\nsetInterval(() => {}, 50);\nsetTimeout(() => {}, 60000).unref();`, options);
+
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(result.pending, [{ kind: 'setInterval', line: 2 }]);
+		assert.match(result.output, /Still pending: setInterval \(line 2\)/);
+	});
+
+	test('reports thrown errors with their class, stack and cause', async () => {
+		const result = await executor.execute(
+			`function load() {\n  throw new TypeError('bad input', { cause: new Error('missing') });\n}\nload();`,
+			options
+		);
+
+		const entry = result.entries?.find(candidate => candidate.error);
+		assert.strictEqual(entry?.text, 'TypeError: bad input (ockla-script.js:2:9)');
+		assert.deepStrictEqual(entry?.error?.frames, [
+			{ functionName: 'load', position: { line: 2, column: 9 } },
+			{ functionName: undefined, position: { line: 4, column: 1 } },
+		]);
+		assert.strictEqual(entry?.error?.cause?.message, 'missing');
+	});
+
+	test('keeps the declarations of a session for its next runs until it is reset', async () => {
+		const session = { ...options, session: 'session-test' };
+
+		await executor.execute(`const base = 40;\nfunction add(n) { return base + n; }\nclass Box { value = add(1); }`, session);
+		const next = await executor.execute(`new Box().value + 1`, session);
+		assert.deepStrictEqual(next.entries?.map(entry => entry.text), ['42']);
+
+		const failed = await executor.execute(`throw new Error('oops')`, session);
+		assert.match(failed.output, /Error: oops/);
+		assert.ok(executor.hasSession('session-test'));
+
+		executor.resetSession('session-test');
+		const fresh = await executor.execute(`typeof base`, session);
+		assert.deepStrictEqual(fresh.entries?.map(entry => entry.text), ['undefined']);
+		executor.resetSession('session-test');
+	});
+
+	test('reports what the permissions policy denies', async () => {
+		const permissions = { ...DEFAULT_PERMISSIONS, fileSystem: { allow: ['.'], deny: [] }, childProcess: false, env: ['PATH'] };
+
+		const files = await executor.execute(`const fs = require('fs');\nfs.readFileSync('/etc/hostname');`, { ...options, permissions });
+		assert.deepStrictEqual(files.entries?.map(entry => [entry.line, entry.error?.name]), [[2, 'PermissionDeniedError']]);
+		assert.match(files.output, /Access to \/etc\/hostname is not allowed by the sandbox permissions \(ockla\.permissions\.fileSystem\)/);
+
+		const processes = await executor.execute(`import { spawn } from 'child_process';`, { ...options, permissions });
+		assert.match(processes.output, /Loading node:child_process is not allowed/);
+
+		const env = await executor.execute(`process.env.PATH !== undefined;\nprocess.env.HOME;\nprocess.env.MODE`, {
+			...options,
+			permissions,
+			env: { MODE: 'scratch' },
+		});
+		assert.deepStrictEqual(env.entries?.map(entry => entry.text), ['true', 'scratch']);
+
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ockla-env-'));
+		try {
+			fs.writeFileSync(path.join(directory, '.env'), 'APP_PORT=80\nDB_PASSWORD=hunter22\n');
+			const fileEnv = await executor.execute(`process.env.APP_PORT;\nprocess.env.DB_PASSWORD`, {
+				...options,
+				permissions: { ...permissions, env: ['APP_*'] },
+				envFiles: { directory },
+			});
+			assert.deepStrictEqual(fileEnv.entries?.map(entry => entry.text), ['80']);
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('loads env files and hides secret values in the output', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ockla-env-'));
+		try {
+			fs.writeFileSync(path.join(directory, '.env'), 'SERVICE=billing\nSERVICE_TOKEN=t0k3n-value\n');
+
+			const result = await executor.execute(`console.log(process.env.SERVICE, process.env.SERVICE_TOKEN);\nthrow new Error(process.env.SERVICE_TOKEN)`, {
+				...options,
+				envFiles: { directory },
+				maskSecrets: true,
+			});
+			assert.deepStrictEqual(result.envFiles, [path.join(directory, '.env')]);
+			assert.strictEqual(result.entries?.[0].text, 'billing ********');
+			assert.doesNotMatch(result.output + result.error, /t0k3n-value/);
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('injects globals and runs preload scripts before the code', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ockla-preload-'));
+		try {
+			fs.writeFileSync(path.join(directory, 'setup.ts'), `import { sep } from 'path';\nconst prefix: string = 'dir' + sep;\nfunction scoped(name: string) { return prefix + name; }\n`);
+			fs.writeFileSync(path.join(directory, 'broken.js'), `\nmissing();\n`);
+			const preloadOptions = { ...options, workingDirectory: directory, globals: { pathUtil: 'path' } };
+
+			const result = await executor.execute(`scoped('a');\npathUtil.basename('/x/y.ts')`, { ...preloadOptions, preload: ['./setup.ts'] });
+			assert.deepStrictEqual(result.entries?.map(entry => entry.text), [`dir${path.sep}a`, 'y.ts']);
+			assert.deepStrictEqual(result.preload, ['./setup.ts']);
+
+			const broken = await executor.execute(`1`, { ...preloadOptions, preload: ['./broken.js'] });
+			assert.strictEqual(broken.success, false);
+			assert.match(broken.error || '', /Preload .*broken\.js failed: ReferenceError: missing is not defined/);
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('resolves imports from the script file and reloads them when they change', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ockla-imports-'));
+		try {
+			const scratch = path.join(directory, 'scratch');
+			const helpers = path.join(scratch, 'helpers.js');
+			fs.mkdirSync(scratch);
+			fs.writeFileSync(helpers, `module.exports = { value: 1 };\n`);
+			const fileOptions = { ...options, workingDirectory: directory, filePath: path.join(scratch, 'main.js'), session: 'imports' };
+			const code = `const { value } = require('./helpers');\nvalue`;
+
+			const first = await executor.execute(code, fileOptions);
+			assert.deepStrictEqual(first.entries?.map(entry => entry.text), ['1']);
+			assert.deepStrictEqual(first.dependencies, [helpers]);
+
+			fs.writeFileSync(helpers, `module.exports = { value: 2 };\n`);
+			fs.utimesSync(helpers, new Date(), new Date(Date.now() + 1000));
+			const second = await executor.execute(code, fileOptions);
+			assert.deepStrictEqual(second.entries?.map(entry => entry.text), ['2']);
+		} finally {
+			executor.resetSession('imports');
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('does not log the helpers the TypeScript compiler emits for decorated classes', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ockla-decorators-'));
+		try {
+			const legacy = path.join(directory, 'legacy');
+			fs.mkdirSync(legacy);
+			fs.writeFileSync(path.join(legacy, 'tsconfig.json'), JSON.stringify({
+				compilerOptions: { experimentalDecorators: true, emitDecoratorMetadata: true },
+			}));
+			const code = `function logged(target: any, key: any) {}
+class Service {
+  @logged
+  run() { return 1; }
+}
+new Service().run()`;
+
+			// Legacy decorators (__decorate, __metadata) and standard ones (__esDecorate, __runInitializers)
+			for (const filePath of [path.join(legacy, 'script.ts'), path.join(directory, 'script.ts')]) {
+				const result = await executor.execute(code, { ...options, filePath, language: 'typescript' });
+				assert.deepStrictEqual(result.entries?.map(entry => [entry.line, entry.text]), [[6, '1']], filePath);
+			}
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('does not run scripts importing packages that are not installed', async () => {
+		const result = await executor.execute(`import pad from 'ockla-missing-package';\nconsole.log('ran');`, options);
+
+		assert.strictEqual(result.success, false);
+		assert.deepStrictEqual(result.missingPackages, ['ockla-missing-package']);
+		assert.strictEqual(result.error, 'Cannot find package ockla-missing-package');
+		assert.deepStrictEqual(result.entries, []);
+	});
+
+	test('runs the tests the script declares, at their lines', async () => {
+		const code = `const double = (n) => n * 2;\ndescribe('double', () => {\n  it('doubles', () => expect(double(2)).toBe(4));\n  it('fails', () => expect(double(3)).toBe(7));\n});`;
+
+		const result = await executor.execute(code, options);
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(result.tests?.map(test => [test.name.join(' › '), test.status, test.line, test.expected, test.actual]), [
+			['double › doubles', 'passed', 3, undefined, undefined],
+			['double › fails', 'failed', 4, '7', '6'],
+		]);
+		assert.deepStrictEqual(result.entries?.find(entry => entry.error)?.error?.frames[0]?.position, { line: 4, column: 39 });
+
+		const filtered = await executor.execute(code, { ...options, testFilter: ['double', 'fails'] });
+		assert.deepStrictEqual(filtered.tests?.map(test => test.name.join(' › ')), ['double › fails']);
+	});
+
+	test('stores snapshots on their first run and reports those that change', async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ockla-snapshot-'));
+		try {
+			const fileOptions = { ...options, filePath: path.join(directory, 'data.js') };
+			const run = (total: number) => executor.execute(`snapshot({ total: ${total}, items: ['a'] });\nsnapshot('fixed', 'label');`, fileOptions);
+
+			const first = await run(1);
+			assert.deepStrictEqual(first.entries?.map(entry => [entry.level, entry.text, entry.line]), [
+				['info', 'Snapshot "snapshot 1" written', 1],
+				['info', 'Snapshot "label" written', 2],
+			]);
+
+			const second = await run(2);
+			assert.deepStrictEqual(second.entries?.map(entry => entry.payload?.type === 'snapshot' && entry.payload.snapshot), [
+				{
+					name: 'snapshot 1',
+					value: `{ items: [ 'a' ], total: 2 }`,
+					status: 'changed',
+					file: path.join(directory, '__ockla_snapshots__', 'data.js.snap.json'),
+					stored: `{ items: [ 'a' ], total: 1 }`,
+				},
+				{ name: 'label', value: `'fixed'`, status: 'matched', file: path.join(directory, '__ockla_snapshots__', 'data.js.snap.json') },
+			]);
+
+			const untitled = await executor.execute(`snapshot(1)`, options);
+			assert.deepStrictEqual(untitled.entries?.map(entry => entry.text), ['Snapshot "snapshot 1" was not kept, as the file is not saved']);
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('cancels a run when its signal is aborted', async () => {
+		const controller = new AbortController();
+		const running = executor.execute(`console.log('started');\nawait new Promise(resolve => setTimeout(resolve, 5000));`, {
+			...options,
+			timeout: 10000,
+			signal: controller.signal,
+			onOutput: () => controller.abort(),
+		});
+
+		const result = await running;
+		assert.strictEqual(result.success, false);
+		assert.match(result.error || '', /Execution cancelled/);
+
+		const skipped = await executor.execute(`1`, { ...options, signal: controller.signal });
+		assert.deepStrictEqual([skipped.success, skipped.entries], [false, []]);
+	});
+
+	test('checks the syntax of code without running it', () => {
+		assert.strictEqual(executor.hasValidSyntax(`import { join } from 'path';\nawait join('a')`), true);
+		assert.strictEqual(executor.hasValidSyntax(`const a = (`), false);
+		assert.strictEqual(executor.hasValidSyntax(`const a: number = 1;`, { language: 'typescript' }), true);
+		assert.strictEqual(executor.hasValidSyntax(`const a: = 1;`, { language: 'typescript' }), false);
+	});
+
+	test('counts how many times each line and branch ran', async () => {
+		const code = `function sign(n) {\n  if (n < 0) {\n    return 'negative';\n  }\n  return 'positive';\n}\nfunction unused() {\n  return 0;\n}\nsign(1);\nawait sign(2);`;
+
+		// The run ends once nothing is pending, without waiting for the async timeout
+		const result = await executor.execute(code, { ...options, asyncTimeout: 5000, coverage: true });
+		assert.strictEqual(result.pending, undefined);
+		assert.deepStrictEqual(result.entries?.filter(entry => entry.level === 'warn'), []);
+		assert.ok(result.executionTime! < 2000, `took ${result.executionTime}ms`);
+		assert.deepStrictEqual(result.coverage, {
+			lines: [
+				{ line: 1, count: 2 },
+				{ line: 2, count: 2 },
+				{ line: 3, count: 0 },
+				{ line: 5, count: 2 },
+				{ line: 7, count: 0 },
+				{ line: 8, count: 0 },
+				{ line: 10, count: 1 },
+				{ line: 11, count: 1 },
+			],
+			branches: [{ line: 2, column: 14, count: 0 }],
+		});
+
+		const session = await executor.execute(code, { ...options, coverage: true, session: 'coverage' });
+		executor.resetSession('coverage');
+		assert.deepStrictEqual(session.coverage?.lines.filter(line => line.count === 0).map(line => line.line), [3, 7, 8]);
+
+		const plain = await executor.execute(code, options);
+		assert.strictEqual(plain.coverage, undefined);
+	});
+
+	test('kills scripts stuck after an await', async () => {
+		const result = await executor.execute(`await null;\nwhile (true) {}`, options);
+
+		assert.strictEqual(result.success, false);
+		assert.match(result.error || '', /timed out/);
+	});
+
+	test('stops a running execution', async () => {
+		const execution = executor.execute(`setInterval(() => {}, 10);\nawait new Promise(() => setTimeout(() => {}, 60000));`, {
+			timeout: 60000,
+			asyncTimeout: 60000,
+		});
+		setTimeout(() => executor.stopExecution(), 200);
+
+		const result = await execution;
+		assert.strictEqual(result.success, false);
+		assert.strictEqual(result.error, 'Execution stopped');
+	});
+
+	test('stops scripts that exceed the memory limit', async () => {
+		const result = await executor.execute(`const chunks = [];\nwhile (true) { chunks.push(new Array(1e5).fill(0)); }`, {
+			...options,
+			timeout: 20000,
+			memory: 32,
+		});
+
+		assert.strictEqual(result.success, false);
+		assert.strictEqual(result.error, 'Memory limit of 32 MB exceeded');
+	});
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EnvLoader } from '../services/envLoader';
+
+suite('EnvLoader Test Suite', () => {
+	const loader = new EnvLoader();
+
+	test('parses quoted values, escapes, exports and comments', () => {
+		const variables = loader.parse([
+			'# database',
+			'export HOST=localhost',
+			'PORT = 5432 # default port',
+			'NAME="my \\"app\\"\\nv2"',
+			'RAW=\'no \\n escapes # here\'',
+			'HASH=abc#def',
+			'EMPTY=',
+		].join('\n'));
+
+		assert.deepStrictEqual(variables, {
+			HOST: 'localhost',
+			PORT: '5432',
+			NAME: 'my "app"\nv2',
+			RAW: 'no \\n escapes # here',
+			HASH: 'abc#def',
+			EMPTY: '',
+		});
+	});
+
+	test('applies the local and mode files over .env', () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ockla-env-'));
+		try {
+			fs.writeFileSync(path.join(directory, '.env'), 'A=env\nB=env\nC=env\n');
+			fs.writeFileSync(path.join(directory, '.env.local'), 'B=local\n');
+			fs.writeFileSync(path.join(directory, '.env.test'), 'C=test\n');
+
+			const loaded = loader.load(directory, 'test');
+			assert.deepStrictEqual(loaded.variables, { A: 'env', B: 'local', C: 'test' });
+			assert.deepStrictEqual(loaded.files.map(file => path.basename(file)), ['.env', '.env.local', '.env.test']);
+
+			assert.deepStrictEqual(loader.load(directory).variables, { A: 'env', B: 'local', C: 'env' });
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+});
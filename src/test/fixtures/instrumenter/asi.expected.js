@@ -0,0 +1,9 @@
+let x = 1
+__ocklaAutoLog(2, x)
+;__ocklaAutoLog(3, [1, 2].map(n => n))
+;__ocklaAutoLog(4, (function () {
+  __ocklaAutoLog(5, inner())
+})())
+const y = x
++ 1
+__ocklaAutoLog(9, y)
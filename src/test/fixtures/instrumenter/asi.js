@@ -0,0 +1,9 @@
+let x = 1
+x
+;[1, 2].map(n => n)
+;(function () {
+  inner()
+})()
+const y = x
++ 1
+y
@@ -0,0 +1,5 @@
+__ocklaAutoLog(1, (a(), b()));
+(__ocklaAutoLog(2, (first, second)))
+for (let i = 0, j = 10; i < j; i++, j--) {
+  __ocklaAutoLog(4, (i, j))
+}
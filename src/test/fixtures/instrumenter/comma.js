@@ -0,0 +1,5 @@
+a(), b();
+(first, second)
+for (let i = 0, j = 10; i < j; i++, j--) {
+  i, j
+}
@@ -0,0 +1,8 @@
+console.log('already logged');
+console.error(new Error('x'))
+console['warn']('bracket')
+console?.info('optional')
+await console.log('awaited')
+__ocklaAutoLog(6, 'console.log is just text'.length)
+const message = "console." + 'dir'
+__ocklaAutoLog(8, message.toUpperCase())
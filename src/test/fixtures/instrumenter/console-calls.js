@@ -0,0 +1,8 @@
+console.log('already logged');
+console.error(new Error('x'))
+console['warn']('bracket')
+console?.info('optional')
+await console.log('awaited')
+'console.log is just text'.length
+const message = "console." + 'dir'
+message.toUpperCase()
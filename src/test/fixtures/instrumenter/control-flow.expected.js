@@ -0,0 +1,36 @@
+if (ready) {
+  __ocklaAutoLog(2, start())
+} else if (waiting) {
+  __ocklaAutoLog(4, wait())
+} else __ocklaAutoLog(5, stop())
+
+for (let i = 0; i < 3; i++) {
+  __ocklaAutoLog(8, i * 10)
+}
+
+while (queue.length) __ocklaAutoLog(11, queue.shift())
+
+do {
+  __ocklaAutoLog(14, tick())
+} while (running)
+
+switch (kind) {
+  case 'a':
+    __ocklaAutoLog(19, handleA())
+    break;
+  default:
+    __ocklaAutoLog(22, handleDefault())
+}
+
+try {
+  __ocklaAutoLog(26, risky())
+} catch (error) {
+  __ocklaAutoLog(28, error.message)
+} finally {
+  __ocklaAutoLog(30, cleanup())
+}
+
+label: for (const item of items) {
+  if (item.skip) continue label;
+  __ocklaAutoLog(35, item.value)
+}
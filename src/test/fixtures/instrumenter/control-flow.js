@@ -0,0 +1,36 @@
+if (ready) {
+  start()
+} else if (waiting) {
+  wait()
+} else stop()
+
+for (let i = 0; i < 3; i++) {
+  i * 10
+}
+
+while (queue.length) queue.shift()
+
+do {
+  tick()
+} while (running)
+
+switch (kind) {
+  case 'a':
+    handleA()
+    break;
+  default:
+    handleDefault()
+}
+
+try {
+  risky()
+} catch (error) {
+  error.message
+} finally {
+  cleanup()
+}
+
+label: for (const item of items) {
+  if (item.skip) continue label;
+  item.value
+}
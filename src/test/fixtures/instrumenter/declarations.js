@@ -0,0 +1,11 @@
+const a = 1;
+let b = 2, c = 3;
+var d;
+function f(x) {
+  return x * 2;
+}
+class Point {
+  constructor(x) {
+    this.x = x;
+  }
+}
@@ -0,0 +1,8 @@
+'use strict';
+"use client"
+function strictFn() {
+  'use strict';
+  __ocklaAutoLog(5, 'not a directive'.length)
+}
+const early = 1;
+__ocklaAutoLog(8, 'plain string')
@@ -0,0 +1,8 @@
+'use strict';
+"use client"
+function strictFn() {
+  'use strict';
+  'not a directive'.length
+}
+const early = 1;
+'plain string'
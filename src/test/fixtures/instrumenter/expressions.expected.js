@@ -0,0 +1,10 @@
+__ocklaAutoLog(1, 2 + 2)
+__ocklaAutoLog(2, 6 + 2);
+const sum = (a, b) => a + b;
+__ocklaAutoLog(4, sum(5, 3))
+__ocklaAutoLog(5, myVar)
+__ocklaAutoLog(6, obj.prop)
+__ocklaAutoLog(7, arr[0])
+__ocklaAutoLog(8, new Date(0));
+__ocklaAutoLog(9, [1, 2, 3])
+__ocklaAutoLog(10, typeof sum)
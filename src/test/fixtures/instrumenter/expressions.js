@@ -0,0 +1,10 @@
+2 + 2
+6 + 2;
+const sum = (a, b) => a + b;
+sum(5, 3)
+myVar
+obj.prop
+arr[0]
+new Date(0);
+[1, 2, 3]
+typeof sum
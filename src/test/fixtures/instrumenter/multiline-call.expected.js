@@ -0,0 +1,12 @@
+__ocklaAutoLog(1, format({
+  name: 'Ada',
+  tags: [
+    'math',
+    'code',
+  ],
+}))
+
+__ocklaAutoLog(9, Math.max(
+  1,
+  2
+))
@@ -0,0 +1,12 @@
+format({
+  name: 'Ada',
+  tags: [
+    'math',
+    'code',
+  ],
+})
+
+Math.max(
+  1,
+  2
+)
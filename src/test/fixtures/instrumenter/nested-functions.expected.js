@@ -0,0 +1,23 @@
+__ocklaAutoLog(1, [1, 2, 3].forEach(n => {
+  __ocklaAutoLog(2, n * n)
+}))
+
+const handlers = {
+  click() {
+    __ocklaAutoLog(7, this.count)
+  },
+};
+
+class Counter {
+  static {
+    __ocklaAutoLog(13, Counter.instances)
+  }
+  increment() {
+    __ocklaAutoLog(16, super.toString())
+  }
+}
+
+function* ids() {
+  yield 1
+  __ocklaAutoLog(22, lastId)
+}
@@ -0,0 +1,23 @@
+[1, 2, 3].forEach(n => {
+  n * n
+})
+
+const handlers = {
+  click() {
+    this.count
+  },
+};
+
+class Counter {
+  static {
+    Counter.instances
+  }
+  increment() {
+    super.toString()
+  }
+}
+
+function* ids() {
+  yield 1
+  lastId
+}
@@ -0,0 +1,9 @@
+(__ocklaAutoLog(1, { a: 1, b: 2 }))
+{ a: __ocklaAutoLog(2, 1) }
+{
+  __ocklaAutoLog(4, nested())
+}
+(__ocklaAutoLog(6, {
+  multi: true,
+  line: 'object',
+}))
@@ -0,0 +1,9 @@
+({ a: 1, b: 2 })
+{ a: 1 }
+{
+  nested()
+}
+({
+  multi: true,
+  line: 'object',
+})
@@ -0,0 +1,6 @@
+__ocklaAutoLog(1, fetch('https://example.com')
+  .then(res => res.json())
+  .then(data => {
+    __ocklaAutoLog(4, data.items.length)
+  })
+  .catch(err => err.message))
@@ -0,0 +1,6 @@
+fetch('https://example.com')
+  .then(res => res.json())
+  .then(data => {
+    data.items.length
+  })
+  .catch(err => err.message)
@@ -0,0 +1,15 @@
+const data = await load();
+__ocklaAutoLog(2, await save(data))
+__ocklaAutoLog(3, data.length)
+
+async function run() {
+  __ocklaAutoLog(6, await step())
+  return await finish()
+}
+
+function early(value) {
+  if (!value) return
+  __ocklaAutoLog(12, value.id)
+}
+
+__ocklaAutoLog(15, run())
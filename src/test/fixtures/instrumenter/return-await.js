@@ -0,0 +1,15 @@
+const data = await load();
+await save(data)
+data.length
+
+async function run() {
+  await step()
+  return await finish()
+}
+
+function early(value) {
+  if (!value) return
+  value.id
+}
+
+run()
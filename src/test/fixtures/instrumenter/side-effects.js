@@ -0,0 +1,9 @@
+x = 5
+x += 2
+obj.value ??= 10
+count++
+--count
+delete obj.value
+void compute();
+(total = 3);
+[a, b] = [b, a]
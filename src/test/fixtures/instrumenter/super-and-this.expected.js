@@ -0,0 +1,8 @@
+class Child extends Base {
+  constructor() {
+    super()
+    __ocklaAutoLog(4, this.ready)
+  }
+}
+__ocklaAutoLog(7, this)
+__ocklaAutoLog(8, globalThis.value)
@@ -0,0 +1,8 @@
+class Child extends Base {
+  constructor() {
+    super()
+    this.ready
+  }
+}
+this
+globalThis.value
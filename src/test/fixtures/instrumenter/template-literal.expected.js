@@ -0,0 +1,5 @@
+const name = 'Ockla';
+__ocklaAutoLog(2, `Hello,
+${name}!
+Lines: ${[1, 2].map(n => n * 2)}`)
+__ocklaAutoLog(5, String.raw`a\nb`)
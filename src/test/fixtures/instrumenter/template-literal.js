@@ -0,0 +1,5 @@
+const name = 'Ockla';
+`Hello,
+${name}!
+Lines: ${[1, 2].map(n => n * 2)}`
+String.raw`a\nb`
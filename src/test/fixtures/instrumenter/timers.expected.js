@@ -0,0 +1,7 @@
+setTimeout(() => {
+  console.log('later');
+}, 50)
+const timer = setInterval(() => {}, 10);
+setImmediate(() => clearInterval(timer));
+__ocklaAutoLog(6, clearTimeout(setTimeout(() => {}, 10)))
+__ocklaAutoLog(7, queueMicrotask(() => {}))
@@ -0,0 +1,7 @@
+setTimeout(() => {
+  console.log('later');
+}, 50)
+const timer = setInterval(() => {}, 10);
+setImmediate(() => clearInterval(timer));
+clearTimeout(setTimeout(() => {}, 10))
+queueMicrotask(() => {})
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { FragmentExtractor } from '../services/fragmentExtractor';
+
+suite('FragmentExtractor Test Suite', () => {
+	const extractor = new FragmentExtractor();
+
+	test('blanks the code outside the ranges, keeping lines and columns', () => {
+		const code = 'const a = 1;\nconst b = a + 1;\nb * 2';
+
+		assert.strictEqual(extractor.extract(code, [{ start: 19, end: 28 }]), '            \n      b = a + 1');
+	});
+
+	test('joins several ranges in document order', () => {
+		const code = 'one;\ntwo;\nthree;';
+
+		assert.strictEqual(extractor.extract(code, [{ start: 10, end: 16 }, { start: 0, end: 4 }]), 'one;\n    \nthree;');
+	});
+
+	test('finds the top-level statement on the cursor line', () => {
+		const code = 'const a = 1;\n\nfunction f(x: number) {\n  return x * 2;\n}\nf(a);';
+		const inBody = code.indexOf('return');
+
+		const block = extractor.findTopLevelStatement(code, inBody, 'typescript');
+		assert.strictEqual(block && code.slice(block.start, block.end), 'function f(x: number) {\n  return x * 2;\n}');
+		assert.strictEqual(extractor.findTopLevelStatement(code, code.indexOf('\n\n') + 1, 'typescript'), undefined);
+	});
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { Instrumenter, AUTO_LOG_FUNCTION } from '../services/instrumenter';
+
+// Fixtures are plain JavaScript files, read from the sources rather than the compiled output
+const fixturesDir = path.resolve(__dirname, '../../src/test/fixtures/instrumenter');
+
+suite('Instrumenter Test Suite', () => {
+	const instrumenter = new Instrumenter();
+
+	/**
+	 * Runs instrumented code inside the same async wrapper the executor uses
+	 * and collects every auto-logged [line, value] pair
+	 */
+	async function run(code: string, globals: Record<string, unknown> = {}): Promise<Array<[number, unknown]>> {
+		const logs: Array<[number, unknown]> = [];
+		const context = vm.createContext({
+			...globals,
+			[AUTO_LOG_FUNCTION]: (line: number, value: unknown) => {
+				logs.push([line, value]);
+				return value;
+			},
+		});
+		const instrumented = instrumenter.instrument(code);
+		await vm.runInContext(`(async function() {\n${instrumented.code}\n})()`, context);
+		return logs;
+	}
+
+	suite('Fixtures', () => {
+		const inputs = fs.readdirSync(fixturesDir).filter(file => !file.endsWith('.expected.js'));
+
+		inputs.forEach(file => {
+			test(file, () => {
+				const input = fs.readFileSync(path.join(fixturesDir, file), 'utf8');
+				const expected = fs.readFileSync(path.join(fixturesDir, file.replace(/\.js$/, '.expected.js')), 'utf8');
+
+				assert.strictEqual(instrumenter.instrument(input).code, expected);
+			});
+		});
+
+		test('every fixture keeps its line count', () => {
+			inputs.forEach(file => {
+				const input = fs.readFileSync(path.join(fixturesDir, file), 'utf8');
+				assert.strictEqual(instrumenter.instrument(input).code.split('\n').length, input.split('\n').length, file);
+			});
+		});
+	});
+
+	suite('Runtime behavior', () => {
+		test('reports expression values with their lines', async () => {
+			const logs = await run('const a = 2;\na * 3;\n\n`${a}px`');
+			assert.deepStrictEqual(logs, [[2, 6], [4, '2px']]);
+		});
+
+		test('reports multi-line expressions at their first line', async () => {
+			const logs = await run('Math.max(\n  1,\n  5\n)');
+			assert.deepStrictEqual(logs, [[1, 5]]);
+		});
+
+		test('keeps function return values', async () => {
+			const logs = await run('function double(n) {\n  n\n  return n * 2\n}\ndouble(4)');
+			assert.deepStrictEqual(logs, [[2, 4], [5, 8]]);
+		});
+
+		test('awaits top-level promises before logging', async () => {
+			const logs = await run('await Promise.resolve(1)\nconst value = await Promise.resolve(2)\nvalue');
+			assert.deepStrictEqual(logs, [[1, 1], [3, 2]]);
+		});
+
+		test('respects automatic semicolon insertion', async () => {
+			const logs = await run('let x = 1\nx\n;[2, 3].length\nconst y = x\n+ 1\ny');
+			assert.deepStrictEqual(logs, [[2, 1], [3, 2], [6, 2]]);
+		});
+
+		test('does not log console calls or lines mentioning console', async () => {
+			const printed: unknown[] = [];
+			const logs = await run(
+				'console.log("x")\nconst text = "console.";\ntext.length',
+				{ console: { log: (value: unknown) => printed.push(value) } }
+			);
+			assert.deepStrictEqual(printed, ['x']);
+			assert.deepStrictEqual(logs, [[3, 8]]);
+		});
+
+		test('evaluates sequence expressions once', async () => {
+			const logs = await run('let calls = 0;\n(calls++, calls++, calls)');
+			assert.deepStrictEqual(logs, [[2, 2]]);
+		});
+	});
+
+	suite('Source mapping', () => {
+		test('maps columns after the inserted call back to the original', () => {
+			const instrumented = instrumenter.instrument('const a = 1;\n  a + missing');
+			const generatedColumn = instrumented.code.split('\n')[1].indexOf('missing') + 1;
+
+			assert.deepStrictEqual(instrumented.originalPosition(2, generatedColumn), { line: 2, column: 7 });
+		});
+
+		test('maps positions inside inserted code to the start of the expression', () => {
+			const instrumented = instrumenter.instrument('foo()');
+
+			assert.deepStrictEqual(instrumented.originalPosition(1, 3), { line: 1, column: 1 });
+		});
+
+		test('leaves unparseable code unchanged', () => {
+			const code = 'const = 1\nfoo()';
+			const instrumented = instrumenter.instrument(code);
+
+			assert.strictEqual(instrumented.code, code);
+			assert.deepStrictEqual(instrumented.originalPosition(2, 2), { line: 2, column: 2 });
+		});
+	});
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { ModuleTransformer } from '../services/moduleTransformer';
+
+suite('ModuleTransformer Test Suite', () => {
+	const transformer = new ModuleTransformer();
+	const transform = (code: string) => transformer.transform(code).code;
+
+	test('leaves scripts without module syntax untouched', () => {
+		const code = 'const fs = require("fs");\nfs.existsSync(".")';
+		assert.strictEqual(transform(code), code);
+	});
+
+	test('links default, named and renamed imports', () => {
+		assert.strictEqual(
+			transform(`import chalk, { red, blue as b } from 'chalk';`),
+			`'use strict'; const { default: chalk, red, blue: b } = await __ocklaImport('chalk');`
+		);
+	});
+
+	test('links namespace imports combined with a default import', () => {
+		assert.strictEqual(
+			transform(`import def, * as ns from "pkg"`),
+			`'use strict'; const ns = await __ocklaImport("pkg"), { default: def } = ns;`
+		);
+	});
+
+	test('evaluates side-effect imports and re-exports', () => {
+		assert.strictEqual(
+			transform(`import './setup.js';\nexport * from 'a';\nexport { b } from 'b';`),
+			`'use strict'; await __ocklaImport('./setup.js');\nawait __ocklaImport('a');\nawait __ocklaImport('b');`
+		);
+	});
+
+	test('passes import attributes to the loader', () => {
+		assert.strictEqual(
+			transform(`import data from './data.json' with { type: 'json' };`),
+			`'use strict'; const { default: data } = await __ocklaImport('./data.json', { with: { type: 'json' } });`
+		);
+	});
+
+	test('keeps the line count of multi-line imports', () => {
+		const code = `import {\n  a,\n  b,\n} from 'x'\na + b`;
+		const transformed = transform(code);
+
+		assert.strictEqual(transformed.split('\n').length, code.split('\n').length);
+		assert.strictEqual(transformed.split('\n')[4], 'a + b');
+	});
+
+	test('rewrites dynamic import() and import.meta', () => {
+		assert.strictEqual(
+			transform(`const m = await import('./m.js');\nimport.meta.url`),
+			`'use strict'; const m = await __ocklaImport('./m.js');\n__ocklaImportMeta.url`
+		);
+	});
+
+	test('keeps exported declarations and drops export lists', () => {
+		assert.strictEqual(
+			transform(`export const a = 1;\nexport function f() {}\nexport { a as b };`),
+			`'use strict'; const a = 1;\nfunction f() {}\n`
+		);
+	});
+
+	test('turns default exported values into standalone expressions', () => {
+		assert.strictEqual(
+			transform(`const a = 1\nexport default a * 2`),
+			`'use strict'; const a = 1\n;(a * 2)`
+		);
+		assert.strictEqual(
+			transform(`export default function () {}`),
+			`'use strict'; ;(function () {})`
+		);
+	});
+
+	test('keeps named default exported declarations', () => {
+		assert.strictEqual(
+			transform(`export default class Point {}`),
+			`'use strict'; class Point {}`
+		);
+	});
+
+	test('blanks the hashbang line, keeping the line count', () => {
+		assert.strictEqual(transform('#!/usr/bin/env node\nconsole.log(1)'), '\nconsole.log(1)');
+		assert.strictEqual(
+			transform(`#!/usr/bin/env node\nimport 'a';`),
+			`'use strict'; \nawait __ocklaImport('a');`
+		);
+	});
+
+	test('maps positions after a rewritten import back to the original', () => {
+		const transformed = transformer.transform(`import { a } from 'a'; a.b`);
+		const column = transformed.code.indexOf('a.b') + 1;
+
+		assert.deepStrictEqual(transformed.originalPosition(1, column), { line: 1, column: 24 });
+	});
+});
@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { OutputDiff } from '../services/outputDiff';
+
+suite('OutputDiff Test Suite', () => {
+	const diff = new OutputDiff();
+
+	test('pairs changed lines and keeps the common ones aligned', () => {
+		const rows = diff.compare('start\na = 1\nb = 2\nend', 'start\na = 5\nb = 2\nnew line\nend');
+
+		assert.deepStrictEqual(rows, [
+			{ kind: 'same', leftLine: 1, left: 'start', rightLine: 1, right: 'start' },
+			{ kind: 'changed', leftLine: 2, left: 'a = 1', rightLine: 2, right: 'a = 5' },
+			{ kind: 'same', leftLine: 3, left: 'b = 2', rightLine: 3, right: 'b = 2' },
+			{ kind: 'added', rightLine: 4, right: 'new line' },
+			{ kind: 'same', leftLine: 4, left: 'end', rightLine: 5, right: 'end' },
+		]);
+	});
+
+	test('lists removed lines on the left only', () => {
+		const rows = diff.compare('one\ntwo\nthree', 'one\nthree');
+
+		assert.deepStrictEqual(rows.map(row => row.kind), ['same', 'removed', 'same']);
+		assert.deepStrictEqual(rows[1], { kind: 'removed', leftLine: 2, left: 'two' });
+	});
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as os from 'os';
+import * as path from 'path';
+import { ModuleLoader } from '../services/moduleLoader';
+import { PackageDetector } from '../services/packageDetector';
+
+suite('PackageDetector Test Suite', () => {
+	const detector = new PackageDetector();
+
+	test('lists the required imports of the code, leaving out those in try blocks', () => {
+		const specifiers = detector.getSpecifiers([
+			`import a from 'a';`,
+			`export * from './b';`,
+			`const c = require('c');`,
+			`await import('d');`,
+			`try { require('optional'); } catch {}`,
+			`try {} finally { require('e'); }`,
+			`require(name);`,
+		].join('\n'));
+
+		assert.deepStrictEqual(specifiers, ['a', './b', 'c', 'd', 'e']);
+	});
+
+	test('gets the package of a bare specifier', () => {
+		assert.strictEqual(detector.getPackageName('lodash/fp'), 'lodash');
+		assert.strictEqual(detector.getPackageName('@scope/pkg/sub'), '@scope/pkg');
+		assert.strictEqual(detector.getPackageName('./local'), undefined);
+		assert.strictEqual(detector.getPackageName('node:nothing'), undefined);
+		assert.strictEqual(detector.getPackageName('bad name; rm -rf'), undefined);
+	});
+
+	test('follows the project files the script imports', () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ockla-packages-'));
+		try {
+			fs.writeFileSync(path.join(directory, 'helpers.js'), `module.exports = require('not-installed-helper');\n`);
+			fs.mkdirSync(path.join(directory, 'node_modules', 'installed'), { recursive: true });
+			fs.writeFileSync(path.join(directory, 'node_modules', 'installed', 'index.js'), '');
+			const scriptPath = path.join(directory, 'script.js');
+			const loader = new ModuleLoader(createRequire(scriptPath), scriptPath);
+
+			const missing = detector.findMissingPackages(
+				`import 'installed';\nimport fs from 'fs';\nrequire('./helpers');\nrequire('@scope/not-installed/sub');`,
+				loader
+			);
+			assert.deepStrictEqual(missing, ['@scope/not-installed', 'not-installed-helper']);
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+});
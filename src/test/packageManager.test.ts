@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PackageManager } from '../services/packageManager';
+
+suite('PackageManager Test Suite', () => {
+	const manager = new PackageManager();
+
+	test('installs in the nearest project with the package manager of its lockfile', () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ockla-install-'));
+		try {
+			const project = path.join(root, 'packages', 'app');
+			fs.mkdirSync(path.join(project, 'src'), { recursive: true });
+			fs.writeFileSync(path.join(project, 'package.json'), '{}');
+			fs.writeFileSync(path.join(root, 'pnpm-lock.yaml'), '');
+			const scratch = path.join(root, 'scratch');
+
+			assert.deepStrictEqual(manager.getInstallTarget(path.join(project, 'src'), root, scratch), { directory: project, manager: 'pnpm' });
+			assert.deepStrictEqual(manager.getInstallTarget(path.join(root, 'packages'), root, scratch), { directory: scratch, manager: 'npm' });
+			assert.deepStrictEqual(manager.getInstallTarget(project, root, scratch, true), { directory: scratch, manager: 'npm' });
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	test('builds the install command of each package manager', () => {
+		assert.deepStrictEqual(manager.getInstallCommand('npm', ['a', 'b']), ['npm', ['install', 'a', 'b']]);
+		assert.deepStrictEqual(manager.getInstallCommand('pnpm', ['a']), ['pnpm', ['add', 'a']]);
+		assert.deepStrictEqual(manager.getInstallCommand('yarn', ['a']), ['yarn', ['add', 'a']]);
+	});
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { DEFAULT_CONFIGURATION, ProjectConfig } from '../services/projectConfig';
+
+suite('ProjectConfig Test Suite', () => {
+	const projectConfig = new ProjectConfig();
+	const root = path.resolve('/work/project');
+
+	test('keeps the valid entries of a config file and reports the others', () => {
+		const file = projectConfig.parse(JSON.stringify({
+			$schema: './node_modules/ockla/schemas/ocklarc.schema.json',
+			executionTimeout: 10000,
+			asyncTimeout: 'long',
+			permissions: { childProcess: false, network: { allow: 'localhost' } },
+			colors: true,
+			rules: [{ files: 'scratch/**', autoRunOnSave: true }, { autoRunOnSave: true }],
+		}), root);
+
+		assert.deepStrictEqual(file.overrides, { executionTimeout: 10000, permissions: { childProcess: false } });
+		assert.deepStrictEqual(file.rules, [{ files: ['scratch/**'], overrides: { autoRunOnSave: true } }]);
+		assert.deepStrictEqual(file.problems, [
+			'"asyncTimeout" must be a positive number',
+			'"permissions.network" must be an object with "allow" and "deny" lists',
+			'Unknown setting "colors"',
+			'"rules[1].files" must be a glob or a list of globs',
+		]);
+		assert.strictEqual(projectConfig.parse('{ "executionTimeout": ', root).problems.length, 1);
+	});
+
+	test('applies nearer config files and matching rules last, merging env and permissions', () => {
+		const rootFile = projectConfig.parse(JSON.stringify({
+			executionTimeout: 10000,
+			env: { API_URL: 'http://localhost', MODE: 'dev' },
+			permissions: { fileSystem: { allow: ['.'] } },
+			rules: [{ files: ['**/*.test.ts', 'scratch/*.{js,ts}'], autoRunOnSave: true }],
+		}), root);
+		const nestedFile = projectConfig.parse(JSON.stringify({
+			env: { MODE: 'scratch' },
+			permissions: { fileSystem: { deny: ['secrets'] } },
+		}), path.join(root, 'scratch'));
+
+		const config = projectConfig.resolve(DEFAULT_CONFIGURATION, [rootFile, nestedFile], path.join(root, 'scratch', 'try.ts'));
+
+		assert.strictEqual(config.executionTimeout, 10000);
+		assert.strictEqual(config.autoRunOnSave, true);
+		assert.deepStrictEqual(config.env, { API_URL: 'http://localhost', MODE: 'scratch' });
+		assert.deepStrictEqual(config.permissions.fileSystem, { allow: ['.'], deny: ['secrets'] });
+		assert.strictEqual(config.permissions.childProcess, true);
+		assert.strictEqual(projectConfig.resolve(DEFAULT_CONFIGURATION, [rootFile], path.join(root, 'src', 'try.ts')).autoRunOnSave, false);
+	});
+
+	test('resolves preload paths from the config file and merges globals', () => {
+		const rootFile = projectConfig.parse(JSON.stringify({
+			preload: ['./setup/fixtures.ts', 'reflect-metadata'],
+			globals: { _: 'lodash' },
+		}), root);
+		const nestedFile = projectConfig.parse(JSON.stringify({
+			globals: { dayjs: 'dayjs' },
+			rules: [{ files: '*.ts', preload: ['../setup/db.ts'] }],
+		}), path.join(root, 'scratch'));
+
+		assert.deepStrictEqual(rootFile.overrides.preload, [path.join(root, 'setup', 'fixtures.ts'), 'reflect-metadata']);
+
+		const config = projectConfig.resolve(DEFAULT_CONFIGURATION, [rootFile, nestedFile], path.join(root, 'scratch', 'try.ts'));
+		assert.deepStrictEqual(config.preload, [path.join(root, 'setup', 'db.ts')]);
+		assert.deepStrictEqual(config.globals, { _: 'lodash', dayjs: 'dayjs' });
+	});
+
+	test('matches globs relative to the folder of the config file', () => {
+		assert.strictEqual(projectConfig.matchesGlob('**/*.ts', 'a/b/c.ts'), true);
+		assert.strictEqual(projectConfig.matchesGlob('**/*.ts', 'c.ts'), true);
+		assert.strictEqual(projectConfig.matchesGlob('*.ts', 'a/c.ts'), false);
+		assert.strictEqual(projectConfig.matchesGlob('src/?.{js,mjs}', 'src/a.mjs'), true);
+		assert.strictEqual(projectConfig.matchesGlob('[!_]*.js', '_private.js'), false);
+	});
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { RunHistory } from '../services/runHistory';
+import type { HistoryStorage } from '../services/runHistory';
+
+/**
+ * Storage kept in memory, like the workspace state of the extension
+ */
+function createStorage(): HistoryStorage & { values: Map<string, unknown> } {
+	const values = new Map<string, unknown>();
+	return {
+		values,
+		get: <T>(key: string) => values.get(key) as T | undefined,
+		update: (key: string, value: unknown) => {
+			values.set(key, JSON.parse(JSON.stringify(value)));
+			return Promise.resolve();
+		},
+	};
+}
+
+suite('RunHistory Test Suite', () => {
+	test('keeps the runs of each file, newest first', () => {
+		const history = new RunHistory(createStorage());
+
+		history.add('file:///a.js', '1', { success: true, output: 'one' });
+		history.add('file:///b.js', '2', { success: false, output: '', error: 'boom', missingPackages: ['lodash'] });
+		history.add('file:///a.js', '3', { success: true, output: 'three' });
+
+		assert.deepStrictEqual(history.getRuns('file:///a.js').map(run => run.output), ['three', 'one']);
+		assert.strictEqual(history.getRuns('file:///b.js')[0].error, 'boom');
+		assert.deepStrictEqual(history.getRuns('file:///b.js')[0].missingPackages, ['lodash']);
+	});
+
+	test('tells runs of different code apart by its hash', () => {
+		const history = new RunHistory(createStorage());
+
+		const first = history.add('file:///a.js', 'a * 2', { success: true, output: '' });
+		const same = history.add('file:///a.js', 'a * 2', { success: true, output: '' });
+		const changed = history.add('file:///a.js', 'a * 3', { success: true, output: '' });
+
+		assert.strictEqual(first.codeHash, same.codeHash);
+		assert.notStrictEqual(first.codeHash, changed.codeHash);
+		assert.strictEqual(history.getRun('file:///a.js', same.id), same);
+	});
+
+	test('keeps the output of large runs as text, cut to a size that can be persisted', () => {
+		const storage = createStorage();
+		const history = new RunHistory(storage);
+		const entries = Array.from({ length: 600 }, (_, index) => ({
+			level: 'log' as const,
+			text: index === 0 ? 'x'.repeat(20000) : String(index),
+			preview: String(index),
+			values: [{ kind: 'number' as const, description: String(index) }],
+		}));
+		history.add('file:///a.js', 'log()', { success: true, output: 'y'.repeat(50000), entries });
+
+		const [record] = new RunHistory(storage).getRuns('file:///a.js');
+		assert.strictEqual(record.output.length, 10001);
+		assert.strictEqual(record.entries.length, 501);
+		assert.strictEqual(record.entries[0].text.length, 10001);
+		assert.ok(record.entries.every(entry => entry.values === undefined));
+		assert.strictEqual(record.entries[500].text, '100 more entries were not kept in the history');
+	});
+
+	test('persists the runs and drops the oldest ones', () => {
+		const storage = createStorage();
+		const history = new RunHistory(storage);
+		for (let index = 0; index < 25; index++) {
+			history.add('file:///a.js', String(index), { success: true, output: String(index) });
+		}
+
+		const restored = new RunHistory(storage).getRuns('file:///a.js');
+		assert.strictEqual(restored.length, 20);
+		assert.strictEqual(restored[0].output, '24');
+		assert.strictEqual(restored[19].output, '5');
+	});
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { SandboxConsole } from '../services/sandboxConsole';
+import type { OutputLevel, OutputPayload } from '../types';
+
+suite('SandboxConsole Test Suite', () => {
+	let captured: { level: OutputLevel; args: unknown[]; payload?: OutputPayload; depth: number }[];
+	let sandboxConsole: SandboxConsole;
+	let sandbox: ReturnType<SandboxConsole['create']>;
+
+	setup(() => {
+		captured = [];
+		sandboxConsole = new SandboxConsole({
+			capture: (level, args, details) => captured.push({ level, args, payload: details.payload, depth: sandboxConsole.groupDepth }),
+			getCallerPosition: () => undefined,
+			getStackFrames: () => [{ functionName: 'f', position: { line: 3, column: 5 } }],
+			preview: value => String(value),
+		});
+		sandbox = sandboxConsole.create();
+	});
+
+	test('applies format specifiers', () => {
+		sandbox.info('%s items cost %d', 'three', 42);
+
+		assert.deepStrictEqual(captured.map(entry => [entry.level, entry.args]), [['info', ['three items cost 42']]]);
+	});
+
+	test('builds tables from arrays of objects and primitives', () => {
+		sandbox.table([{ a: 1, b: 'x' }, { a: 2 }, 7]);
+
+		assert.deepStrictEqual(captured[0].payload, {
+			type: 'table',
+			columns: ['a', 'b', 'Values'],
+			rows: [
+				{ index: '0', cells: ['1', 'x', ''] },
+				{ index: '1', cells: ['2', '', ''] },
+				{ index: '2', cells: ['', '', '7'] },
+			],
+		});
+	});
+
+	test('nests output in groups', () => {
+		sandbox.group('outer');
+		sandbox.log('inside');
+		sandbox.groupEnd();
+		sandbox.log('outside');
+
+		assert.deepStrictEqual(
+			captured.map(entry => [entry.payload?.type, entry.depth]),
+			[['group', 0], [undefined, 1], ['groupEnd', 0], [undefined, 0]]
+		);
+	});
+
+	test('counts and warns about unknown labels', () => {
+		sandbox.count();
+		sandbox.count();
+		sandbox.countReset('missing');
+		sandbox.timeEnd('missing');
+
+		assert.deepStrictEqual(captured.map(entry => [entry.level, entry.args[0]]), [
+			['log', 'default: 1'],
+			['log', 'default: 2'],
+			['warn', "Count for 'missing' does not exist"],
+			['warn', "Timer 'missing' does not exist"],
+		]);
+	});
+
+	test('reports failed assertions and traces', () => {
+		sandbox.assert(true, 'never shown');
+		sandbox.assert(false, 'value is %d', 3);
+		sandbox.trace('here');
+
+		assert.deepStrictEqual(captured[0].args, ['Assertion failed: value is 3']);
+		assert.deepStrictEqual(captured[1].payload, { type: 'trace', frames: [{ functionName: 'f', position: { line: 3, column: 5 } }] });
+	});
+});
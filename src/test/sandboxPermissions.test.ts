@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_PERMISSIONS, PermissionDeniedError, SandboxPermissions } from '../services/sandboxPermissions';
+
+suite('SandboxPermissions Test Suite', () => {
+	const workingDirectory = path.resolve('/work/project');
+
+	test('checks paths against the allowed and denied entries, relative ones from the working directory', () => {
+		const permissions = new SandboxPermissions({
+			...DEFAULT_PERMISSIONS,
+			fileSystem: { allow: ['.', '/tmp'], deny: ['secrets'] },
+		}, workingDirectory);
+
+		assert.strictEqual(permissions.allowsPath('data/input.json'), true);
+		assert.strictEqual(permissions.allowsPath('/tmp/out.txt'), true);
+		assert.strictEqual(permissions.allowsPath('secrets/key.pem'), false);
+		assert.strictEqual(permissions.allowsPath('/tmpfile'), false);
+		assert.strictEqual(permissions.allowsPath('../other'), false);
+	});
+
+	test('matches hosts exactly or by subdomain wildcard', () => {
+		const permissions = new SandboxPermissions({
+			...DEFAULT_PERMISSIONS,
+			network: { allow: ['*.example.com', 'localhost'], deny: ['admin.example.com'] },
+		}, workingDirectory);
+
+		assert.strictEqual(permissions.allowsHost('api.example.com'), true);
+		assert.strictEqual(permissions.allowsHost('LOCALHOST'), true);
+		assert.strictEqual(permissions.allowsHost('admin.example.com'), false);
+		assert.strictEqual(permissions.allowsHost('example.org'), false);
+	});
+
+	test('keeps the environment variables matching the allow-list', () => {
+		const permissions = new SandboxPermissions({ ...DEFAULT_PERMISSIONS, env: ['NODE_ENV', 'APP_*'] }, workingDirectory);
+
+		assert.deepStrictEqual(
+			permissions.filterEnv({ NODE_ENV: 'test', APP_PORT: '80', APP_NAME: 'x', AWS_SECRET: 's' }),
+			{ NODE_ENV: 'test', APP_PORT: '80', APP_NAME: 'x' }
+		);
+	});
+
+	test('guards the file system functions and refuses modules that start processes', async () => {
+		const permissions = new SandboxPermissions({
+			...DEFAULT_PERMISSIONS,
+			fileSystem: { allow: ['.'], deny: [] },
+			childProcess: false,
+		}, workingDirectory);
+		const guarded = permissions.guardModule('node:fs', fs);
+
+		assert.notStrictEqual(guarded, fs);
+		assert.strictEqual(permissions.guardModule('node:fs', fs), guarded);
+		assert.throws(() => guarded.readFileSync('/etc/passwd'), (err: Error) =>
+			err instanceof PermissionDeniedError && /ockla\.permissions\.fileSystem/.test(err.message));
+		await assert.rejects(guarded.promises.readFile('/etc/passwd'), PermissionDeniedError);
+		assert.throws(() => permissions.checkModule('node:child_process'), PermissionDeniedError);
+		assert.strictEqual(permissions.guardModule('node:path', path), path);
+	});
+});
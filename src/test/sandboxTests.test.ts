@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { SandboxTests } from '../services/sandboxTests';
+import type { OutputLevel, TestResult } from '../types';
+
+suite('SandboxTests Test Suite', () => {
+	let captured: { level: OutputLevel; text: unknown; result?: TestResult }[];
+	let sandboxTests: SandboxTests;
+	let sandbox: Record<string, any>;
+
+	setup(() => {
+		captured = [];
+		sandboxTests = new SandboxTests({
+			capture: (level, args, details) => captured.push({
+				level,
+				text: args[0],
+				result: details.payload.type === 'test' ? details.payload.result : undefined,
+			}),
+			getCallerPosition: () => undefined,
+		});
+		sandbox = sandboxTests.create();
+	});
+
+	test('runs the declared tests in order, nested in their describe blocks', async () => {
+		sandbox.describe('math', () => {
+			sandbox.it('adds', () => sandbox.expect(1 + 1).toBe(2));
+			sandbox.test.skip('divides', () => undefined);
+		});
+		sandbox.test('waits', async () => sandbox.expect(Promise.resolve(3)).resolves.toBe(3));
+		await sandboxTests.run();
+
+		assert.deepStrictEqual(captured.map(entry => [entry.level, entry.result?.name, entry.result?.status]), [
+			['log', ['math', 'adds'], 'passed'],
+			['log', ['math', 'divides'], 'skipped'],
+			['log', ['waits'], 'passed'],
+		]);
+		assert.strictEqual(captured[1].text, '○ math › divides');
+	});
+
+	test('reports failed assertions with the values they compared', async () => {
+		sandbox.it('compares', () => sandbox.expect({ b: 2, a: [1] }).toEqual({ a: [1], b: 3 }));
+		sandbox.it('throws', () => {
+			throw new RangeError('out of range');
+		});
+		await sandboxTests.run();
+
+		const [assertion, error] = captured.map(entry => entry.result!);
+		assert.strictEqual(captured[0].level, 'error');
+		assert.strictEqual(assertion.message, 'expect(received).toEqual(expected)\n\nExpected: { a: [ 1 ], b: 3 }\nReceived: { a: [ 1 ], b: 2 }');
+		assert.deepStrictEqual([assertion.expected, assertion.actual], ['{ a: [ 1 ], b: 3 }', '{ a: [ 1 ], b: 2 }']);
+		assert.deepStrictEqual([error.status, error.message, error.expected], ['failed', 'RangeError: out of range', undefined]);
+	});
+
+	test('runs only the tests of the filter', async () => {
+		sandbox.describe('outer', () => {
+			sandbox.it('first', () => undefined);
+			sandbox.it('second', () => undefined);
+		});
+		sandbox.it('first', () => undefined);
+		await sandboxTests.run(['outer', 'first']);
+
+		assert.deepStrictEqual(captured.map(entry => entry.result?.name), [['outer', 'first']]);
+	});
+
+	test('supports the usual matchers and their negation', async () => {
+		const { expect } = sandbox;
+		sandbox.it('matches', async () => {
+			expect(new Map([['a', { x: 1 }]])).toEqual(new Map([['a', { x: 1, y: undefined }]]));
+			expect({ a: 1, b: { c: [2, 3] } }).toMatchObject({ b: { c: [2, 3] } });
+			expect({ a: { b: [0, 5] } }).toHaveProperty('a.b[1]', 5);
+			expect([1, 2]).not.toContain(3);
+			expect('scratch file').toMatch(/file$/);
+			expect(0.1 + 0.2).toBeCloseTo(0.3);
+			expect(() => JSON.parse('{')).toThrow(SyntaxError);
+			await expect(Promise.reject(new Error('nope'))).rejects.toThrow('nope');
+			expect({ a: undefined }).not.toStrictEqual({});
+		});
+		await sandboxTests.run();
+
+		assert.deepStrictEqual(captured.map(entry => [entry.result?.status, entry.result?.message]), [['passed', undefined]]);
+	});
+});
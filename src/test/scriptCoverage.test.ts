@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { ScriptCoverage } from '../services/scriptCoverage';
+
+suite('ScriptCoverage Test Suite', () => {
+	const coverage = new ScriptCoverage();
+
+	test('counts the lines with code at their innermost range, leaving out the wrapper', () => {
+		const code = `(async function() {\nconst a = 0;\n// check a\nif (a) {\n  run();\n}\n})()`;
+		const blockStart = code.indexOf('{\n  run');
+		const functions = [{
+			functionName: '',
+			isBlockCoverage: true,
+			ranges: [
+				{ startOffset: 1, endOffset: code.length - 3, count: 1 },
+				{ startOffset: blockStart, endOffset: code.indexOf('}\n})') + 1, count: 0 },
+			],
+		}];
+
+		assert.deepStrictEqual(coverage.count(code, functions, 1), {
+			lines: [
+				{ position: { line: 1, column: 1 }, count: 1 },
+				{ position: { line: 3, column: 1 }, count: 1 },
+				{ position: { line: 4, column: 3 }, count: 0 },
+			],
+			branches: [{ position: { line: 3, column: 8 }, count: 0 }],
+		});
+	});
+});
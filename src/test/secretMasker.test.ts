@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { inspect } from 'util';
+import { SecretMasker } from '../services/secretMasker';
+
+suite('SecretMasker Test Suite', () => {
+	test('hides the values of variables named like secrets', () => {
+		const masker = new SecretMasker({ API_KEY: 'sk-12345', DB_PASSWORD: 'hunter22', USER: 'alice', PIN_TOKEN: 'ab' });
+
+		assert.strictEqual(masker.mask('key sk-12345, pass hunter22, user alice'), 'key ********, pass ********, user alice');
+		// Values too short to hide without hiding unrelated text are left as they are
+		assert.strictEqual(masker.mask('ab'), 'ab');
+	});
+
+	test('matches AUTH as a whole word of the name only', () => {
+		const masker = new SecretMasker({ NPM_AUTH: 'npm-auth', AUTH_HEADER: 'Basic xyz', GIT_AUTHOR_NAME: 'Alice', AUTHOR: 'Bob Smith' });
+
+		assert.strictEqual(
+			masker.mask('npm-auth, Basic xyz, by Alice and Bob Smith'),
+			'********, ********, by Alice and Bob Smith'
+		);
+	});
+
+	test('hides secrets escaped in the JSON and the inspection of strings', () => {
+		const secret = 'ab"cd\\ef';
+		const masker = new SecretMasker({ MY_TOKEN: secret });
+
+		assert.deepStrictEqual(
+			masker.maskData({ text: secret, description: JSON.stringify(secret), preview: inspect({ token: secret }) }),
+			{ text: '********', description: '"********"', preview: "{ token: '********' }" }
+		);
+	});
+
+	test('hides secrets in every string of captured data', () => {
+		const masker = new SecretMasker({ GITHUB_TOKEN: 'ghp_secret' });
+
+		assert.deepStrictEqual(
+			masker.maskData({ text: 'Bearer ghp_secret', line: 2, args: [['ghp_secret', 1]] }),
+			{ text: 'Bearer ********', line: 2, args: [['********', 1]] }
+		);
+	});
+});
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { SessionTransformer } from '../services/sessionTransformer';
+
+suite('SessionTransformer Test Suite', () => {
+	const transformer = new SessionTransformer();
+
+	test('turns top-level variables into assignments to globals', () => {
+		const { source, globals } = transformer.transform('const a = 1, { b, c: [d] } = o;\nlet e;\nif (a) { const f = 2; }');
+
+		assert.strictEqual(source.code, 'void (a = 1, { b, c: [d] } = o);\nvoid (e = undefined);\nif (a) { const f = 2; }');
+		assert.deepStrictEqual(globals, ['a', 'b', 'd', 'e']);
+	});
+
+	test('keeps classes and functions in the global object', () => {
+		const { source, globals } = transformer.transform(`'use strict';\nclass A {}\nfunction f() {}`);
+
+		assert.strictEqual(source.code, `'use strict';\nglobalThis.f = f; A = class A {};\nfunction f() {}`);
+		assert.deepStrictEqual(globals, ['A']);
+	});
+
+	test('maps positions back to the original code', () => {
+		const { source } = transformer.transform('const value = 1;\nvalue.missing.property;');
+
+		assert.deepStrictEqual(source.originalPosition(1, 7), { line: 1, column: 7 });
+		assert.deepStrictEqual(source.originalPosition(2, 7), { line: 2, column: 7 });
+	});
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnapshotStore } from '../services/snapshotStore';
+
+suite('SnapshotStore Test Suite', () => {
+	const store = new SnapshotStore();
+	let directory: string;
+
+	setup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ockla-snapshots-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('keeps the snapshots of a script next to it, sorted by name', () => {
+		const file = store.getPath(path.join(directory, 'transform.ts'));
+		assert.strictEqual(file, path.join(directory, '__ockla_snapshots__', 'transform.ts.snap.json'));
+		assert.deepStrictEqual(store.read(file), {});
+
+		store.write(file, 'users', '[ 1, 2 ]');
+		store.write(file, 'totals', '{ a: 1 }');
+		store.write(file, 'users', '[ 1, 2, 3 ]');
+
+		assert.strictEqual(fs.readFileSync(file, 'utf8'), '{\n  "totals": "{ a: 1 }",\n  "users": "[ 1, 2, 3 ]"\n}\n');
+	});
+
+	test('rejects files that are not snapshot files', () => {
+		const file = path.join(directory, 'broken.snap.json');
+		fs.writeFileSync(file, '{ "a": 1 }');
+
+		assert.throws(() => store.read(file), /is not a snapshot file/);
+	});
+});
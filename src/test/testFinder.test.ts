@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { TestFinder } from '../services/testFinder';
+import type { FoundTest } from '../services/testFinder';
+
+suite('TestFinder Test Suite', () => {
+	const finder = new TestFinder();
+	const summarize = (tests: FoundTest[]): unknown[] =>
+		tests.map(test => [test.kind, test.name.join(' › '), test.line, ...summarize(test.children)]);
+
+	test('finds describe blocks and tests with their names and lines', () => {
+		const code = [
+			`const sum = (a: number, b: number) => a + b;`,
+			`describe('sum', () => {`,
+			`  it('adds', () => expect(sum(1, 2)).toBe(3));`,
+			`  test.skip(\`negatives\`, () => {});`,
+			`});`,
+			`test('alone', async () => {});`,
+		].join('\n');
+
+		assert.deepStrictEqual(summarize(finder.find(code, 'typescript')), [
+			['describe', 'sum', 1, ['test', 'sum › adds', 2], ['test', 'sum › negatives', 3]],
+			['test', 'alone', 5],
+		]);
+	});
+
+	test('leaves out tests whose name is only known when the script runs', () => {
+		const code = `for (const n of [1, 2]) {\n  it(\`case \${n}\`, () => {});\n}\nsuite.it('x');`;
+
+		assert.deepStrictEqual(finder.find(code, 'javascript'), []);
+	});
+});
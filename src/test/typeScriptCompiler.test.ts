@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { TypeScriptCompiler, CompilationError } from '../services/typeScriptCompiler';
+
+suite('TypeScriptCompiler Test Suite', () => {
+	const compiler = new TypeScriptCompiler();
+	// Not on disk: the nearest tsconfig.json is the one of the repository
+	const filePath = path.resolve(__dirname, '../../src/test/script.ts');
+
+	test('strips types and keeps ES module syntax', () => {
+		const { code } = compiler.compile(`import { a } from 'a';\nconst n: number = a;\nn`, filePath);
+
+		assert.ok(code.includes(`import { a } from 'a';`));
+		assert.ok(code.includes('const n = a;'));
+		assert.ok(!code.includes('sourceMappingURL'));
+	});
+
+	test('maps positions of the output back to the TypeScript source', () => {
+		const source = `interface Point {\n  x: number;\n}\n\nconst p: Point = { x: 1 };\np.x`;
+		const compiled = compiler.compile(source, filePath);
+		const lines = compiled.code.split('\n');
+		const line = lines.findIndex(text => text.startsWith('p.x')) + 1;
+
+		assert.deepStrictEqual(compiled.originalPosition(line, 3), { line: 6, column: 3 });
+	});
+
+	test('reports syntax errors at their TypeScript position', () => {
+		assert.throws(
+			() => compiler.compile(`const a: number = 1;\nconst b = (a;`, filePath),
+			(err: unknown) => err instanceof CompilationError
+				&& err.message.startsWith('TS1005')
+				&& err.position.line === 2
+		);
+	});
+
+	test('compiles JSX in TSX files', () => {
+		const { code } = compiler.compile(`const el = <div />;`, filePath, 'typescriptreact');
+		assert.ok(!code.includes('<div'));
+	});
+
+	test('recognizes TypeScript files but not declaration files', () => {
+		assert.ok(compiler.isTypeScriptFile('a.ts'));
+		assert.ok(compiler.isTypeScriptFile('a.mts'));
+		assert.ok(compiler.isTypeScriptFile('a.tsx'));
+		assert.ok(!compiler.isTypeScriptFile('a.d.ts'));
+		assert.ok(!compiler.isTypeScriptFile('a.js'));
+	});
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { runInNewContext } from 'vm';
+import { ValueInspector } from '../services/valueInspector';
+
+suite('ValueInspector Test Suite', () => {
+	const inspector = new ValueInspector();
+
+	test('describes primitives', () => {
+		assert.deepStrictEqual(
+			['text', 1, -0, 10n, true, undefined, null, Symbol('s')].map(value => inspector.inspect(value).description),
+			['"text"', '1', '-0', '10n', 'true', 'undefined', 'null', 'Symbol(s)']
+		);
+	});
+
+	test('recognizes values from the sandbox realm', () => {
+		const values = runInNewContext(`[new Map([['a', 1]]), new Set([1]), new Date(0), /x/g, new TypeError('bad'), [1, 2]]`);
+
+		assert.deepStrictEqual(
+			Array.from(values as unknown[], value => [inspector.inspect(value).kind, inspector.inspect(value).description]),
+			[
+				['map', 'Map(1) {"a" => 1}'],
+				['set', 'Set(1) {1}'],
+				['date', '1970-01-01T00:00:00.000Z'],
+				['regexp', '/x/g'],
+				['error', 'TypeError: bad'],
+				['array', '(2) [1, 2]'],
+			]
+		);
+	});
+
+	test('keeps class names and lists getters without invoking them', () => {
+		let calls = 0;
+		class Point {
+			x = 1;
+			get length() {
+				return ++calls;
+			}
+		}
+
+		const inspected = inspector.inspect(new Point());
+		assert.strictEqual(inspected.description, 'Point {x: 1, length: [Getter]}');
+		assert.deepStrictEqual(inspected.children?.[1], { name: 'length', value: { kind: 'accessor', description: '[Getter]' } });
+		assert.strictEqual(calls, 0);
+	});
+
+	test('marks circular references', () => {
+		const value: Record<string, unknown> = { name: 'root' };
+		value.self = value;
+
+		const inspected = inspector.inspect(value);
+		assert.deepStrictEqual(inspected.children?.[1].value, { kind: 'circular', description: '[Circular Object]', className: 'Object' });
+	});
+
+	test('shows error causes', () => {
+		const inspected = inspector.inspect(new Error('outer', { cause: new Error('inner') }));
+
+		assert.deepStrictEqual(inspected.children?.map(child => child.name), ['message', 'stack', 'cause']);
+		assert.strictEqual(inspected.children?.[2].value.description, 'Error: inner');
+	});
+
+	test('limits large collections', () => {
+		const inspected = inspector.inspect(Array.from({ length: 1000 }, (_, index) => index));
+
+		assert.strictEqual(inspected.size, 1000);
+		assert.strictEqual(inspected.children?.length, 500);
+		assert.strictEqual(inspected.omitted, 500);
+		assert.strictEqual(inspected.description, '(1000) [0, 1, 2, 3, 4, …]');
+	});
+});
@@ -2,23 +2,348 @@
  * Type definitions for Ockla extension
  */
 
+export type OutputLevel = 'log' | 'info' | 'debug' | 'warn' | 'error';
+
+/**
+ * A frame of a stack trace
+ */
+export interface StackFrame {
+  functionName?: string;
+  /** Position in the user code, for frames of the executed script */
+  position?: SourcePosition;
+  /** Location text of frames outside the script (node internals, packages) */
+  location?: string;
+}
+
+/**
+ * An error of the script, with its stack trace
+ */
+export interface ErrorDetails {
+  /** Error class, e.g. "TypeError"; empty for thrown values that are not errors */
+  name: string;
+  message: string;
+  frames: StackFrame[];
+  /** The error given as `cause`, if any */
+  cause?: ErrorDetails;
+}
+
+/**
+ * Structured content of console methods that are more than a list of values
+ */
+export type OutputPayload =
+  /** console.table */
+  | { type: 'table'; columns: string[]; rows: { index: string; cells: string[] }[] }
+  /** console.group and console.groupCollapsed; the entries that follow belong to the group */
+  | { type: 'group'; label: string; collapsed: boolean }
+  /** console.groupEnd */
+  | { type: 'groupEnd' }
+  /** console.timeEnd and console.timeLog */
+  | { type: 'timer'; label: string; duration: number }
+  /** console.count */
+  | { type: 'count'; label: string; count: number }
+  /** console.trace */
+  | { type: 'trace'; frames: StackFrame[] }
+  /** A test declared with it() or test(), once it has run */
+  | { type: 'test'; result: TestResult }
+  /** A value pinned with snapshot() */
+  | { type: 'snapshot'; snapshot: SnapshotResult };
+
+export type SnapshotStatus = 'written' | 'matched' | 'changed' | 'unsaved';
+
+/**
+ * A value pinned with snapshot(), compared with the one stored by an earlier run
+ */
+export interface SnapshotResult {
+  name: string;
+  /** The value, serialized */
+  value: string;
+  /** How the value compares with the stored one; set by the executor, which keeps the snapshots */
+  status?: SnapshotStatus;
+  /** The snapshot file of the script */
+  file?: string;
+  /** The stored value, when the new one differs from it */
+  stored?: string;
+}
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+/**
+ * The outcome of a test of the script
+ */
+export interface TestResult {
+  /** Names of the describe blocks the test is in, outermost first, then the name of the test */
+  name: string[];
+  status: TestStatus;
+  /** Time the test took, in ms; skipped tests did not run */
+  duration?: number;
+  /** Line of the test in the original code */
+  line?: number;
+  /** Why the test failed */
+  message?: string;
+  /** The values compared by the failed assertion, serialized to show their differences */
+  expected?: string;
+  actual?: string;
+}
+
+/**
+ * Kind of an inspected value, deciding how the object inspector shows it
+ */
+export type InspectedKind =
+  | 'string' | 'number' | 'bigint' | 'boolean' | 'symbol' | 'undefined' | 'null'
+  | 'function' | 'object' | 'array' | 'map' | 'set' | 'date' | 'regexp' | 'error' | 'promise'
+  /** A property with a getter or setter, not invoked */
+  | 'accessor'
+  /** A reference to an object that contains it */
+  | 'circular';
+
+/**
+ * A value of the script serialized for the object inspector
+ */
+export interface InspectedValue {
+  kind: InspectedKind;
+  /** Single-line description, e.g. '"text"', 'Map(2) {"a" => 1, "b" => 2}' or 'Point {x: 1, y: 2}' */
+  description: string;
+  /** Name of the constructor of objects, e.g. "Point" for class instances */
+  className?: string;
+  /** Number of elements of arrays, maps and sets */
+  size?: number;
+  /** Properties or entries, for objects that can be expanded */
+  children?: InspectedProperty[];
+  /** Number of properties or entries left out of children because there were too many */
+  omitted?: number;
+}
+
+export interface InspectedProperty {
+  /** Property name, array index, or description of a map key */
+  name: string;
+  value: InspectedValue;
+  /** The property is a map entry, shown as "key => value" */
+  entry?: boolean;
+}
+
+export interface OutputEntry {
+  level: OutputLevel;
+  text: string;
+  preview: string;
+  line?: number;
+  column?: number;
+  /** Time the value was captured, in ms since the epoch */
+  timestamp?: number;
+  /** Number of console groups the entry is nested in */
+  depth?: number;
+  payload?: OutputPayload;
+  /** The logged values, for the object inspector */
+  values?: InspectedValue[];
+  /** The error, for entries of errors thrown by the script or that stopped the run */
+  error?: ErrorDetails;
+}
+
+export interface PendingOperation {
+  /** Kind of operation, e.g. "setInterval" or "socket" */
+  kind: string;
+  /** Line of the code that started it, if known */
+  line?: number;
+}
+
+/**
+ * How many times the code of a run ran, by line and by branch
+ */
+export interface CoverageReport {
+  /** Lines of the original code with code on them, in order, with the times their first statement ran */
+  lines: { line: number; count: number }[];
+  /**
+   * Blocks that ran a different number of times than the code around them, such as the branches
+   * of a condition or the code after an early return; 1-based positions in the original code
+   */
+  branches: (SourcePosition & { count: number })[];
+}
+
 export interface ExecutionResult {
+  success: boolean;
+  output: string;
+  entries?: OutputEntry[];
+  /** Async operations still pending when the run stopped waiting for them */
+  pending?: PendingOperation[];
+  error?: string;
+  executionTime?: number;
+  /** Paths of the env files loaded for the run */
+  envFiles?: string[];
+  /** Preload scripts and modules run before the code */
+  preload?: string[];
+  /** Globals injected in the run, with the module each one comes from */
+  globals?: Record<string, string>;
+  /** Project files the script loaded, such as the local modules it imported */
+  dependencies?: string[];
+  /** Packages the script imports that are not installed, which kept it from running */
+  missingPackages?: string[];
+  /** The tests the script declared, in the order they ran */
+  tests?: TestResult[];
+  /** How many times each line and branch ran, when the run collected coverage */
+  coverage?: CoverageReport;
+}
+
+/**
+ * A past run of a file, kept in the execution history
+ */
+export interface RunRecord {
+  id: string;
+  /** Time the run finished, in ms since the epoch */
+  timestamp: number;
+  /** Hash of the executed code, telling apart runs of different versions of the script */
+  codeHash: string;
   success: boolean;
   output: string;
   error?: string;
   executionTime?: number;
+  entries: OutputEntry[];
+  /** Project files the run loaded, whose saving runs the file again when it runs automatically */
+  dependencies?: string[];
+  /** Packages the script imports that are not installed, the only ones the output panel may install */
+  missingPackages?: string[];
 }
 
+/**
+ * The configuration a document runs with: the settings, overridden by the
+ * .ocklarc.json files of its folders and the rules in them that match it
+ */
 export interface OcklaConfiguration {
   autoRunOnSave: boolean;
+  /** Run the document as it is edited, once typing pauses for liveModeDelay ms */
+  liveMode: boolean;
+  liveModeDelay: number;
+  /** Globs, relative to the workspace folder, of the files that run by themselves; all when empty */
+  autoRunInclude: string[];
+  /** Globs of the files that never run by themselves, unless turned on one by one */
+  autoRunExclude: string[];
+  autoShowPanel: boolean;
   showExecutionTime: boolean;
+  showInlineResults: boolean;
+  /** Collect code coverage on each run, shown in the editor gutter */
+  coverage: boolean;
   maxOutputLength: number;
-  enabledFileTypes: string[];
+  /** Time limits of a run, in ms */
+  executionTimeout: number;
+  asyncTimeout: number;
+  /** Heap size limit of the execution worker, in MB */
+  memoryLimit: number;
+  sessionMode: boolean;
+  /** Environment variables added to those of the run, over those of env files */
+  env: Record<string, string>;
+  /** Load the .env files of the workspace folder or of the folder of the script */
+  loadEnvFiles: boolean;
+  envFilesLocation: 'workspace' | 'script';
+  /** Mode of the mode-specific env files (.env.[mode]), none when empty */
+  envMode: string;
+  /** Hide the values of secret environment variables in the output */
+  maskSecrets: boolean;
+  /** Scripts (paths) and modules (package names) run before the code of every run */
+  preload: string[];
+  /** Globals injected in every run, by name, with the module they are loaded from */
+  globals: Record<string, string>;
+  /** Where missing packages are installed: the project of the script, or the scratch folder of Ockla */
+  packageInstallLocation: 'project' | 'scratch';
+  permissions: PermissionPolicy;
+}
+
+export interface SourcePosition {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * How a file runs by itself: as it is edited, when saved, or not at all
+ */
+export type AutoRunMode = 'live' | 'save' | 'off';
+
+export type ScriptLanguage = 'javascript' | 'typescript' | 'typescriptreact';
+
+/**
+ * Part of the active document a run command executes
+ */
+export type RunScope =
+  | 'file'
+  /** The selected code, or the line of the cursor */
+  | 'selection'
+  /** The top-level statement under the cursor */
+  | 'block'
+  /** Everything up to the end of the cursor line */
+  | 'toCursor';
+
+/**
+ * Entries allowing or denying access to paths or hosts; a denial wins over an allowance
+ */
+export interface AccessRules {
+  allow: string[];
+  deny: string[];
+}
+
+/**
+ * What scripts are allowed to do, enforced by the execution worker
+ */
+export interface PermissionPolicy {
+  /** Files and directories scripts may access through fs; "*" for any. Relative paths start at the working directory */
+  fileSystem: AccessRules;
+  /** Hosts scripts may connect to; "*" for any, "*.example.com" for its subdomains */
+  network: AccessRules;
+  /** Starting processes and threads (child_process, cluster, worker_threads) */
+  childProcess: boolean;
+  /** Loading native addons (.node files) */
+  nativeAddons: boolean;
+  /** Environment variables visible to scripts; "*" for all, "PREFIX_*" for those with a prefix */
+  env: string[];
+}
+
+/**
+ * Where the env files of a run are and which of them apply
+ */
+export interface EnvFileOptions {
+  directory: string;
+  /** Also load .env.[mode] and .env.[mode].local */
+  mode?: string;
 }
 
 export interface CodeExecutionOptions {
   timeout?: number;
+  /** Heap size limit of the execution worker, in MB */
   memory?: number;
+  /** Longest wait for pending timers and callbacks once the top-level code has finished */
   asyncTimeout?: number;
   workingDirectory?: string;
+  /** Path of the file being executed: its imports start at its folder, and its tsconfig.json applies */
+  filePath?: string;
+  language?: ScriptLanguage;
+  /**
+   * Key of a session: runs with the same key share one VM context, keeping the variables,
+   * functions and classes declared by earlier runs
+   */
+  session?: string;
+  /** What the script may do; everything is allowed by default */
+  permissions?: PermissionPolicy;
+  /** Environment variables added to those the permissions let through and those of env files */
+  env?: Record<string, string>;
+  /** Env files to load for the run */
+  envFiles?: EnvFileOptions;
+  /** Hide the values of secret environment variables in the output */
+  maskSecrets?: boolean;
+  /**
+   * Scripts and modules run in the context before the code: paths (relative to the working
+   * directory) of files whose top-level declarations become globals, or modules imported
+   * for their side effects
+   */
+  preload?: string[];
+  /** Globals to inject, by name, with the module specifier their value is imported from */
+  globals?: Record<string, string>;
+  /**
+   * Names of the describe blocks and test to run, outermost first; the tests outside them
+   * are left out. All the tests run when missing
+   */
+  testFilter?: string[];
+  /** Count how many times each line and branch of the code runs */
+  coverage?: boolean;
+  /** Cancels the run when aborted, as a newer run replaces it */
+  signal?: AbortSignal;
+  /** Receives each output entry as soon as it is captured */
+  onOutput?: (entry: OutputEntry) => void;
 }
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import type { CoverageReport, ExecutionResult } from '../types';
+
+/**
+ * How much of a line ran: all of it, not all of its branches, or none of it
+ */
+type LineCoverage = 'covered' | 'partial' | 'uncovered';
+
+// Colors of the gutter bar and the overview ruler mark of each kind of line
+const COVERAGE_COLORS: Record<LineCoverage, string> = {
+  covered: '#2ea043',
+  partial: '#d29922',
+  uncovered: '#f85149',
+};
+
+/**
+ * Marks the lines of the last run of a document in the editor gutter when the run collected
+ * coverage: green for the lines that ran, red for those that did not, and yellow for those that
+ * ran but left a branch out. Hovering a line tells how many times it ran
+ */
+export class CoverageDecorations {
+  private readonly decorationTypes: Record<LineCoverage, vscode.TextEditorDecorationType>;
+  private coverage = new Map<string, CoverageReport>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    const createType = (color: string) => vscode.window.createTextEditorDecorationType({
+      gutterIconPath: this.createGutterIcon(color),
+      gutterIconSize: 'contain',
+      overviewRulerColor: color,
+      overviewRulerLane: vscode.OverviewRulerLane.Left,
+    });
+    this.decorationTypes = {
+      covered: createType(COVERAGE_COLORS.covered),
+      partial: createType(COVERAGE_COLORS.partial),
+      uncovered: createType(COVERAGE_COLORS.uncovered),
+    };
+
+    // Re-apply decorations when an editor for a decorated document becomes visible again
+    vscode.window.onDidChangeVisibleTextEditors(
+      editors => editors.forEach(editor => this.render(editor)),
+      null,
+      this.disposables
+    );
+
+    // Forget the coverage of closed documents
+    vscode.workspace.onDidCloseTextDocument(
+      document => this.coverage.delete(document.uri.toString()),
+      null,
+      this.disposables
+    );
+  }
+
+  /**
+   * Marks the lines of a document with the coverage of its last run; runs without coverage remove the marks
+   * @param document - The document that was executed
+   * @param result - The execution result
+   */
+  update(document: vscode.TextDocument, result: ExecutionResult): void {
+    const key = document.uri.toString();
+    if (result.coverage) {
+      this.coverage.set(key, result.coverage);
+    } else {
+      this.coverage.delete(key);
+    }
+
+    vscode.window.visibleTextEditors
+      .filter(editor => editor.document.uri.toString() === key)
+      .forEach(editor => this.render(editor));
+  }
+
+  /**
+   * Removes all coverage marks
+   */
+  clear(): void {
+    this.coverage.clear();
+    vscode.window.visibleTextEditors.forEach(editor => this.render(editor));
+  }
+
+  /**
+   * Disposes of the decorations and their resources
+   */
+  dispose(): void {
+    Object.values(this.decorationTypes).forEach(type => type.dispose());
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.coverage.clear();
+  }
+
+  /**
+   * Applies the stored coverage of an editor's document as decorations
+   * @param editor - The editor to decorate
+   */
+  private render(editor: vscode.TextEditor): void {
+    const coverage = this.coverage.get(editor.document.uri.toString());
+    const decorations: Record<LineCoverage, vscode.DecorationOptions[]> = { covered: [], partial: [], uncovered: [] };
+
+    // Branches that did not run, by line
+    const missedBranches = new Map<number, number>();
+    coverage?.branches
+      .filter(branch => branch.count === 0)
+      .forEach(branch => missedBranches.set(branch.line, (missedBranches.get(branch.line) || 0) + 1));
+
+    coverage?.lines.forEach(({ line, count }) => {
+      if (line > editor.document.lineCount) {
+        return;
+      }
+      const missed = count > 0 ? missedBranches.get(line) || 0 : 0;
+      const kind: LineCoverage = count === 0 ? 'uncovered' : missed > 0 ? 'partial' : 'covered';
+      decorations[kind].push({
+        range: new vscode.Range(line - 1, 0, line - 1, 0),
+        hoverMessage: this.describe(count, missed),
+      });
+    });
+
+    for (const kind of Object.keys(decorations) as LineCoverage[]) {
+      editor.setDecorations(this.decorationTypes[kind], decorations[kind]);
+    }
+  }
+
+  /**
+   * Tells how many times a line ran, and how many of its branches did not
+   */
+  private describe(count: number, missedBranches: number): string {
+    if (count === 0) {
+      return 'Cobertura: no se ejecutó';
+    }
+    const times = `Cobertura: se ejecutó ${count} ${count === 1 ? 'vez' : 'veces'}`;
+    if (missedBranches === 0) {
+      return times;
+    }
+    return missedBranches === 1
+      ? `${times}; una rama no se ejecutó`
+      : `${times}; ${missedBranches} ramas no se ejecutaron`;
+  }
+
+  /**
+   * Creates a bar in the gutter, like those of changed lines
+   */
+  private createGutterIcon(color: string): vscode.Uri {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><rect x="5" y="0" width="4" height="16" fill="${color}"/></svg>`;
+    return vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(svg)}`);
+  }
+}
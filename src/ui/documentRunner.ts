@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { CodeExecutor } from '../services/codeExecutor';
+import { RunHistory } from '../services/runHistory';
+import { OutputPanel } from './outputPanel';
+import { InlineResults } from './inlineResults';
+import { ErrorDiagnostics } from './errorDiagnostics';
+import { CoverageDecorations } from './coverageDecorations';
+import { RunStatusBar } from './runStatusBar';
+import type { CodeExecutionOptions, ExecutionResult } from '../types';
+
+/**
+ * Runs documents for the run commands, auto-run and tests, streaming their output to the panel
+ * and showing the result everywhere it goes: the panel, the status bar, the editor (inline
+ * results, error diagnostics and coverage) and the run history.
+ *
+ * A run cancelled through its signal does not show its result: a newer run of the document
+ * takes over, or the output is left stale until the next one.
+ */
+export class DocumentRunner {
+  // Latest run of each document in progress, to tell whether a cancelled run was replaced
+  private readonly runs = new Map<string, object>();
+
+  constructor(
+    private codeExecutor: CodeExecutor,
+    private outputPanel: OutputPanel,
+    private inlineResults: InlineResults,
+    private errorDiagnostics: ErrorDiagnostics,
+    private coverageDecorations: CoverageDecorations,
+    private runHistory: RunHistory,
+    private runStatus: RunStatusBar
+  ) { }
+
+  /**
+   * Runs the code of a document
+   * @param document - The document the code belongs to
+   * @param code - The code to run
+   * @param options - Execution options; their output callback is replaced by the panel
+   * @param showPanel - Whether to show/reveal the panel
+   * @returns The execution result
+   */
+  async run(
+    document: vscode.TextDocument,
+    code: string,
+    options: CodeExecutionOptions,
+    showPanel: boolean
+  ): Promise<ExecutionResult> {
+    const source = document.uri;
+    const key = source.toString();
+    const run = {};
+    this.runs.set(key, run);
+
+    this.outputPanel.startRun(source, showPanel);
+    this.runStatus.start(source);
+    const result = await this.codeExecutor.execute(code, {
+      ...options,
+      onOutput: entry => {
+        if (!options.signal?.aborted) {
+          this.outputPanel.append(source, entry);
+        }
+      },
+    });
+
+    const replaced = this.runs.get(key) !== run;
+    if (!replaced) {
+      this.runs.delete(key);
+    }
+    const session = options.session;
+    const hasSession = !!session && this.codeExecutor.hasSession(session);
+
+    // A cancelled run leaves the panel to the run that replaced it; its session went with it
+    if (options.signal?.aborted) {
+      this.outputPanel.setSession(source, hasSession);
+      if (!replaced) {
+        this.outputPanel.markStale(source);
+        this.runStatus.cancel(source);
+      }
+      return result;
+    }
+
+    this.outputPanel.update(source, result, showPanel);
+    this.outputPanel.setSession(source, hasSession);
+    this.runStatus.finish(source, result);
+    this.inlineResults.update(document, result);
+    this.errorDiagnostics.update(document, result);
+    this.coverageDecorations.update(document, result);
+    this.runHistory.add(key, code, result);
+    return result;
+  }
+}
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import type { ExecutionResult } from '../types';
+
+/**
+ * Marks the lines where a run threw errors with error diagnostics (red squiggles in the editor)
+ */
+export class ErrorDiagnostics {
+  private readonly collection = vscode.languages.createDiagnosticCollection('ockla');
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    // Forget diagnostics of closed documents
+    vscode.workspace.onDidCloseTextDocument(
+      document => this.collection.delete(document.uri),
+      null,
+      this.disposables
+    );
+  }
+
+  /**
+   * Replaces the diagnostics of a document with the errors of its last run
+   * @param document - The document that was executed
+   * @param result - The execution result
+   */
+  update(document: vscode.TextDocument, result: ExecutionResult): void {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const entry of result.entries || []) {
+      if (!entry.error || entry.line === undefined || entry.line > document.lineCount) {
+        continue;
+      }
+
+      // From the error column, or the start of the code, to the end of the line
+      const line = document.lineAt(entry.line - 1);
+      const start = entry.column !== undefined
+        ? Math.min(entry.column - 1, line.range.end.character)
+        : line.firstNonWhitespaceCharacterIndex;
+      const range = new vscode.Range(line.lineNumber, start, line.lineNumber, line.range.end.character);
+
+      const { name, message } = entry.error;
+      const diagnostic = new vscode.Diagnostic(range, name ? `${name}: ${message}` : message, vscode.DiagnosticSeverity.Error);
+      diagnostic.source = 'Ockla';
+      diagnostics.push(diagnostic);
+    }
+
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  /**
+   * Removes all diagnostics
+   */
+  clear(): void {
+    this.collection.clear();
+  }
+
+  /**
+   * Disposes of the diagnostics and their resources
+   */
+  dispose(): void {
+    this.collection.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import type { ConfigService } from '../config/configService';
+import type { ExecutionResult, OutputEntry } from '../types';
+
+/**
+ * Renders captured values as after-line decorations next to the code that produced them
+ */
+export class InlineResults {
+  private readonly maxInlineLength = 120;
+  private readonly decorationType: vscode.TextEditorDecorationType;
+  private readonly errorDecorationType: vscode.TextEditorDecorationType;
+  private results = new Map<string, OutputEntry[]>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly configService: ConfigService) {
+    this.decorationType = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('editorCodeLens.foreground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 2em',
+      },
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedOpen,
+    });
+
+    this.errorDecorationType = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor('errorForeground'),
+        fontStyle: 'italic',
+        margin: '0 0 0 2em',
+      },
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedOpen,
+    });
+
+    // Re-apply decorations when an editor for a decorated document becomes visible again
+    vscode.window.onDidChangeVisibleTextEditors(
+      editors => editors.forEach(editor => this.render(editor)),
+      null,
+      this.disposables
+    );
+
+    // Forget results of closed documents
+    vscode.workspace.onDidCloseTextDocument(
+      document => this.results.delete(document.uri.toString()),
+      null,
+      this.disposables
+    );
+  }
+
+  /**
+   * Shows the values captured by a run next to the lines of the document that produced them
+   * @param document - The document that was executed
+   * @param result - The execution result
+   */
+  update(document: vscode.TextDocument, result: ExecutionResult): void {
+    const enabled = this.configService.get(document.uri).showInlineResults;
+    const key = document.uri.toString();
+
+    if (enabled) {
+      this.results.set(key, (result.entries || []).filter(entry => entry.line !== undefined && entry.payload?.type !== 'groupEnd'));
+    } else {
+      this.results.delete(key);
+    }
+
+    vscode.window.visibleTextEditors
+      .filter(editor => editor.document.uri.toString() === key)
+      .forEach(editor => this.render(editor));
+  }
+
+  /**
+   * Removes all inline results
+   */
+  clear(): void {
+    this.results.clear();
+    vscode.window.visibleTextEditors.forEach(editor => {
+      editor.setDecorations(this.decorationType, []);
+      editor.setDecorations(this.errorDecorationType, []);
+    });
+  }
+
+  /**
+   * Disposes of the decorations and their resources
+   */
+  dispose(): void {
+    this.decorationType.dispose();
+    this.errorDecorationType.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.results.clear();
+  }
+
+  /**
+   * Applies the stored results of an editor's document as decorations
+   * @param editor - The editor to decorate
+   */
+  private render(editor: vscode.TextEditor): void {
+    const entries = this.results.get(editor.document.uri.toString()) || [];
+
+    // Group values by line, keeping the order in which they were captured
+    const byLine = new Map<number, OutputEntry[]>();
+    entries.forEach(entry => {
+      const line = entry.line! - 1;
+      if (line < editor.document.lineCount) {
+        byLine.set(line, [...(byLine.get(line) || []), entry]);
+      }
+    });
+
+    const decorations: vscode.DecorationOptions[] = [];
+    const errorDecorations: vscode.DecorationOptions[] = [];
+
+    byLine.forEach((lineEntries, line) => {
+      const end = editor.document.lineAt(line).range.end;
+      const hasError = lineEntries.some(entry => entry.level === 'error');
+      const text = lineEntries.map(entry => entry.preview).join(', ');
+
+      const hover = new vscode.MarkdownString();
+      lineEntries.forEach(entry => hover.appendCodeblock(entry.preview, 'javascript'));
+
+      const decoration: vscode.DecorationOptions = {
+        range: new vscode.Range(end, end),
+        hoverMessage: hover,
+        renderOptions: {
+          after: { contentText: `→ ${this.truncate(text)}` },
+        },
+      };
+
+      (hasError ? errorDecorations : decorations).push(decoration);
+    });
+
+    editor.setDecorations(this.decorationType, decorations);
+    editor.setDecorations(this.errorDecorationType, errorDecorations);
+  }
+
+  /**
+   * Shortens inline text so it does not overflow the editor
+   */
+  private truncate(text: string): string {
+    if (text.length <= this.maxInlineLength) {
+      return text;
+    }
+    return text.substring(0, this.maxInlineLength - 1) + '…';
+  }
+}
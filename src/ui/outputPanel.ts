@@ -1,316 +1,186 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import * as fs from 'fs';
-import { WEBVIEW_ID, WEBVIEW_TITLE } from '../constants';
-import type { ExecutionResult } from '../types';
+import { OutputView } from './outputView';
+import type { RunHistory } from '../services/runHistory';
+import type { ExecutionResult, OutputEntry, SnapshotResult } from '../types';
 
 /**
- * Manages the webview panel for displaying code execution output
+ * An expression to evaluate in the session of a document
  */
-export class OutputPanel {
-  private panel: vscode.WebviewPanel | undefined;
-  private disposables: vscode.Disposable[] = [];
-  private context: vscode.ExtensionContext;
-  private lastResult: ExecutionResult | undefined;
+export interface EvaluationRequest {
+  expression: string;
+  /** The document whose session the expression runs in */
+  source: vscode.Uri;
+}
 
-  constructor(context: vscode.ExtensionContext) {
-    this.context = context;
-  }
+/**
+ * Packages to install for a document, so it can run
+ */
+export interface PackageInstallRequest {
+  packages: string[];
+  /** The document importing the packages */
+  source: vscode.Uri;
+}
+
+/**
+ * A snapshot whose new value was accepted in the panel of a document
+ */
+export interface SnapshotAcceptRequest {
+  snapshot: SnapshotResult;
+  /** The document that took the snapshot */
+  source: vscode.Uri;
+}
+
+/**
+ * Manages the output panels, one per executed document.
+ *
+ * Every method takes the document a run belongs to, so runs of different files
+ * (a manual run while another file auto-runs on save) each update their own panel.
+ * A panel goes away with its document.
+ */
+export class OutputPanel {
+  private readonly views = new Map<string, OutputView>();
+  private readonly evaluationEmitter = new vscode.EventEmitter<EvaluationRequest>();
+  private readonly installEmitter = new vscode.EventEmitter<PackageInstallRequest>();
+  private readonly snapshotEmitter = new vscode.EventEmitter<SnapshotAcceptRequest>();
 
   /**
-   * Shows or creates the output panel
+   * Fires when an expression is entered in the REPL input of a panel
    */
-  show(): void {
-    if (this.panel) {
-      this.panel.reveal(vscode.ViewColumn.Beside);
-    } else {
-      this.createPanel();
-    }
-  }
+  readonly onDidRequestEvaluation = this.evaluationEmitter.event;
 
   /**
-   * Updates the panel with execution results
-   * @param result - The execution result to display
-   * @param showPanel - Whether to show/reveal the panel (default: false for silent update)
+   * Fires when the install button of the missing packages of a run is clicked
    */
-  update(result: ExecutionResult, showPanel: boolean = false): void {
-    if (!this.panel) {
-      this.createPanel();
-    }
+  readonly onDidRequestInstall = this.installEmitter.event;
 
-    if (this.panel) {
-      // Check if we can do an incremental update (Virtual DOM style)
-      if (this.lastResult && this.canDoIncrementalUpdate(this.lastResult, result)) {
-        // Send a message to update only the changed parts
-        this.panel.webview.postMessage({
-          command: 'updateDiff',
-          data: this.getDiff(this.lastResult, result)
-        });
-      } else {
-        // Full re-render
-        this.panel.webview.html = this.getHtmlContent(result);
-      }
+  /**
+   * Fires when the new value of a snapshot that changed is accepted
+   */
+  readonly onDidAcceptSnapshot = this.snapshotEmitter.event;
 
-      this.lastResult = result;
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly history: RunHistory
+  ) { }
 
-      // Only reveal the panel if explicitly requested
-      if (showPanel) {
-        this.panel.reveal(vscode.ViewColumn.Beside, true); // preserveFocus = true
-      }
-    }
+  /**
+   * Starts displaying a new run of a document, replacing its previous output
+   * @param source - The document being executed
+   * @param showPanel - Whether to show/reveal the panel (default: false for silent update)
+   */
+  startRun(source: vscode.Uri, showPanel: boolean = false): void {
+    this.getView(source).startRun(showPanel);
   }
 
   /**
-   * Clears the output panel
+   * Appends an output entry of the current run of a document as soon as it is captured
+   * @param source - The executed document
+   * @param entry - The captured output
    */
-  clear(): void {
-    if (this.panel) {
-      this.panel.webview.html = this.getHtmlContent({
-        success: true,
-        output: '',
-      });
-    }
+  append(source: vscode.Uri, entry: OutputEntry): void {
+    this.getView(source).append(entry);
   }
 
   /**
-   * Disposes of the panel and its resources
+   * Finishes the current run of a document with its execution result
+   * @param source - The executed document
+   * @param result - The execution result to display
+   * @param showPanel - Whether to show/reveal the panel (default: false for silent update)
    */
-  dispose(): void {
-    if (this.panel) {
-      this.panel.dispose();
-    }
-    this.disposables.forEach(d => d.dispose());
-    this.disposables = [];
+  update(source: vscode.Uri, result: ExecutionResult, showPanel: boolean = false): void {
+    this.getView(source).update(result, showPanel);
   }
 
   /**
-   * Creates the webview panel
+   * Marks the output of a document as outdated, as its code changed since the run;
+   * the next run replaces it
+   * @param source - The document
    */
-  private createPanel(): void {
-    this.panel = vscode.window.createWebviewPanel(
-      WEBVIEW_ID,
-      WEBVIEW_TITLE,
-      vscode.ViewColumn.Beside,
-      {
-        enableScripts: true,
-        retainContextWhenHidden: true,
-      }
-    );
-
-    // Handle panel disposal
-    this.panel.onDidDispose(
-      () => {
-        this.panel = undefined;
-      },
-      null,
-      this.disposables
-    );
+  markStale(source: vscode.Uri): void {
+    this.views.get(source.toString())?.markStale();
   }
 
   /**
-   * Generates HTML content for the webview
-   * @param result - The execution result
-   * @returns HTML string
+   * Shows the REPL input of a document while it has a session, or hides it
+   * @param source - The document
+   * @param active - Whether the document has a session
    */
-  private getHtmlContent(result: ExecutionResult): string {
-    const theme = this.getThemeStyles();
-    const statusClass = result.success ? 'success' : 'error';
-    const statusIcon = result.success ? '✓' : '✗';
-    const statusText = result.success ? 'Ejecución exitosa' : 'Error en la ejecución';
-
-    // Read the HTML template
-    // In production, the HTML is in dist/ui/index.html
-    // In development, it's in src/ui/index.html
-    let htmlPath = path.join(this.context.extensionPath, 'dist', 'ui', 'index.html');
-    if (!fs.existsSync(htmlPath)) {
-      // Fallback to development path
-      htmlPath = path.join(this.context.extensionPath, 'src', 'ui', 'index.html');
-    }
-
-    let htmlTemplate = fs.readFileSync(htmlPath, 'utf8');
-
-    // Prepare conditional HTML sections
-    const executionTimeHtml = result.executionTime
-      ? `<div class="execution-time">${result.executionTime}ms</div>`
-      : '';
-
-    const outputHtml = result.output
-      ? `<div class="output">${this.formatOutputAsLines(result.output)}</div>`
-      : '';
-
-    const emptyOutputHtml = !result.output && result.success
-      ? '<div class="output empty">Sin salida</div>'
-      : '';
-
-    const errorHtml = result.error
-      ? `<div class="error-message">${this.escapeHtml(result.error)}</div>`
-      : '';
-
-    // Replace template variables
-    htmlTemplate = htmlTemplate
-      .replace(/\{\{theme\}\}/g, theme)
-      .replace(/\{\{WEBVIEW_TITLE\}\}/g, WEBVIEW_TITLE)
-      .replace(/\{\{statusClass\}\}/g, statusClass)
-      .replace(/\{\{statusIcon\}\}/g, statusIcon)
-      .replace(/\{\{statusText\}\}/g, statusText)
-      .replace(/\{\{executionTimeHtml\}\}/g, executionTimeHtml)
-      .replace(/\{\{outputHtml\}\}/g, outputHtml)
-      .replace(/\{\{emptyOutputHtml\}\}/g, emptyOutputHtml)
-      .replace(/\{\{errorHtml\}\}/g, errorHtml);
-
-    return htmlTemplate;
+  setSession(source: vscode.Uri, active: boolean): void {
+    this.views.get(source.toString())?.setSession(active);
   }
 
   /**
-   * Checks if we can do an incremental update instead of full re-render
+   * Starts displaying the evaluation of a REPL expression, below the output of the document
+   * @param source - The document whose session evaluates the expression
+   * @param expression - The expression entered
    */
-  private canDoIncrementalUpdate(oldResult: ExecutionResult, newResult: ExecutionResult): boolean {
-    // Can only do incremental if both succeeded and no errors
-    if (oldResult.success !== newResult.success || newResult.error) {
-      return false;
-    }
-
-    // Must have output in both
-    if (!oldResult.output || !newResult.output) {
-      return false;
-    }
-
-    // Don't do incremental updates if there are HTML tables
-    // Tables need full re-render to display correctly
-    if (oldResult.output.includes('<table class="data-table">') ||
-      newResult.output.includes('<table class="data-table">')) {
-      return false;
-    }
-
-    return true;
+  startEvaluation(source: vscode.Uri, expression: string): void {
+    this.getView(source).startEvaluation(expression);
   }
 
   /**
-   * Calculates the diff between old and new results (Virtual DOM style)
+   * Finishes a REPL evaluation
+   * @param source - The document whose session evaluated the expression
+   * @param result - The execution result of the expression
    */
-  private getDiff(oldResult: ExecutionResult, newResult: ExecutionResult): any {
-    const oldLines = oldResult.output?.split('\n') || [];
-    const newLines = newResult.output?.split('\n') || [];
-
-    // Find which lines were added, removed, or modified
-    const changes: any = {
-      executionTime: newResult.executionTime,
-      success: newResult.success,
-      outputChanges: []
-    };
-
-    // Simple diff: compare line by line
-    const maxLen = Math.max(oldLines.length, newLines.length);
-
-    for (let i = 0; i < maxLen; i++) {
-      if (i >= oldLines.length) {
-        // New line added
-        changes.outputChanges.push({
-          type: 'add',
-          index: i,
-          content: newLines[i]
-        });
-      } else if (i >= newLines.length) {
-        // Line removed
-        changes.outputChanges.push({
-          type: 'remove',
-          index: i
-        });
-      } else if (oldLines[i] !== newLines[i]) {
-        // Line modified
-        changes.outputChanges.push({
-          type: 'modify',
-          index: i,
-          content: newLines[i]
-        });
-      }
-    }
-
-    return changes;
+  finishEvaluation(source: vscode.Uri, result: ExecutionResult): void {
+    this.getView(source).finishEvaluation(result);
   }
 
   /**
-   * Gets CSS theme styles for the webview
+   * Shows the history view with the recorded runs of a document
+   * @param source - The document
    */
-  private getThemeStyles(): string {
-    return `
-			:root {
-				--vscode-testing-iconPassed: #73c991;
-				--vscode-testing-iconFailed: #f14c4c;
-			}
-		`;
+  showHistory(source: vscode.Uri): void {
+    this.getView(source).showHistory();
   }
 
   /**
-   * Formats output as individual lines for diff tracking
+   * Gets the document of the panel that is the active editor tab, if any
    */
-  private formatOutputAsLines(output: string): string {
-    // Check if output contains HTML tables
-    if (output.includes('<table class="data-table">')) {
-      // Split by table blocks and handle separately
-      const parts: string[] = [];
-      let remaining = output;
-
-      while (remaining.length > 0) {
-        const tableStart = remaining.indexOf('<table class="data-table">');
-
-        if (tableStart === -1) {
-          // No more tables, process remaining as regular lines
-          if (remaining.trim()) {
-            const lines = remaining.split('\n');
-            lines.forEach(line => {
-              if (line.trim()) {
-                parts.push(`<div class="output-line">${this.escapeHtml(line)}</div>`);
-              }
-            });
-          }
-          break;
-        }
-
-        // Process text before table
-        if (tableStart > 0) {
-          const before = remaining.substring(0, tableStart);
-          const lines = before.split('\n');
-          lines.forEach(line => {
-            if (line.trim()) {
-              parts.push(`<div class="output-line">${this.escapeHtml(line)}</div>`);
-            }
-          });
-        }
-
-        // Find end of table
-        const tableEnd = remaining.indexOf('</table>', tableStart);
-        if (tableEnd === -1) break;
-
-        // Extract and add table as-is (no escaping, no wrapping in output-line)
-        const table = remaining.substring(tableStart, tableEnd + 8);
-        parts.push(table);
+  getActiveSource(): vscode.Uri | undefined {
+    return [...this.views.values()].find(view => view.isActive())?.source;
+  }
 
-        // Continue with remaining text
-        remaining = remaining.substring(tableEnd + 8);
-      }
+  /**
+   * Clears the output of every panel
+   */
+  clear(): void {
+    this.views.forEach(view => view.clear());
+  }
 
-      return parts.join('');
-    }
+  /**
+   * Closes the panel of a document
+   * @param source - The document
+   */
+  close(source: vscode.Uri): void {
+    this.views.get(source.toString())?.dispose();
+    this.views.delete(source.toString());
+  }
 
-    // No tables, process normally
-    const lines = output.split('\n');
-    return lines.map(line =>
-      `<div class="output-line">${this.escapeHtml(line)}</div>`
-    ).join('');
+  /**
+   * Disposes of all panels and their resources
+   */
+  dispose(): void {
+    this.views.forEach(view => view.dispose());
+    this.views.clear();
+    this.evaluationEmitter.dispose();
+    this.installEmitter.dispose();
+    this.snapshotEmitter.dispose();
   }
 
   /**
-   * Escapes HTML special characters
+   * Gets the view of a document, creating it on its first run
    */
-  private escapeHtml(text: string): string {
-    const map: Record<string, string> = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#039;',
-    };
-    return text.replace(/[&<>"']/g, char => map[char]);
+  private getView(source: vscode.Uri): OutputView {
+    let view = this.views.get(source.toString());
+    if (!view) {
+      view = new OutputView(this.context, this.history, source,
+        expression => this.evaluationEmitter.fire({ expression, source }),
+        packages => this.installEmitter.fire({ packages, source }),
+        snapshot => this.snapshotEmitter.fire({ snapshot, source }));
+      this.views.set(source.toString(), view);
+    }
+    return view;
   }
 }
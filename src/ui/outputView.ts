@@ -0,0 +1,714 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { fileURLToPath } from 'url';
+import { WEBVIEW_ID, WEBVIEW_TITLE } from '../constants';
+import { formatTimestamp } from '../utils';
+import { OutputDiff } from '../services/outputDiff';
+import type { RunHistory } from '../services/runHistory';
+import type {
+  CoverageReport,
+  ErrorDetails,
+  ExecutionResult,
+  InspectedValue,
+  OutputEntry,
+  OutputPayload,
+  RunRecord,
+  SnapshotResult,
+  StackFrame,
+  TestResult,
+  TestStatus,
+} from '../types';
+
+/**
+ * A file location the webview asks to open, when a stack frame is clicked
+ */
+interface OpenLocationMessage {
+  command: 'openLocation';
+  /** File of the frame; the executed file if missing */
+  path?: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * An expression typed in the REPL input of the panel
+ */
+interface EvaluateMessage {
+  command: 'evaluate';
+  expression: string;
+}
+
+/**
+ * The install button of the missing packages of a run, clicked
+ */
+interface InstallPackagesMessage {
+  command: 'installPackages';
+  packages: string[];
+}
+
+/**
+ * The accept button of a snapshot that changed, clicked
+ */
+interface AcceptSnapshotMessage {
+  command: 'acceptSnapshot';
+  file: string;
+  name: string;
+}
+
+/**
+ * Requests of the history view: list the runs, reopen one, or compare two
+ */
+type HistoryMessage =
+  | { command: 'showHistory' }
+  | { command: 'openRun'; id: string }
+  | { command: 'compareRuns'; ids: string[] };
+
+/**
+ * Webview message data of an output entry
+ */
+interface EntryData {
+  level: string;
+  timestamp: string;
+  html: string;
+  /** Level prefix shown before the values */
+  prefix?: string;
+  /** Logged values, rendered by the object inspector instead of html */
+  values?: InspectedValue[];
+  /** The entry opens a console group; the following entries go inside it */
+  group?: { collapsed: boolean };
+  /** The entry closes the innermost console group */
+  groupEnd?: boolean;
+  /** Outcome of the test of the entry, and the describe blocks it is in, which nest it */
+  test?: { status: TestStatus; suites: string[] };
+}
+
+// Marks of the outcomes of tests
+const TEST_MARKS: Record<TestStatus, string> = {
+  passed: '✓',
+  failed: '✗',
+  skipped: '○',
+};
+
+/**
+ * The webview panel showing the output of one document, titled by its file name.
+ *
+ * The page is rendered once; each run then streams to it as append-only messages:
+ * "start", one "append" per output entry, and "finish" with the result; "stale" marks
+ * the output as outdated when the code changes before the next run.
+ * While the document has a session, a REPL input at the bottom evaluates
+ * expressions in it; their output is appended to the output of the run.
+ * Runs stopped by missing packages list them with a button to install them.
+ * Test results are nested in their describe blocks, failed assertions with a diff of the
+ * expected and received values. Snapshots that changed show a diff of the stored and new
+ * values, with a button to store the new one.
+ * The history view lists the recorded runs of the file, to reopen their output or
+ * compare the output of two of them side by side.
+ */
+export class OutputView {
+  private panel: vscode.WebviewPanel | undefined;
+  private disposables: vscode.Disposable[] = [];
+  // Messages posted before the webview script is listening
+  private pendingMessages: object[] = [];
+  private webviewReady = false;
+  // Output of the current run, replayed if the panel is reopened
+  private runEntries: OutputEntry[] = [];
+  // The REPL input is shown while the document has a session
+  private sessionActive = false;
+  private readonly outputDiff = new OutputDiff();
+
+  /**
+   * @param context - The extension context, to find the page template
+   * @param history - The recorded runs, for the history view
+   * @param source - The document, where stack frames of its script point to
+   * @param onEvaluate - Receives the expressions entered in the REPL input
+   * @param onInstall - Receives the missing packages to install
+   * @param onAcceptSnapshot - Receives the snapshots whose new value is accepted
+   */
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly history: RunHistory,
+    readonly source: vscode.Uri,
+    private readonly onEvaluate: (expression: string) => void,
+    private readonly onInstall: (packages: string[]) => void,
+    private readonly onAcceptSnapshot: (snapshot: SnapshotResult) => void
+  ) { }
+
+  /**
+   * Checks if the panel is the active editor tab
+   */
+  isActive(): boolean {
+    return !!this.panel?.active;
+  }
+
+  /**
+   * Starts displaying a new run, replacing the previous output
+   * @param showPanel - Whether to show/reveal the panel (default: false for silent update)
+   */
+  startRun(showPanel: boolean = false): void {
+    if (!this.panel) {
+      this.createPanel();
+    }
+
+    this.runEntries = [];
+    this.postMessage({ command: 'start' });
+
+    // Only reveal the panel if explicitly requested
+    if (showPanel && this.panel) {
+      this.panel.reveal(vscode.ViewColumn.Beside, true); // preserveFocus = true
+    }
+  }
+
+  /**
+   * Appends an output entry of the current run as soon as it is captured
+   * @param entry - The captured output
+   */
+  append(entry: OutputEntry): void {
+    this.runEntries.push(entry);
+
+    // A panel closed during the run stays closed until the run finishes
+    if (this.panel) {
+      this.postMessage({ command: 'append', data: this.getEntryData(entry) });
+    }
+  }
+
+  /**
+   * Finishes the current run with its execution result
+   * @param result - The execution result to display
+   * @param showPanel - Whether to show/reveal the panel (default: false for silent update)
+   */
+  update(result: ExecutionResult, showPanel: boolean = false): void {
+    if (!this.panel) {
+      // Reopen with the output streamed so far
+      this.createPanel();
+      this.postMessage({ command: 'start' });
+      this.runEntries.forEach(entry => this.postMessage({ command: 'append', data: this.getEntryData(entry) }));
+    }
+
+    const failedTests = result.tests?.some(test => test.status === 'failed');
+    const statusText = [
+      result.success ? 'Ejecución exitosa' : 'Error en la ejecución',
+      result.tests && this.summarizeTests(result.tests),
+      result.coverage && this.summarizeCoverage(result.coverage),
+    ].filter(Boolean).join(' · ');
+    this.postMessage({
+      command: 'finish',
+      data: {
+        success: result.success && !failedTests,
+        statusText,
+        executionTime: result.executionTime,
+        error: result.error,
+        envFiles: result.envFiles ?? [],
+        preload: result.preload ?? [],
+        globals: result.globals ?? {},
+        missingPackages: result.missingPackages ?? [],
+      },
+    });
+
+    // Only reveal the panel if explicitly requested
+    if (showPanel && this.panel) {
+      this.panel.reveal(vscode.ViewColumn.Beside, true); // preserveFocus = true
+    }
+  }
+
+  /**
+   * Marks the output as outdated, until the next run replaces it
+   */
+  markStale(): void {
+    if (this.panel) {
+      this.postMessage({ command: 'stale' });
+    }
+  }
+
+  /**
+   * Shows the REPL input while the document has a session, or hides it
+   * @param active - Whether the document has a session
+   */
+  setSession(active: boolean): void {
+    this.sessionActive = active;
+    if (this.panel) {
+      this.postMessage({ command: 'session', active });
+    }
+  }
+
+  /**
+   * Starts displaying the evaluation of a REPL expression, below the current output
+   * @param expression - The expression entered
+   */
+  startEvaluation(expression: string): void {
+    if (!this.panel) {
+      this.createPanel();
+    }
+
+    this.postMessage({ command: 'evaluate' });
+    this.postMessage({
+      command: 'append',
+      data: {
+        level: 'input',
+        timestamp: formatTimestamp(Date.now()),
+        html: this.formatOutputAsLines(`› ${expression}`),
+      },
+    });
+  }
+
+  /**
+   * Finishes a REPL evaluation; errors are shown with its output, as more may follow
+   * @param result - The execution result of the expression
+   */
+  finishEvaluation(result: ExecutionResult): void {
+    if (!result.success && !result.entries?.some(entry => entry.error)) {
+      this.append({ level: 'error', text: result.error || '', preview: result.error || '', timestamp: Date.now() });
+    }
+
+    this.postMessage({
+      command: 'finish',
+      data: {
+        success: result.success,
+        statusText: result.success ? 'Evaluación exitosa' : 'Error en la evaluación',
+        executionTime: result.executionTime,
+      },
+    });
+  }
+
+  /**
+   * Shows the history view with the recorded runs of the document
+   */
+  showHistory(): void {
+    if (this.panel) {
+      this.panel.reveal(vscode.ViewColumn.Beside, true);
+    } else {
+      this.createPanel();
+    }
+
+    this.postMessage({
+      command: 'history',
+      data: {
+        file: this.getFileName(),
+        runs: this.history.getRuns(this.source.toString()).map(run => ({
+          id: run.id,
+          label: this.formatRunLabel(run),
+          success: run.success,
+          executionTime: run.executionTime,
+          codeHash: run.codeHash,
+          summary: run.error || run.output.split('\n').find(line => line.trim()) || '',
+        })),
+      },
+    });
+  }
+
+  /**
+   * Clears the output panel
+   */
+  clear(): void {
+    this.runEntries = [];
+    if (this.panel) {
+      this.postMessage({ command: 'clear' });
+    }
+  }
+
+  /**
+   * Disposes of the panel and its resources
+   */
+  dispose(): void {
+    if (this.panel) {
+      this.panel.dispose();
+    }
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Creates the webview panel
+   */
+  private createPanel(): void {
+    this.panel = vscode.window.createWebviewPanel(
+      WEBVIEW_ID,
+      `${this.getFileName()} - ${WEBVIEW_TITLE}`,
+      vscode.ViewColumn.Beside,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+      }
+    );
+
+    this.webviewReady = false;
+    this.pendingMessages = [{ command: 'session', active: this.sessionActive }];
+    this.panel.webview.html = this.getHtmlContent();
+
+    // The webview announces when its script can receive messages
+    this.panel.webview.onDidReceiveMessage(
+      (message: { command: 'ready' } | OpenLocationMessage | EvaluateMessage | InstallPackagesMessage | AcceptSnapshotMessage | HistoryMessage) => {
+        if (message.command === 'ready') {
+          this.webviewReady = true;
+          this.pendingMessages.forEach(pending => this.panel?.webview.postMessage(pending));
+          this.pendingMessages = [];
+        } else if (message.command === 'openLocation') {
+          this.openLocation(message);
+        } else if (message.command === 'evaluate' && this.sessionActive) {
+          this.onEvaluate(message.expression);
+        } else if (message.command === 'installPackages') {
+          this.onInstall(message.packages);
+        } else if (message.command === 'acceptSnapshot') {
+          this.acceptSnapshot(message);
+        } else if (message.command === 'showHistory') {
+          this.showHistory();
+        } else if (message.command === 'openRun') {
+          this.openRun(message.id);
+        } else if (message.command === 'compareRuns') {
+          this.compareRuns(message.ids);
+        }
+      },
+      null,
+      this.disposables
+    );
+
+    // Handle panel disposal
+    this.panel.onDidDispose(
+      () => {
+        this.panel = undefined;
+      },
+      null,
+      this.disposables
+    );
+  }
+
+  /**
+   * Accepts the new value of a snapshot of the output shown
+   */
+  private acceptSnapshot(message: AcceptSnapshotMessage): void {
+    const snapshot = this.runEntries
+      .map(entry => entry.payload?.type === 'snapshot' ? entry.payload.snapshot : undefined)
+      .find(candidate => candidate?.status === 'changed' && candidate.file === message.file && candidate.name === message.name);
+    if (snapshot) {
+      this.onAcceptSnapshot(snapshot);
+    }
+  }
+
+  /**
+   * Shows the output of a recorded run again, as if it had just finished
+   */
+  private openRun(id: string): void {
+    const run = this.history.getRun(this.source.toString(), id);
+    if (!run) {
+      return;
+    }
+
+    this.runEntries = run.entries;
+    this.postMessage({ command: 'start' });
+    run.entries.forEach(entry => this.postMessage({ command: 'append', data: this.getEntryData(entry) }));
+    this.postMessage({
+      command: 'finish',
+      data: {
+        success: run.success,
+        statusText: `Ejecución del ${this.formatRunLabel(run)}`,
+        executionTime: run.executionTime,
+        error: run.error,
+      },
+    });
+  }
+
+  /**
+   * Shows the output of two recorded runs side by side, the older one on the left
+   */
+  private compareRuns(ids: string[]): void {
+    const runs = ids
+      .map(id => this.history.getRun(this.source.toString(), id))
+      .filter((run): run is RunRecord => !!run);
+    if (runs.length !== 2) {
+      return;
+    }
+
+    const [older, newer] = runs.sort((a, b) => a.timestamp - b.timestamp);
+    this.postMessage({
+      command: 'diff',
+      data: {
+        left: this.formatRunLabel(older),
+        right: this.formatRunLabel(newer),
+        rows: this.outputDiff.compare(older.output, newer.output),
+      },
+    });
+  }
+
+  /**
+   * Gets the file name of the document, which titles the panel
+   */
+  private getFileName(): string {
+    return path.basename(this.source.path);
+  }
+
+  /**
+   * Names a recorded run by its date and the hash of its code
+   */
+  private formatRunLabel(run: RunRecord): string {
+    return `${new Date(run.timestamp).toLocaleDateString()} ${formatTimestamp(run.timestamp)} · ${run.codeHash}`;
+  }
+
+  /**
+   * Opens a file at a stack frame location, in the editor group that already shows it if any
+   */
+  private async openLocation(location: OpenLocationMessage): Promise<void> {
+    const uri = location.path ? vscode.Uri.file(location.path) : this.source;
+    const position = new vscode.Position(location.line - 1, Math.max(location.column - 1, 0));
+    const editor = vscode.window.visibleTextEditors.find(visible => visible.document.uri.toString() === uri.toString());
+
+    try {
+      await vscode.window.showTextDocument(uri, {
+        viewColumn: editor?.viewColumn ?? vscode.ViewColumn.One,
+        selection: new vscode.Range(position, position),
+      });
+    } catch (err) {
+      vscode.window.showErrorMessage(`No se pudo abrir ${uri.fsPath}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /**
+   * Posts a message to the webview, queueing it until the webview is ready
+   */
+  private postMessage(message: object): void {
+    if (this.webviewReady && this.panel) {
+      this.panel.webview.postMessage(message);
+    } else {
+      this.pendingMessages.push(message);
+    }
+  }
+
+  /**
+   * Builds the webview message data of an output entry
+   */
+  private getEntryData(entry: OutputEntry): EntryData {
+    const prefix = entry.level === 'warn' || entry.level === 'error' ? `[${entry.level.toUpperCase()}] ` : '';
+    const text = prefix + entry.text;
+    const data: EntryData = {
+      level: entry.level,
+      timestamp: entry.timestamp ? formatTimestamp(entry.timestamp) : '',
+      html: this.formatOutputAsLines(text),
+      prefix,
+      values: entry.values,
+    };
+
+    if (entry.payload?.type === 'test') {
+      return this.addTestData(data, entry.payload.result, entry.error);
+    }
+    if (entry.error) {
+      return { ...data, html: data.html + this.formatErrorDetails(entry.error) };
+    }
+    return entry.payload ? this.addPayloadData(data, entry.payload, text) : data;
+  }
+
+  /**
+   * Lists the stack frames of an error, then each of its causes
+   */
+  private formatErrorDetails(error: ErrorDetails): string {
+    let html = this.formatStackFrames(error.frames);
+
+    for (let cause = error.cause; cause; cause = cause.cause) {
+      const title = cause.name ? `${cause.name}: ${cause.message}` : cause.message;
+      html += `<div class="output-line error-cause">${this.escapeHtml(`Caused by: ${title}`)}</div>`;
+      html += this.formatStackFrames(cause.frames);
+    }
+    return html;
+  }
+
+  /**
+   * Renders the structured content of console methods
+   */
+  private addPayloadData(data: EntryData, payload: OutputPayload, text: string): EntryData {
+    switch (payload.type) {
+      case 'table':
+        return { ...data, html: this.formatTable(payload.columns, payload.rows), values: undefined };
+      case 'group':
+        return { ...data, group: { collapsed: payload.collapsed } };
+      case 'groupEnd':
+        return { ...data, html: '', values: undefined, groupEnd: true };
+      case 'trace':
+        return { ...data, html: this.formatOutputAsLines(text) + this.formatStackFrames(payload.frames), values: undefined };
+      case 'snapshot':
+        return { ...data, html: this.formatSnapshot(payload.snapshot, text), values: undefined };
+      default:
+        return data;
+    }
+  }
+
+  /**
+   * Renders the result of a test: its name and duration, and why it failed, with the
+   * assertion as a diff of the expected and received values when it compared two
+   */
+  private addTestData(data: EntryData, result: TestResult, error: ErrorDetails | undefined): EntryData {
+    const duration = result.duration !== undefined ? ` <span class="test-duration">${result.duration}ms</span>` : '';
+    const title = `${TEST_MARKS[result.status]} ${result.name[result.name.length - 1]}`;
+    let html = `<div class="output-line test-title">${this.escapeHtml(title)}${duration}</div>`;
+
+    if (result.message) {
+      const hasDiff = result.expected !== undefined && result.actual !== undefined;
+      // The diff shows the values the message lists below its first line
+      html += this.formatOutputAsLines(hasDiff ? result.message.split('\n')[0] : result.message);
+      if (hasDiff) {
+        html += this.formatValueDiff(result.expected!, result.actual!, 'Esperado', 'Recibido');
+      }
+    }
+    if (error) {
+      html += this.formatStackFrames(error.frames);
+    }
+
+    return { ...data, html, values: undefined, test: { status: result.status, suites: result.name.slice(0, -1) } };
+  }
+
+  /**
+   * Renders a snapshot; one that changed shows how, with a button to accept the new value
+   */
+  private formatSnapshot(snapshot: SnapshotResult, text: string): string {
+    let html = this.formatOutputAsLines(text);
+    if (snapshot.status === 'changed' && snapshot.file && snapshot.stored !== undefined) {
+      html += this.formatValueDiff(snapshot.stored, snapshot.value, 'Guardado', 'Nuevo');
+      html += `<button class="header-button accept-snapshot" data-file="${this.escapeHtml(snapshot.file)}" `
+        + `data-name="${this.escapeHtml(snapshot.name)}">Aceptar snapshot nuevo</button>`;
+    }
+    return html;
+  }
+
+  /**
+   * Builds the side-by-side diff of two serialized values, such as those compared by a failed assertion
+   */
+  private formatValueDiff(left: string, right: string, leftTitle: string, rightTitle: string): string {
+    const rows = this.outputDiff.compare(left, right).map(row => {
+      const left = row.kind === 'changed' || row.kind === 'removed' ? ' class="removed"' : '';
+      const right = row.kind === 'changed' || row.kind === 'added' ? ' class="added"' : '';
+      return `<tr><td${left}>${this.escapeHtml(row.left ?? '')}</td><td${right}>${this.escapeHtml(row.right ?? '')}</td></tr>`;
+    }).join('');
+    const head = `<tr><th>${this.escapeHtml(leftTitle)}</th><th>${this.escapeHtml(rightTitle)}</th></tr>`;
+    return `<table class="diff-table value-diff"><thead>${head}</thead><tbody>${rows}</tbody></table>`;
+  }
+
+  /**
+   * Counts the tests of a run by outcome, e.g. "Tests: 3 correctos, 1 fallido"
+   */
+  private summarizeTests(tests: TestResult[]): string {
+    const labels: [TestStatus, string][] = [['passed', 'correcto'], ['failed', 'fallido'], ['skipped', 'omitido']];
+    const counts = labels
+      .map(([status, label]) => [tests.filter(test => test.status === status).length, label] as const)
+      .filter(([count]) => count > 0)
+      .map(([count, label]) => `${count} ${label}${count === 1 ? '' : 's'}`);
+    return `Tests: ${counts.join(', ')}`;
+  }
+
+  /**
+   * Summarizes the coverage of a run: the share of lines that ran, and the branches that did not
+   */
+  private summarizeCoverage(coverage: CoverageReport): string {
+    const covered = coverage.lines.filter(line => line.count > 0).length;
+    const total = coverage.lines.length;
+    const percentage = total > 0 ? Math.floor((covered / total) * 100) : 100;
+    const missed = coverage.branches.filter(branch => branch.count === 0).length;
+    const branches = missed > 0 ? `, ${missed} ${missed === 1 ? 'rama sin ejecutar' : 'ramas sin ejecutar'}` : '';
+    return `Cobertura: ${percentage}% de las líneas (${covered}/${total})${branches}`;
+  }
+
+  /**
+   * Builds the data table of console.table
+   */
+  private formatTable(columns: string[], rows: { index: string; cells: string[] }[]): string {
+    const header = ['(index)', ...columns].map(column => `<th>${this.escapeHtml(column)}</th>`).join('');
+    const body = rows.map(row =>
+      `<tr>${[row.index, ...row.cells].map(cell => `<td>${this.escapeHtml(cell)}</td>`).join('')}</tr>`
+    ).join('');
+    return `<table class="data-table"><thead><tr>${header}</tr></thead><tbody>${body}</tbody></table>`;
+  }
+
+  /**
+   * Lists stack frames, linking those with a file location so the webview can open them
+   */
+  private formatStackFrames(frames: StackFrame[]): string {
+    return frames.map(frame => {
+      const target = this.getFrameTarget(frame);
+      const location = frame.position
+        ? `${this.getFileName()}:${frame.position.line}:${frame.position.column}`
+        : frame.location || '';
+      const text = frame.functionName ? `at ${frame.functionName} (${location})` : `at ${location}`;
+
+      if (!target) {
+        return `<div class="output-line stack-frame">${this.escapeHtml(text)}</div>`;
+      }
+      const pathAttribute = target.path ? ` data-path="${this.escapeHtml(target.path)}"` : '';
+      return `<div class="output-line stack-frame link" data-line="${target.line}" data-column="${target.column}"${pathAttribute}>`
+        + `${this.escapeHtml(text)}</div>`;
+    }).join('');
+  }
+
+  /**
+   * Finds the file position a stack frame points to: the executed file, or another file on disk
+   */
+  private getFrameTarget(frame: StackFrame): { path?: string; line: number; column: number } | undefined {
+    if (frame.position) {
+      return frame.position;
+    }
+
+    // "/path/to/file.js:10:5", or a file URL for ES modules
+    const match = frame.location?.match(/^(.+):(\d+):(\d+)$/);
+    if (!match) {
+      return undefined;
+    }
+
+    const file = match[1].startsWith('file://') ? fileURLToPath(match[1]) : match[1];
+    return path.isAbsolute(file) ? { path: file, line: Number(match[2]), column: Number(match[3]) } : undefined;
+  }
+
+  /**
+   * Generates the HTML page of the webview, before any run
+   * @returns HTML string
+   */
+  private getHtmlContent(): string {
+    const theme = this.getThemeStyles();
+
+    // Read the HTML template
+    // In production, the HTML is in dist/ui/index.html
+    // In development, it's in src/ui/index.html
+    let htmlPath = path.join(this.context.extensionPath, 'dist', 'ui', 'index.html');
+    if (!fs.existsSync(htmlPath)) {
+      // Fallback to development path
+      htmlPath = path.join(this.context.extensionPath, 'src', 'ui', 'index.html');
+    }
+
+    const htmlTemplate = fs.readFileSync(htmlPath, 'utf8');
+
+    // Replace template variables
+    return htmlTemplate
+      .replace(/\{\{theme\}\}/g, theme)
+      .replace(/\{\{WEBVIEW_TITLE\}\}/g, WEBVIEW_TITLE);
+  }
+
+  /**
+   * Gets CSS theme styles for the webview
+   */
+  private getThemeStyles(): string {
+    return `
+			:root {
+				--vscode-testing-iconPassed: #73c991;
+				--vscode-testing-iconFailed: #f14c4c;
+			}
+		`;
+  }
+
+  /**
+   * Formats output as individual lines for diff tracking
+   */
+  private formatOutputAsLines(output: string): string {
+    const lines = output.split('\n');
+    return lines.map(line =>
+      `<div class="output-line">${this.escapeHtml(line)}</div>`
+    ).join('');
+  }
+
+  /**
+   * Escapes HTML special characters
+   */
+  private escapeHtml(text: string): string {
+    const map: Record<string, string> = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#039;',
+    };
+    return text.replace(/[&<>"']/g, char => map[char]);
+  }
+}
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { COMMANDS } from '../constants';
+import { formatExecutionTime } from '../utils';
+import type { ExecutionResult } from '../types';
+
+/**
+ * The state of the runs of a document
+ */
+interface RunState {
+  running: boolean;
+  /** Result of the last run that finished */
+  last?: { success: boolean; executionTime?: number };
+}
+
+/**
+ * Shows the state of the runs of the active document in the status bar:
+ * running, or the outcome and duration of its last run. Clicking it opens the run history.
+ */
+export class RunStatusBar {
+  private readonly item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+  private readonly states = new Map<string, RunState>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.item.command = COMMANDS.SHOW_HISTORY;
+
+    vscode.window.onDidChangeActiveTextEditor(() => this.render(), null, this.disposables);
+    vscode.workspace.onDidCloseTextDocument(document => {
+      this.states.delete(document.uri.toString());
+      this.render();
+    }, null, this.disposables);
+  }
+
+  /**
+   * Shows a run of a document as in progress
+   * @param source - The executed document
+   */
+  start(source: vscode.Uri): void {
+    this.getState(source).running = true;
+    this.render();
+  }
+
+  /**
+   * Shows the outcome of the run of a document
+   * @param source - The executed document
+   * @param result - The execution result
+   */
+  finish(source: vscode.Uri, result: ExecutionResult): void {
+    const state = this.getState(source);
+    state.running = false;
+    state.last = { success: result.success, executionTime: result.executionTime };
+    this.render();
+  }
+
+  /**
+   * Shows the outcome of the previous run again, as a run was cancelled before it finished
+   * @param source - The executed document
+   */
+  cancel(source: vscode.Uri): void {
+    this.getState(source).running = false;
+    this.render();
+  }
+
+  /**
+   * Disposes of the status bar item
+   */
+  dispose(): void {
+    this.item.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  private getState(source: vscode.Uri): RunState {
+    let state = this.states.get(source.toString());
+    if (!state) {
+      state = { running: false };
+      this.states.set(source.toString(), state);
+    }
+    return state;
+  }
+
+  /**
+   * Shows the state of the active document, or hides the item if it has not run
+   */
+  private render(): void {
+    const source = vscode.window.activeTextEditor?.document.uri;
+    const state = source && this.states.get(source.toString());
+    if (!state || (!state.running && !state.last)) {
+      this.item.hide();
+      return;
+    }
+
+    const duration = state.last?.executionTime !== undefined ? ` ${formatExecutionTime(state.last.executionTime)}` : '';
+    if (state.running) {
+      this.item.text = '$(sync~spin) Ockla';
+      this.item.tooltip = 'Ockla: ejecutando…';
+    } else if (state.last!.success) {
+      this.item.text = `$(check) Ockla${duration}`;
+      this.item.tooltip = `Ockla: última ejecución correcta (${duration.trim()}). Clic para ver el historial`;
+    } else {
+      this.item.text = `$(error) Ockla${duration}`;
+      this.item.tooltip = `Ockla: la última ejecución falló (${duration.trim()}). Clic para ver el historial`;
+    }
+    this.item.backgroundColor = !state.running && !state.last!.success
+      ? new vscode.ThemeColor('statusBarItem.errorBackground')
+      : undefined;
+    this.item.show();
+  }
+}
@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TestFinder } from '../services/testFinder';
+import type { FoundTest } from '../services/testFinder';
+import { ConfigService } from '../config/configService';
+import { DocumentRunner } from './documentRunner';
+import { COMMANDS } from '../constants';
+import { getExecutionOptions, getScriptLanguage, isRunnableFile } from '../utils';
+import type { ExecutionResult, TestResult } from '../types';
+
+/**
+ * Lists the tests declared in open scripts (describe, it and test) in the Testing view,
+ * with a CodeLens above each one to run it on its own.
+ *
+ * Running tests runs their document like the run command does, with its output in the panel,
+ * leaving out the tests that were not asked for; their results go to the Testing view too.
+ * Tests are found in the code as it is edited, so only those named with a string literal are
+ * listed; the others still run with their document.
+ */
+export class ScriptTests implements vscode.CodeLensProvider {
+  private readonly finder = new TestFinder();
+  private readonly controller = vscode.tests.createTestController('ockla', 'Ockla');
+  private readonly codeLensEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.codeLensEmitter.event;
+  // Tests found in each open document, by URI
+  private readonly found = new Map<string, FoundTest[]>();
+  // Names of the describe blocks and tests of the items, outermost first; none for documents
+  private readonly names = new WeakMap<vscode.TestItem, string[]>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private documentRunner: DocumentRunner,
+    private configService: ConfigService
+  ) {
+    this.controller.createRunProfile('Ejecutar', vscode.TestRunProfileKind.Run, (request, token) => this.run(request, token), true);
+
+    vscode.workspace.textDocuments.forEach(document => this.refresh(document));
+    vscode.workspace.onDidOpenTextDocument(document => this.refresh(document), null, this.disposables);
+    vscode.workspace.onDidChangeTextDocument(event => this.refresh(event.document), null, this.disposables);
+    vscode.workspace.onDidCloseTextDocument(document => this.remove(document.uri), null, this.disposables);
+    this.disposables.push(vscode.languages.registerCodeLensProvider(
+      ['javascript', 'typescript', 'typescriptreact'].map(language => ({ language })),
+      this
+    ));
+  }
+
+  /**
+   * Creates a CodeLens above each test and describe block of a document
+   */
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const lenses: vscode.CodeLens[] = [];
+    const add = (tests: FoundTest[]) => tests.forEach(test => {
+      const range = new vscode.Range(test.line, 0, test.line, 0);
+      lenses.push(new vscode.CodeLens(range, {
+        title: test.kind === 'describe' ? '$(play) Ejecutar tests' : '$(play) Ejecutar test',
+        command: COMMANDS.RUN_TEST,
+        arguments: [document.uri, test.name, test.line],
+      }));
+      add(test.children);
+    });
+
+    add(this.found.get(document.uri.toString()) || []);
+    return lenses;
+  }
+
+  /**
+   * Runs a test or describe block of a document, or all of its tests
+   * @param uri - The document
+   * @param name - Names of the describe blocks and test, outermost first; all the tests when missing
+   * @param line - 0-based line of the test, for tests that share their name
+   */
+  async runTest(uri: vscode.Uri, name?: string[], line?: number): Promise<void> {
+    const fileItem = this.controller.items.get(uri.toString());
+    const item = fileItem && name ? this.findItem(fileItem, name, line) : fileItem;
+    if (!item) {
+      return;
+    }
+
+    const cancellation = new vscode.CancellationTokenSource();
+    try {
+      await this.run(new vscode.TestRunRequest([item]), cancellation.token);
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  /**
+   * Disposes of the test controller and the listeners
+   */
+  dispose(): void {
+    this.controller.dispose();
+    this.codeLensEmitter.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Finds the tests of a document again, updating its items and CodeLenses
+   */
+  private refresh(document: vscode.TextDocument): void {
+    if (!isRunnableFile(document)) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    const tests = this.finder.find(document.getText(), getScriptLanguage(document));
+    if (tests.length === 0) {
+      if (this.found.has(key)) {
+        this.remove(document.uri);
+      }
+      return;
+    }
+
+    this.found.set(key, tests);
+    let fileItem = this.controller.items.get(key);
+    if (!fileItem) {
+      fileItem = this.controller.createTestItem(key, path.basename(document.uri.path), document.uri);
+      this.controller.items.add(fileItem);
+    }
+    fileItem.children.replace(tests.map(test => this.createItem(document.uri, test)));
+    this.codeLensEmitter.fire();
+  }
+
+  private remove(uri: vscode.Uri): void {
+    this.found.delete(uri.toString());
+    this.controller.items.delete(uri.toString());
+    this.codeLensEmitter.fire();
+  }
+
+  private createItem(uri: vscode.Uri, test: FoundTest): vscode.TestItem {
+    const item = this.controller.createTestItem(this.getItemId(uri, test), test.name[test.name.length - 1], uri);
+    item.range = new vscode.Range(test.line, 0, test.line, 0);
+    item.children.replace(test.children.map(child => this.createItem(uri, child)));
+    this.names.set(item, test.name);
+    return item;
+  }
+
+  /**
+   * Identifies the item of a test by its line too, as tests of a block may share their name
+   */
+  private getItemId(uri: vscode.Uri, test: FoundTest): string {
+    return JSON.stringify([uri.toString(), test.line, ...test.name]);
+  }
+
+  /**
+   * Finds the item of a test or describe block of a document
+   * @param name - Names of the describe blocks and test, outermost first
+   * @param line - 0-based line of the test, to tell apart those with the same name; the first one when missing
+   * @returns The item, or undefined when none has the name, or none with the name is at the line given
+   */
+  private findItem(fileItem: vscode.TestItem, name: string[], line?: number): vscode.TestItem | undefined {
+    let items = [fileItem];
+    for (let depth = 0; depth < name.length; depth++) {
+      const children: vscode.TestItem[] = [];
+      items.forEach(item => item.children.forEach(child => {
+        if (this.names.get(child)?.[depth] === name[depth]) {
+          children.push(child);
+        }
+      }));
+      items = children;
+    }
+    return line === undefined ? items[0] : items.find(item => item.range?.start.line === line);
+  }
+
+  /**
+   * Runs the documents of the requested items one after the other, each with the tests asked for
+   */
+  private async run(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+    const testRun = this.controller.createTestRun(request);
+    const items: vscode.TestItem[] = [];
+    (request.include || this.controller.items).forEach(item => items.push(item));
+
+    for (const item of items) {
+      const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === item.uri?.toString());
+      if (token.isCancellationRequested || !document) {
+        continue;
+      }
+
+      const tests = this.getTests(item);
+      tests.forEach(test => testRun.started(test));
+      const result = await this.runDocument(document, this.names.get(item), token);
+      testRun.appendOutput(result.output.replace(/\r?\n/g, '\r\n') + '\r\n');
+      this.report(testRun, item, tests, result);
+    }
+
+    testRun.end();
+  }
+
+  /**
+   * Lists the tests of an item: the item itself, or those inside it
+   */
+  private getTests(item: vscode.TestItem): vscode.TestItem[] {
+    if (item.children.size === 0) {
+      return this.names.has(item) ? [item] : [];
+    }
+    const tests: vscode.TestItem[] = [];
+    item.children.forEach(child => tests.push(...this.getTests(child)));
+    return tests;
+  }
+
+  /**
+   * Reports the outcome of the tests of a run; those without a result did not run,
+   * as the script failed before declaring them
+   */
+  private report(testRun: vscode.TestRun, item: vscode.TestItem, tests: vscode.TestItem[], result: ExecutionResult): void {
+    const fileItem = this.controller.items.get(item.uri!.toString())!;
+    const pending = new Set(tests);
+
+    for (const test of result.tests || []) {
+      const testItem = this.findItem(fileItem, test.name, test.line !== undefined ? test.line - 1 : undefined);
+      if (!testItem || !pending.delete(testItem)) {
+        continue;
+      }
+
+      if (test.status === 'passed') {
+        testRun.passed(testItem, test.duration);
+      } else if (test.status === 'skipped') {
+        testRun.skipped(testItem);
+      } else {
+        testRun.failed(testItem, this.createMessage(item.uri!, test), test.duration);
+      }
+    }
+
+    const message = new vscode.TestMessage(result.error || 'El test no se ejecutó');
+    pending.forEach(test => testRun.errored(test, message));
+  }
+
+  /**
+   * Describes a failed test, with the expected and received values when its assertion compared two
+   */
+  private createMessage(uri: vscode.Uri, test: TestResult): vscode.TestMessage {
+    const message = test.expected !== undefined && test.actual !== undefined
+      ? vscode.TestMessage.diff(test.message || '', test.expected, test.actual)
+      : new vscode.TestMessage(test.message || '');
+    if (test.line !== undefined) {
+      message.location = new vscode.Location(uri, new vscode.Position(test.line - 1, 0));
+    }
+    return message;
+  }
+
+  /**
+   * Runs a document with some of its tests, showing its output in the panel
+   * @param document - The document
+   * @param testFilter - Names of the describe blocks and test to run; all the tests when missing
+   * @param token - Cancels the run
+   */
+  private async runDocument(
+    document: vscode.TextDocument,
+    testFilter: string[] | undefined,
+    token: vscode.CancellationToken
+  ): Promise<ExecutionResult> {
+    const options = getExecutionOptions(document, this.configService.get(document.uri));
+    const controller = new AbortController();
+    const cancellation = token.onCancellationRequested(() => controller.abort());
+
+    try {
+      return await this.documentRunner.run(document, document.getText(), { ...options, testFilter, signal: controller.signal }, true);
+    } finally {
+      cancellation.dispose();
+    }
+  }
+}
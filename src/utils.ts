@@ -1,32 +1,104 @@
 import * as vscode from 'vscode';
-import type { OcklaConfiguration } from './types';
+import * as path from 'path';
+import type { CodeExecutionOptions, OcklaConfiguration, ScriptLanguage } from './types';
 
 /**
  * Utility functions for the Ockla extension
  */
 
 /**
- * Gets the current Ockla configuration
- * @returns OcklaConfiguration object
+ * Checks if the current file is a JavaScript file
+ * @param document - The text document to check
+ * @returns true if the document is a JavaScript file
  */
-export function getConfiguration(): OcklaConfiguration {
-  const config = vscode.workspace.getConfiguration('ockla');
+export function isJavaScriptFile(document: vscode.TextDocument): boolean {
+  return document.languageId === 'javascript';
+}
 
-  return {
-    autoRunOnSave: config.get<boolean>('autoRunOnSave', false),
-    showExecutionTime: config.get<boolean>('showExecutionTime', true),
-    maxOutputLength: config.get<number>('maxOutputLength', 10000),
-    enabledFileTypes: config.get<string[]>('enabledFileTypes', ['javascript']),
-  };
+/**
+ * Checks if the current file is a TypeScript file
+ * @param document - The text document to check
+ * @returns true if the document is a TypeScript or TSX file
+ */
+export function isTypeScriptFile(document: vscode.TextDocument): boolean {
+  return document.languageId === 'typescript' || document.languageId === 'typescriptreact';
 }
 
 /**
- * Checks if the current file is a JavaScript file
+ * Checks if a file can be run by Ockla (declaration files excluded)
  * @param document - The text document to check
- * @returns true if the document is a JavaScript file
+ * @returns true if the document is a JavaScript or TypeScript script
  */
-export function isJavaScriptFile(document: vscode.TextDocument): boolean {
-  return document.languageId === 'javascript';
+export function isRunnableFile(document: vscode.TextDocument): boolean {
+  if (/\.d\.[cm]?ts$/.test(document.fileName)) {
+    return false;
+  }
+  return isJavaScriptFile(document) || isTypeScriptFile(document);
+}
+
+/**
+ * Gets the language the code of a document is executed as
+ * @param document - The text document to check
+ * @returns The script language, JavaScript unless the document is TypeScript
+ */
+export function getScriptLanguage(document: vscode.TextDocument): ScriptLanguage {
+  return isTypeScriptFile(document) ? document.languageId as ScriptLanguage : 'javascript';
+}
+
+/**
+ * Gets the file system path of a document, if it is saved on disk
+ * @param document - The text document
+ * @returns The path, or undefined for untitled and virtual documents
+ */
+export function getFilePath(document: vscode.TextDocument): string | undefined {
+  return document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+}
+
+/**
+ * Gets the key of the session a document runs in, when session mode is enabled
+ * @param document - The text document
+ * @param config - The configuration of the document
+ * @returns The document URI, or undefined when every run starts from a fresh context
+ */
+export function getSessionKey(document: vscode.TextDocument, config: OcklaConfiguration): string | undefined {
+  return config.sessionMode ? document.uri.toString() : undefined;
+}
+
+/**
+ * Gets the options a document is executed with
+ * @param document - The text document
+ * @param config - The configuration of the document
+ * @returns The execution options, without the output callback
+ */
+export function getExecutionOptions(document: vscode.TextDocument, config: OcklaConfiguration): CodeExecutionOptions {
+  // Runs start in the workspace folder of the file
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+  const workingDirectory = workspaceFolder ? workspaceFolder.uri.fsPath :
+    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ||
+    process.cwd();
+
+  const filePath = getFilePath(document);
+
+  return {
+    timeout: config.executionTimeout,
+    asyncTimeout: config.asyncTimeout,
+    memory: config.memoryLimit,
+    workingDirectory,
+    filePath,
+    language: getScriptLanguage(document),
+    session: getSessionKey(document, config),
+    permissions: config.permissions,
+    env: config.env,
+    // Untitled documents have no folder of their own, their env files are those of the workspace
+    envFiles: config.loadEnvFiles ? {
+      directory: config.envFilesLocation === 'script' && filePath ? path.dirname(filePath) : workingDirectory,
+      mode: config.envMode || undefined,
+    } : undefined,
+    maskSecrets: config.maskSecrets,
+    preload: config.preload.length > 0 ? config.preload : undefined,
+    globals: Object.keys(config.globals).length > 0 ? config.globals : undefined,
+    coverage: config.coverage,
+  };
 }
 
 /**
@@ -41,6 +113,17 @@ export function formatExecutionTime(ms: number): string {
   return `${(ms / 1000).toFixed(2)}s`;
 }
 
+/**
+ * Formats the time an output was captured for display
+ * @param timestamp - Time in ms since the epoch
+ * @returns Local time as HH:MM:SS.mmm
+ */
+export function formatTimestamp(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
 /**
  * Truncates text to a maximum length
  * @param text - The text to truncate
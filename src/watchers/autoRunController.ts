@@ -0,0 +1,249 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CodeExecutor } from '../services/codeExecutor';
+import { OutputPanel } from '../ui/outputPanel';
+import { DocumentRunner } from '../ui/documentRunner';
+import { RunHistory } from '../services/runHistory';
+import { AutoRunPolicy } from '../services/autoRunPolicy';
+import { ConfigService } from '../config/configService';
+import { COMMANDS, MESSAGES } from '../constants';
+import { getExecutionOptions, isRunnableFile } from '../utils';
+import type { AutoRunMode, OcklaConfiguration } from '../types';
+
+// Workspace state key of the files turned on or off one by one
+const STORAGE_KEY = 'ockla.autoRunFiles';
+
+/**
+ * Runs open JavaScript and TypeScript documents by themselves: when saved, or as they are
+ * edited in live mode. Which documents run, and how, follows their configuration and the
+ * files turned on or off one by one from the status bar (see AutoRunPolicy), and changes
+ * with them without reloading. Saving a project file also runs the open documents whose
+ * last run loaded it.
+ *
+ * Live mode runs a document once typing pauses, skipping code that does not parse yet.
+ * Each edit marks the output of the document as stale and cancels its run in progress,
+ * as its result would be outdated.
+ */
+export class AutoRunController {
+  private readonly policy = new AutoRunPolicy();
+  // Status bar toggle of the active document
+  private readonly toggleItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+  // Files turned on or off one by one, by URI
+  private readonly files: Record<string, boolean>;
+  private disposables: vscode.Disposable[] = [];
+  private started = false;
+  // Live runs waiting for typing to pause, by document
+  private readonly liveTimers = new Map<string, NodeJS.Timeout>();
+  // Runs in progress, by document, cancelled when the document changes again
+  private readonly runs = new Map<string, AbortController>();
+
+  constructor(
+    private codeExecutor: CodeExecutor,
+    private outputPanel: OutputPanel,
+    private documentRunner: DocumentRunner,
+    private runHistory: RunHistory,
+    private configService: ConfigService,
+    private storage: vscode.Memento
+  ) {
+    this.files = storage.get<Record<string, boolean>>(STORAGE_KEY) || {};
+    this.toggleItem.command = COMMANDS.TOGGLE_FILE_AUTO_RUN;
+  }
+
+  /**
+   * Starts listening for saves and edits of documents
+   */
+  start(): void {
+    if (this.started) {
+      return; // Already listening
+    }
+    this.started = true;
+
+    vscode.workspace.onDidSaveTextDocument(doc => this.handleSave(doc), null, this.disposables);
+    vscode.workspace.onDidChangeTextDocument(event => this.handleDocumentEdit(event), null, this.disposables);
+    vscode.workspace.onDidCloseTextDocument(doc => this.cancel(doc.uri.toString()), null, this.disposables);
+    vscode.window.onDidChangeActiveTextEditor(() => this.updateToggle(), null, this.disposables);
+    // Settings and config files may turn auto-run on or off, or change its globs
+    this.configService.onDidChange(() => this.refresh(), null, this.disposables);
+
+    this.updateToggle();
+  }
+
+  /**
+   * Stops listening for saves and edits, cancelling the pending runs
+   */
+  stop(): void {
+    [...new Set([...this.liveTimers.keys(), ...this.runs.keys()])].forEach(key => this.cancel(key));
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.toggleItem.hide();
+    this.started = false;
+  }
+
+  /**
+   * Gets how a document runs by itself
+   * @param doc - The document
+   */
+  getMode(doc: vscode.TextDocument): AutoRunMode {
+    if (!isRunnableFile(doc)) {
+      return 'off';
+    }
+    const key = doc.uri.toString();
+    return this.policy.getMode(this.configService.get(doc.uri), vscode.workspace.asRelativePath(doc.uri, false), this.files[key]);
+  }
+
+  /**
+   * Turns auto-run of the active document on or off, whatever its configuration says
+   */
+  async toggleActiveFile(): Promise<void> {
+    const doc = vscode.window.activeTextEditor?.document;
+    if (!doc || !isRunnableFile(doc)) {
+      vscode.window.showWarningMessage(MESSAGES.NO_ACTIVE_EDITOR);
+      return;
+    }
+
+    const key = doc.uri.toString();
+    const enabled = this.getMode(doc) === 'off';
+    this.files[key] = enabled;
+    if (!enabled) {
+      this.cancel(key);
+    }
+    this.updateToggle();
+    await this.storage.update(STORAGE_KEY, this.files);
+
+    vscode.window.showInformationMessage(enabled ? MESSAGES.FILE_AUTO_RUN_ENABLED : MESSAGES.FILE_AUTO_RUN_DISABLED);
+  }
+
+  /**
+   * Disposes of the listeners, the status bar item and the pending runs
+   */
+  dispose(): void {
+    this.stop();
+    this.toggleItem.dispose();
+  }
+
+  /**
+   * Applies a configuration change: live runs of documents no longer in live mode are dropped
+   */
+  private refresh(): void {
+    for (const key of this.liveTimers.keys()) {
+      const doc = vscode.workspace.textDocuments.find(d => d.uri.toString() === key);
+      if (!doc || this.getMode(doc) !== 'live') {
+        this.cancel(key);
+      }
+    }
+    this.updateToggle();
+  }
+
+  /**
+   * Shows the auto-run mode of the active document in the status bar toggle
+   */
+  private updateToggle(): void {
+    const doc = vscode.window.activeTextEditor?.document;
+    if (!doc || !isRunnableFile(doc)) {
+      this.toggleItem.hide();
+      return;
+    }
+
+    const mode = this.getMode(doc);
+    const labels: Record<AutoRunMode, string> = {
+      live: '$(zap) Auto-run: en vivo',
+      save: '$(save) Auto-run: al guardar',
+      off: '$(circle-slash) Auto-run',
+    };
+    this.toggleItem.text = labels[mode];
+    this.toggleItem.tooltip = mode === 'off'
+      ? 'Ockla: este archivo no se ejecuta automáticamente. Clic para activarlo'
+      : 'Ockla: este archivo se ejecuta automáticamente. Clic para desactivarlo';
+    this.toggleItem.show();
+  }
+
+  /**
+   * Runs documents saved in save mode; in live mode the saved code already ran as it was typed.
+   * Documents running by themselves whose last run loaded the saved file run again, in either mode
+   */
+  private async handleSave(doc: vscode.TextDocument): Promise<void> {
+    const dependents = doc.uri.scheme === 'file'
+      ? vscode.workspace.textDocuments.filter(other => other !== doc && this.dependsOn(other, doc.uri.fsPath))
+      : [];
+    if (this.getMode(doc) === 'save') {
+      dependents.unshift(doc);
+    }
+
+    await Promise.all(dependents.map(dependent => this.runDocument(dependent, this.configService.get(dependent.uri))));
+  }
+
+  /**
+   * Checks if the last run of a document that runs by itself loaded a file
+   * @param doc - The document
+   * @param filePath - Path of the file
+   */
+  private dependsOn(doc: vscode.TextDocument, filePath: string): boolean {
+    const lastRun = this.runHistory.getRuns(doc.uri.toString())[0];
+    // Paths compare case-insensitively on Windows, where drive letters come in either case
+    const loaded = lastRun?.dependencies?.some(dependency => path.relative(dependency, filePath) === '');
+    return !!loaded && this.getMode(doc) !== 'off';
+  }
+
+  /**
+   * Handles edits of open documents: in live mode, marks their output as stale,
+   * cancels their run in progress and runs them again once typing pauses
+   */
+  private handleDocumentEdit(event: vscode.TextDocumentChangeEvent): void {
+    const doc = event.document;
+    if (event.contentChanges.length === 0 || this.getMode(doc) !== 'live') {
+      return;
+    }
+
+    const key = doc.uri.toString();
+    this.cancel(key);
+    this.outputPanel.markStale(doc.uri);
+
+    this.liveTimers.set(key, setTimeout(() => {
+      this.liveTimers.delete(key);
+      // Code being typed often does not parse; its output stays stale until it does
+      const config = this.configService.get(doc.uri);
+      if (this.codeExecutor.hasValidSyntax(doc.getText(), getExecutionOptions(doc, config))) {
+        void this.runDocument(doc, config);
+      }
+    }, this.configService.get(doc.uri).liveModeDelay));
+  }
+
+  /**
+   * Cancels the pending live run and the run in progress of a document
+   * @param key - The document URI
+   */
+  private cancel(key: string): void {
+    clearTimeout(this.liveTimers.get(key));
+    this.liveTimers.delete(key);
+    this.runs.get(key)?.abort();
+    this.runs.delete(key);
+  }
+
+  /**
+   * Runs a document, streaming its output to the panel (shown only if configured to do so)
+   * @param doc - The document
+   * @param config - The configuration of the document
+   */
+  private async runDocument(doc: vscode.TextDocument, config: OcklaConfiguration): Promise<void> {
+    const code = doc.getText();
+
+    if (!this.codeExecutor.validateCode(code)) {
+      return;
+    }
+
+    // Check if we should auto-show the panel
+    const autoShowPanel = config.autoShowPanel;
+
+    // A newer run of the document replaces this one
+    const key = doc.uri.toString();
+    this.runs.get(key)?.abort();
+    const controller = new AbortController();
+    this.runs.set(key, controller);
+
+    const options = getExecutionOptions(doc, config);
+    await this.documentRunner.run(doc, code, { ...options, signal: controller.signal }, autoShowPanel);
+    if (this.runs.get(key) === controller) {
+      this.runs.delete(key);
+    }
+  }
+}